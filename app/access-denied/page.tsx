@@ -1,16 +0,0 @@
-export default function AccessDenied() {
-  return (
-    <div className="min-h-screen bg-[#F5F5F7] flex items-center justify-center">
-      <div className="text-center p-8">
-        <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
-          <svg className="w-8 h-8 text-red-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m0 0v2m0-2h2m-2 0H10m2-10a4 4 0 00-4 4v1h8v-1a4 4 0 00-4-4z" />
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 12h14a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2z" />
-          </svg>
-        </div>
-        <h1 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h1>
-        <p className="text-gray-500">You need a valid access link to view this dashboard.</p>
-      </div>
-    </div>
-  );
-}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { ROLES } from '../../lib/roles';
+import type { Role } from '../../lib/roles';
+import type { AccountSummary } from '../../lib/accounts';
+
+const EMPTY_FORM = { email: '', name: '', role: 'viewer' as Role, password: '' };
+
+export default function AccountsPage() {
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const fetchAccounts = async () => {
+    try {
+      const response = await fetch('/api/accounts');
+      if (!response.ok) throw new Error(`Failed to load accounts: ${response.status}`);
+      const data: { accounts: AccountSummary[] } = await response.json();
+      setAccounts(data.accounts);
+    } catch (error) {
+      console.error('Error fetching accounts:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchAccounts();
+  }, []);
+
+  // Sends a change and reloads the list, surfacing the API's error message if it refuses
+  const submit = async (url: string, method: 'POST' | 'PATCH', body: object) => {
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        setError(data?.error ?? `Request failed: ${response.status}`);
+        return false;
+      }
+      await fetchAccounts();
+      return true;
+    } catch (error) {
+      console.error('Error saving account:', error);
+      setError('Failed to save account');
+      return false;
+    }
+  };
+
+  const createAccount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (await submit('/api/accounts', 'POST', form)) setForm(EMPTY_FORM);
+  };
+
+  const updateAccount = (email: string, changes: { role?: Role; revoked?: boolean }) =>
+    submit(`/api/accounts/${encodeURIComponent(email)}`, 'PATCH', changes);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#F5F5F7] flex items-center justify-center">
+        <div className="text-gray-500 text-lg font-medium">Loading...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F5F5F7] text-gray-900">
+      {/* Navigation */}
+      <nav className="bg-white/80 backdrop-blur-xl border-b border-gray-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-3 sm:py-4 flex items-center gap-3">
+          <Link href="/" className="text-gray-500 hover:text-gray-900">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </Link>
+          <h1 className="text-lg sm:text-xl font-semibold">Accounts</h1>
+        </div>
+      </nav>
+
+      <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-4 sm:py-8 space-y-3 sm:space-y-6">
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-800 rounded-xl p-3 sm:p-4 text-xs sm:text-sm">{error}</div>
+        )}
+
+        <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm">
+          <h2 className="text-base sm:text-lg font-semibold mb-2 sm:mb-4 text-gray-900">People with access</h2>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-500 border-b border-gray-200">
+                  <th className="text-left py-3 font-medium">Name</th>
+                  <th className="text-left py-3 font-medium">Email</th>
+                  <th className="text-left py-3 font-medium">Role</th>
+                  <th className="text-right py-3 font-medium">Added</th>
+                  <th className="text-right py-3 font-medium">Access</th>
+                </tr>
+              </thead>
+              <tbody>
+                {accounts.map((a) => (
+                  <tr key={a.email} className={`border-b border-gray-100 ${a.revoked ? 'text-gray-400' : ''}`}>
+                    <td className="py-3">{a.name}</td>
+                    <td className="py-3 text-gray-600">{a.email}</td>
+                    <td className="py-3">
+                      <select
+                        value={a.role}
+                        onChange={(e) => updateAccount(a.email, { role: e.target.value as Role })}
+                        className="px-2 py-1 border border-gray-200 rounded-md bg-white text-gray-700 text-xs sm:text-sm"
+                      >
+                        {ROLES.map((role) => <option key={role} value={role}>{role}</option>)}
+                      </select>
+                    </td>
+                    <td className="text-right py-3 text-gray-600">{format(new Date(a.createdAt), 'MMM dd, yyyy')}</td>
+                    <td className="text-right py-3">
+                      <button
+                        onClick={() => updateAccount(a.email, { revoked: !a.revoked })}
+                        className={`px-3 py-1.5 text-xs font-medium rounded-md transition ${
+                          a.revoked ? 'bg-gray-100 text-gray-700 hover:bg-gray-200' : 'bg-red-50 text-red-700 hover:bg-red-100'
+                        }`}
+                      >
+                        {a.revoked ? 'Restore' : 'Revoke'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        <form onSubmit={createAccount} className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm">
+          <h2 className="text-base sm:text-lg font-semibold mb-2 sm:mb-4 text-gray-900">Add account</h2>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-2 sm:gap-4">
+            <input
+              type="email"
+              required
+              placeholder="Email"
+              value={form.email}
+              onChange={(e) => setForm({ ...form, email: e.target.value })}
+              className="px-3 py-2 border border-gray-200 rounded-lg text-sm"
+            />
+            <input
+              placeholder="Name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              className="px-3 py-2 border border-gray-200 rounded-lg text-sm"
+            />
+            <select
+              value={form.role}
+              onChange={(e) => setForm({ ...form, role: e.target.value as Role })}
+              className="px-3 py-2 border border-gray-200 rounded-lg text-sm bg-white"
+            >
+              {ROLES.map((role) => <option key={role} value={role}>{role}</option>)}
+            </select>
+            <input
+              type="password"
+              required
+              minLength={12}
+              autoComplete="new-password"
+              placeholder="Initial password"
+              value={form.password}
+              onChange={(e) => setForm({ ...form, password: e.target.value })}
+              className="px-3 py-2 border border-gray-200 rounded-lg text-sm"
+            />
+            <button type="submit" className="py-2 rounded-lg bg-blue-700 text-white text-sm font-medium hover:bg-blue-800 transition">
+              Add
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
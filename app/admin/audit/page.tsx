@@ -0,0 +1,151 @@
+'use client';
+
+import { use, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { toSearchParams, useQuerySync } from '../../lib/urlState';
+import type { SearchParams } from '../../lib/urlState';
+import type { AuditEntry, AuditKind, AuditResponse } from '../../lib/audit';
+
+const KINDS: { value: AuditKind | ''; label: string }[] = [
+  { value: '', label: 'All' },
+  { value: 'page', label: 'Pages' },
+  { value: 'query', label: 'Queries' },
+  { value: 'export', label: 'Exports' },
+  { value: 'change', label: 'Changes' },
+  { value: 'sign-in', label: 'Sign-ins' },
+];
+
+const FILTER_KEYS = ['email', 'path', 'kind', 'from', 'to'] as const;
+
+type Filters = Record<(typeof FILTER_KEYS)[number], string>;
+
+function formatParams(params: Record<string, string>) {
+  return Object.entries(params).map(([key, value]) => `${key}=${value}`).join(' ');
+}
+
+export default function AuditPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const query = toSearchParams(use(searchParams));
+  const [filters, setFilters] = useState<Filters>(() => {
+    const initial = { email: '', path: '', kind: '', from: '', to: '' };
+    FILTER_KEYS.forEach((key) => { initial[key] = query.get(key) ?? ''; });
+    return initial;
+  });
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  const activeFilters = Object.fromEntries(Object.entries(filters).filter(([, value]) => value));
+  const filterQuery = new URLSearchParams(activeFilters).toString();
+
+  useQuerySync(activeFilters);
+
+  useEffect(() => {
+    const fetchEntries = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/audit${filterQuery ? `?${filterQuery}` : ''}`);
+        if (!response.ok) throw new Error(`Failed to load audit log: ${response.status}`);
+        const data: AuditResponse = await response.json();
+        setEntries(data.entries);
+        setTotal(data.total);
+      } catch (error) {
+        console.error('Error fetching audit log:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEntries();
+  }, [filterQuery]);
+
+  const inputClass = 'px-3 py-1.5 border border-gray-200 rounded-lg text-xs sm:text-sm bg-white';
+
+  return (
+    <div className="min-h-screen bg-[#F5F5F7] text-gray-900">
+      {/* Navigation */}
+      <nav className="bg-white/80 backdrop-blur-xl border-b border-gray-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-3 sm:py-4 flex items-center gap-3">
+          <Link href="/" className="text-gray-500 hover:text-gray-900">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </Link>
+          <h1 className="text-lg sm:text-xl font-semibold">Audit Log</h1>
+        </div>
+      </nav>
+
+      <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-4 sm:py-8">
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2 mb-4 sm:mb-6">
+          <div className="flex flex-wrap gap-1 bg-gray-100 p-1 rounded-lg">
+            {KINDS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => setFilters({ ...filters, kind: option.value })}
+                className={`px-2 sm:px-3 py-1 sm:py-1.5 text-xs sm:text-sm font-medium rounded-md transition ${
+                  filters.kind === option.value
+                    ? 'bg-white text-gray-900 shadow-sm'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <input placeholder="Person (email)" value={filters.email} onChange={(e) => setFilters({ ...filters, email: e.target.value })} className={inputClass} />
+          <input placeholder="Path, e.g. /users" value={filters.path} onChange={(e) => setFilters({ ...filters, path: e.target.value })} className={inputClass} />
+          <input type="date" value={filters.from} onChange={(e) => setFilters({ ...filters, from: e.target.value })} className={inputClass} />
+          <span className="text-gray-400">–</span>
+          <input type="date" value={filters.to} onChange={(e) => setFilters({ ...filters, to: e.target.value })} className={inputClass} />
+          {loading && <span className="text-xs text-gray-400 ml-2">Loading...</span>}
+        </div>
+
+        <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm">
+          <h2 className="text-base sm:text-lg font-semibold mb-2 sm:mb-4 text-gray-900">
+            {total > entries.length ? `Latest ${entries.length} of ${total.toLocaleString()} entries` : `${total.toLocaleString()} entries`}
+          </h2>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-500 border-b border-gray-200">
+                  <th className="text-left py-3 font-medium">When</th>
+                  <th className="text-left py-3 font-medium">Who</th>
+                  <th className="text-left py-3 font-medium">Kind</th>
+                  <th className="text-left py-3 font-medium">Path</th>
+                  <th className="text-left py-3 font-medium">Filters</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.length > 0 ? entries.map((e, i) => (
+                  <tr key={`${e.at}-${i}`} className="border-b border-gray-100">
+                    <td className="py-3 text-gray-600 whitespace-nowrap">{format(new Date(e.at), 'MMM dd HH:mm:ss')}</td>
+                    <td className="py-3">
+                      {e.email}
+                      {e.role && <span className="ml-1 text-xs text-gray-400">{e.role}</span>}
+                    </td>
+                    <td className="py-3">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${
+                        e.outcome === 'failure' ? 'bg-red-50 text-red-700'
+                          : e.kind === 'export' || e.kind === 'change' ? 'bg-amber-50 text-amber-700'
+                            : 'bg-gray-100 text-gray-600'
+                      }`}>
+                        {e.kind}{e.outcome === 'failure' ? ' (failed)' : ''}
+                      </span>
+                    </td>
+                    <td className="py-3 text-gray-600">{e.method !== 'GET' && <span className="text-xs text-gray-400 mr-1">{e.method}</span>}{e.path}</td>
+                    <td className="py-3 text-xs text-gray-500 font-mono">{formatParams(e.params)}</td>
+                  </tr>
+                )) : (
+                  <tr>
+                    <td colSpan={5} className="py-4 text-center text-gray-400">No matching entries</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
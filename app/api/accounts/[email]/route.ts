@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { normalizeEmail, toSummary, updateAccount } from '../../../lib/accounts';
+import { sessionFromHeaders } from '../../../lib/auth';
+import { isRole } from '../../../lib/roles';
+
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ email: string }> }) {
+  // Next.js has already decoded the param; decoding again would break on a '%'
+  const email = normalizeEmail((await params).email);
+
+  try {
+    const { role, revoked } = await request.json();
+    if (role !== undefined && !isRole(role)) {
+      return NextResponse.json({ error: `Unknown role: ${role}` }, { status: 400 });
+    }
+    if (revoked !== undefined && typeof revoked !== 'boolean') {
+      return NextResponse.json({ error: 'revoked must be a boolean' }, { status: 400 });
+    }
+
+    // Admins cannot lock themselves out
+    const session = sessionFromHeaders(request.headers);
+    if (session?.email === email && (revoked === true || (role && role !== 'admin'))) {
+      return NextResponse.json({ error: 'You cannot revoke or demote your own account' }, { status: 400 });
+    }
+
+    const account = await updateAccount(email, { role, revoked });
+    if (!account) {
+      return NextResponse.json({ error: `Unknown account: ${email}` }, { status: 404 });
+    }
+    return NextResponse.json(toSummary(account));
+  } catch (error) {
+    console.error('Error updating account:', error);
+    return NextResponse.json({ error: 'Failed to update account' }, { status: 500 });
+  }
+}
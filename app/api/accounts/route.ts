@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAccount, findAccount, listAccounts, toSummary } from '../../lib/accounts';
+import { isRole } from '../../lib/roles';
+
+const MIN_PASSWORD_LENGTH = 12;
+
+export async function GET() {
+  try {
+    const accounts = await listAccounts();
+    return NextResponse.json({ accounts: accounts.map(toSummary) });
+  } catch (error) {
+    console.error('Error listing accounts:', error);
+    return NextResponse.json({ error: 'Failed to list accounts' }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { email, name, role, password } = await request.json();
+    if (typeof email !== 'string' || !email.includes('@')) {
+      return NextResponse.json({ error: 'A valid email is required' }, { status: 400 });
+    }
+    if (!isRole(role)) {
+      return NextResponse.json({ error: `Unknown role: ${role}` }, { status: 400 });
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` }, { status: 400 });
+    }
+    if (await findAccount(email)) {
+      return NextResponse.json({ error: 'An account with this email already exists' }, { status: 409 });
+    }
+
+    const account = await createAccount({ email, name: typeof name === 'string' ? name : '', role, password });
+    return NextResponse.json(toSummary(account), { status: 201 });
+  } catch (error) {
+    console.error('Error creating account:', error);
+    return NextResponse.json({ error: 'Failed to create account' }, { status: 500 });
+  }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { AUDIT_KINDS, readAudit } from '../../lib/audit';
+import type { AuditKind, AuditResponse } from '../../lib/audit';
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const kind = params.get('kind') as AuditKind | null;
+    const body: AuditResponse = await readAudit({
+      email: params.get('email') ?? undefined,
+      kind: kind && AUDIT_KINDS.includes(kind) ? kind : undefined,
+      path: params.get('path') ?? undefined,
+      from: params.get('from') ?? undefined,
+      to: params.get('to') ?? undefined,
+    });
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error reading audit log:', error);
+    return NextResponse.json({ error: 'Failed to read audit log' }, { status: 500 });
+  }
+}
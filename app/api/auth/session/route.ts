@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findAccount } from '../../../lib/accounts';
+import { sessionFromHeaders } from '../../../lib/auth';
+import type { Session } from '../../../lib/auth';
+
+export async function GET(request: NextRequest) {
+  const session = sessionFromHeaders(request.headers);
+  const account = session && await findAccount(session.email);
+  if (!account) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body: Session = { email: account.email, name: account.name, role: account.role };
+  return NextResponse.json(body);
+}
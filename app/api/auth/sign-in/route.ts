@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findAccount, normalizeEmail, verifyPassword } from '../../../lib/accounts';
+import { recordAudit } from '../../../lib/audit';
+import { SESSION_COOKIE, SESSION_MAX_AGE, createSessionToken } from '../../../lib/auth';
+import type { Account } from '../../../lib/accounts';
+
+async function auditSignIn(email: string, account: Account | null, outcome: 'success' | 'failure') {
+  try {
+    await recordAudit({
+      email: normalizeEmail(email),
+      role: account?.role ?? null,
+      kind: 'sign-in',
+      method: 'POST',
+      path: '/api/auth/sign-in',
+      params: {},
+      outcome,
+    });
+  } catch (error) {
+    console.error('Error writing audit log:', error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const { email, password } = await request.json();
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      return NextResponse.json({ error: 'Email and password are required' }, { status: 400 });
+    }
+
+    const account = await findAccount(email);
+    if (!(await verifyPassword(account, password)) || !account || account.revoked) {
+      await auditSignIn(email, account, 'failure');
+      return NextResponse.json({ error: 'Invalid email or password' }, { status: 401 });
+    }
+
+    await auditSignIn(email, account, 'success');
+    const response = NextResponse.json({ email: account.email, name: account.name, role: account.role });
+    response.cookies.set(SESSION_COOKIE, createSessionToken(account), {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      maxAge: SESSION_MAX_AGE,
+    });
+    return response;
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return NextResponse.json({ error: 'Failed to sign in' }, { status: 500 });
+  }
+}
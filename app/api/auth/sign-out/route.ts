@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { endSessions } from '../../../lib/accounts';
+import { SESSION_COOKIE, sessionFromHeaders } from '../../../lib/auth';
+
+// Deleting the cookie is not enough on its own: a copied token would stay valid until it expires.
+export async function POST(request: NextRequest) {
+  try {
+    const session = sessionFromHeaders(request.headers);
+    if (session) await endSessions(session.email);
+  } catch (error) {
+    console.error('Error ending sessions:', error);
+    return NextResponse.json({ error: 'Failed to sign out' }, { status: 500 });
+  }
+
+  const response = NextResponse.json({ ok: true });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteFunnel } from '../../../lib/savedFunnels';
+
+export async function DELETE(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+
+  try {
+    if (!await deleteFunnel(id)) {
+      return NextResponse.json({ error: `Unknown funnel: ${id}` }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error deleting funnel:', error);
+    return NextResponse.json({ error: 'Failed to delete funnel' }, { status: 500 });
+  }
+}
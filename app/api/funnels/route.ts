@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { sessionFromHeaders } from '../../lib/auth';
+import { CONVERSION_WINDOWS, MIN_FUNNEL_STEPS, parseSteps } from '../../lib/metrics';
+import type { ConversionWindow, FunnelStepDefinition } from '../../lib/metrics';
+import { listFunnels, saveFunnel } from '../../lib/savedFunnels';
+import { isEvent } from '../../lib/taxonomy';
+
+export async function GET() {
+  try {
+    return NextResponse.json({ funnels: await listFunnels() });
+  } catch (error) {
+    console.error('Error listing funnels:', error);
+    return NextResponse.json({ error: 'Failed to list funnels' }, { status: 500 });
+  }
+}
+
+// Steps are posted in their URL form (`event|event;prop>=300`), the same as the builder keeps them.
+export async function POST(request: NextRequest) {
+  try {
+    const { name, steps, window } = await request.json();
+    if (typeof name !== 'string' || name.trim() === '') {
+      return NextResponse.json({ error: 'A name is required' }, { status: 400 });
+    }
+    const parsed = typeof steps === 'string' ? parseSteps(steps) : [];
+    if (parsed.length < MIN_FUNNEL_STEPS) {
+      return NextResponse.json({ error: `A funnel needs at least ${MIN_FUNNEL_STEPS} steps` }, { status: 400 });
+    }
+    const invalid = parsed.findIndex(step => step === null || !isEvent(step.event));
+    if (invalid !== -1) {
+      return NextResponse.json({ error: `Step ${invalid + 1} is not a known event with valid filters` }, { status: 400 });
+    }
+    if (!CONVERSION_WINDOWS.includes(window)) {
+      return NextResponse.json({ error: `Unknown conversion window: ${window}` }, { status: 400 });
+    }
+
+    const funnel = await saveFunnel({
+      name,
+      steps: parsed as FunnelStepDefinition[],
+      window: window as ConversionWindow,
+      createdBy: sessionFromHeaders(request.headers)?.email ?? 'unknown',
+    });
+    return NextResponse.json(funnel, { status: 201 });
+  } catch (error) {
+    console.error('Error saving funnel:', error);
+    return NextResponse.json({ error: 'Failed to save funnel' }, { status: 500 });
+  }
+}
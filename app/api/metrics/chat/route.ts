@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { supabase } from '../../../lib/supabase';
+import { fetchAll, mergeMeta } from '../../../lib/fetchAll';
+import { parseDateWindow, previousWindow } from '../../../lib/timeRange';
+import type { DateWindow } from '../../../lib/timeRange';
+import {
+  CONVERSION_WINDOW_MS,
+  MESSAGES_PER_SESSION_BUCKETS,
+  UNSET,
+  average,
+  conversionEnd,
+  histogram,
+  isUnanswered,
+  messagesBySession,
+  nextSessionStates,
+  parseConversionWindow,
+  percentile,
+  rate,
+  responseMix,
+  sessionsLeadingTo,
+} from '../../../lib/metrics';
+import type { AnalyticsEvent, ChatMessage, ChatSession, ConversionWindow } from '../../../lib/metrics';
+import type { ChatMetrics, WithPrevious } from '../../../lib/api';
+
+const UNANSWERED_LIMIT = 20;
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const period = parseDateWindow(searchParams);
+    const conversionWindow = parseConversionWindow(searchParams.get('window'));
+    const body: WithPrevious<ChatMetrics> = await computeChat(period, conversionWindow);
+    if (searchParams.get('compare') === '1') {
+      body.previous = await computeChat(previousWindow(period), conversionWindow);
+    }
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error computing chat metrics:', error);
+    return NextResponse.json({ error: 'Failed to compute chat metrics' }, { status: 500 });
+  }
+}
+
+async function computeChat(period: DateWindow, conversionWindow: ConversionWindow): Promise<ChatMetrics> {
+  const windowMs = CONVERSION_WINDOW_MS[conversionWindow];
+  const until = conversionEnd(period.to, windowMs);
+
+  const sessionsResult = await fetchAll<ChatSession>((from, to) => supabase
+    .from('chat_sessions')
+    .select('id, user_id, created_at, state')
+    .gte('created_at', period.from)
+    .lt('created_at', period.to)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to), { label: 'chat_sessions' });
+  const sessions = sessionsResult.data;
+
+  const messagesResult = await fetchAll<ChatMessage>((from, to) => supabase
+    .from('chat_messages')
+    .select('session_id, created_at, role, response_type, processing_ms, scenario')
+    .gte('created_at', period.from)
+    .lt('created_at', until)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to), { label: 'chat_messages' });
+  const sessionIds = new Set(sessions.map(s => s.id));
+  const messages = messagesResult.data.filter(m => sessionIds.has(m.session_id));
+
+  const basketsResult = await fetchAll<AnalyticsEvent>((from, to) => supabase
+    .from('analytics_events')
+    .select('received_at, firebase_uid, event_name')
+    .eq('event_name', 'basket_results_displayed')
+    .gte('received_at', period.from)
+    .lt('received_at', until)
+    .order('received_at', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to), { label: 'basket_results_displayed' });
+
+  const bySession = messagesBySession(messages);
+  const counts = sessions.map(s => bySession.get(s.id)?.length ?? 0);
+  const sortedCounts = [...counts].sort((a, b) => a - b);
+
+  const unansweredSessions = sessions.filter(s => isUnanswered(bySession.get(s.id)));
+  const converted = sessionsLeadingTo(sessions, basketsResult.data, 'basket_results_displayed', windowMs);
+
+  // === Response types by scenario ===
+  const scenarioMix = responseMix(messages);
+  const typeTotals = new Map<string, number>();
+  scenarioMix.forEach(row => Object.entries(row.types).forEach(([type, count]) => {
+    typeTotals.set(type, (typeTotals.get(type) || 0) + count);
+  }));
+  const responseTypes = [...typeTotals.entries()].sort((a, b) => b[1] - a[1]).map(([type]) => type);
+
+  // === States ===
+  const stateMap = new Map<string, number>();
+  sessions.forEach(s => stateMap.set(s.state || UNSET, (stateMap.get(s.state || UNSET) || 0) + 1));
+  const stateCounts = [...stateMap.entries()]
+    .map(([state, count]) => ({ state, count }))
+    .sort((a, b) => b.count - a.count);
+
+  // === Unanswered, most recent first ===
+  const unanswered = unansweredSessions
+    .slice(-UNANSWERED_LIMIT)
+    .reverse()
+    .map(s => ({
+      id: s.id,
+      user: s.user_id ?? '',
+      createdAt: format(new Date(s.created_at), 'MMM dd HH:mm'),
+      state: s.state || UNSET,
+      userMessages: bySession.get(s.id)?.filter(m => m.role === 'user').length ?? 0,
+    }));
+
+  // === Daily ===
+  const unansweredIds = new Set(unansweredSessions.map(s => s.id));
+  const days = new Map<string, { sessions: number; unanswered: number; converted: number }>();
+  sessions.forEach(s => {
+    const day = s.created_at.split('T')[0];
+    if (!days.has(day)) days.set(day, { sessions: 0, unanswered: 0, converted: 0 });
+    const entry = days.get(day)!;
+    entry.sessions++;
+    if (unansweredIds.has(s.id)) entry.unanswered++;
+    if (converted.has(s.id)) entry.converted++;
+  });
+  const dailyData = [...days.entries()]
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([day, data]) => ({ date: format(new Date(day), 'MMM dd'), ...data }))
+    .slice(-14);
+
+  return {
+    window: conversionWindow,
+    messagesDistribution: histogram(counts, MESSAGES_PER_SESSION_BUCKETS),
+    scenarioMix,
+    responseTypes,
+    stateCounts,
+    nextSessionStates: nextSessionStates(sessions),
+    unanswered,
+    dailyData,
+    stats: {
+      sessions: sessions.length,
+      messages: messages.length,
+      avgMessages: sessions.length > 0 ? Math.round((messages.length / sessions.length) * 10) / 10 : 0,
+      medianMessages: percentile(sortedCounts, 0.5),
+      unanswered: unansweredSessions.length,
+      unansweredRate: rate(unansweredSessions.length, sessions.length),
+      converted: converted.size,
+      conversionRate: rate(converted.size, sessions.length),
+      avgProcessingMs: average(messages.filter(m => m.processing_ms).map(m => m.processing_ms!)),
+    },
+    meta: mergeMeta(sessionsResult, messagesResult, basketsResult),
+  };
+}
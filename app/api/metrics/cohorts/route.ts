@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { supabase } from '../../../lib/supabase';
+import { fetchAll, mergeMeta } from '../../../lib/fetchAll';
+import { firstSeenSince } from '../../../lib/firstSeen';
+import {
+  COHORT_ANCHORS,
+  GRANULARITIES,
+  MAX_COHORT_PERIODS,
+  addPeriods,
+  cohortMatrix,
+  periodStart,
+} from '../../../lib/metrics';
+import type { AnalyticsEvent, CohortAnchor, Granularity } from '../../../lib/metrics';
+import type { CohortMetrics } from '../../../lib/api';
+
+const LABEL_FORMATS: Record<Granularity, string> = { day: 'MMM dd', week: 'MMM dd', month: 'MMM yyyy' };
+
+export async function GET(request: NextRequest) {
+  try {
+    const params = request.nextUrl.searchParams;
+    const granularity = GRANULARITIES.includes(params.get('granularity') as Granularity)
+      ? params.get('granularity') as Granularity
+      : 'week';
+    const anchor = COHORT_ANCHORS.includes(params.get('anchor') as CohortAnchor)
+      ? params.get('anchor') as CohortAnchor
+      : 'first_event';
+    const periods = Math.min(Math.max(Number(params.get('periods')) || MAX_COHORT_PERIODS, 1), MAX_COHORT_PERIODS);
+
+    const now = new Date();
+    const start = addPeriods(periodStart(now, granularity), -(periods - 1), granularity).toISOString();
+
+    const { data: events, ...eventsMeta } = await fetchAll<Pick<AnalyticsEvent, 'firebase_uid' | 'received_at'>>((from, to) => supabase
+      .from('analytics_events')
+      .select('firebase_uid, received_at')
+      .gte('received_at', start)
+      .order('received_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to), { label: 'analytics_events' });
+
+    // Anchor timestamp per user, earliest first since events are sorted ascending
+    let anchors = new Map<string, string>();
+    let authMeta = null;
+
+    if (anchor === 'new_user') {
+      const { data: authEvents, ...meta } = await fetchAll<AnalyticsEvent>((from, to) => supabase
+        .from('analytics_events')
+        .select('firebase_uid, received_at, event_name, props')
+        .eq('event_name', 'auth_anonymous_selected')
+        .gte('received_at', start)
+        .order('received_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to), { label: 'auth_anonymous_selected' });
+      authMeta = meta;
+      authEvents.forEach(e => {
+        if (e.props?.is_new_user === true && !anchors.has(e.firebase_uid)) {
+          anchors.set(e.firebase_uid, e.received_at);
+        }
+      });
+    } else {
+      anchors = await firstSeenSince(events, start);
+    }
+
+    const cohorts = cohortMatrix(events, anchors, granularity, periods, now).map(row => ({
+      cohort: format(row.start, LABEL_FORMATS[granularity]),
+      users: row.users,
+      retention: row.retention,
+    }));
+
+    const body: CohortMetrics = {
+      granularity,
+      anchor,
+      cohorts,
+      meta: authMeta ? mergeMeta(eventsMeta, authMeta) : eventsMeta,
+    };
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error computing cohort metrics:', error);
+    return NextResponse.json({ error: 'Failed to compute cohort metrics' }, { status: 500 });
+  }
+}
@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { supabase } from '../../../../lib/supabase';
+import { fetchAll } from '../../../../lib/fetchAll';
+import { lastDay, parseDateWindow, previousWindow } from '../../../../lib/timeRange';
+import type { DateWindow } from '../../../../lib/timeRange';
+import { EVENTS, eventsOf, isFeature } from '../../../../lib/taxonomy';
+import { dailyActivity, eventCounts, uniqueUsers } from '../../../../lib/metrics';
+import type { AnalyticsEvent } from '../../../../lib/metrics';
+import type { FeatureMetrics, WithPrevious } from '../../../../lib/api';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ name: string }> }) {
+  const { name } = await params;
+  if (!isFeature(name)) {
+    return NextResponse.json({ error: `Unknown feature: ${name}` }, { status: 404 });
+  }
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const period = parseDateWindow(searchParams);
+    const body: WithPrevious<FeatureMetrics> = await computeFeature(eventsOf(name), period);
+    if (searchParams.get('compare') === '1') {
+      body.previous = await computeFeature(eventsOf(name), previousWindow(period));
+    }
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error computing feature metrics:', error);
+    return NextResponse.json({ error: 'Failed to compute feature metrics' }, { status: 500 });
+  }
+}
+
+async function computeFeature(eventNames: string[], period: DateWindow): Promise<FeatureMetrics> {
+  const today = lastDay(period);
+
+  const { data: events, ...meta } = await fetchAll<AnalyticsEvent>((from, to) => supabase
+    .from('analytics_events')
+    .select('received_at, firebase_uid, event_name')
+    .in('event_name', eventNames)
+    .gte('received_at', period.from)
+    .lt('received_at', period.to)
+    .order('received_at', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to), { label: 'analytics_events' });
+
+  // Daily breakdown
+  const dailyData = dailyActivity(events)
+    .map(day => ({
+      date: format(new Date(day.key), 'MMM dd'),
+      events: day.events,
+      users: day.users,
+    }))
+    .slice(-14);
+
+  // Event breakdown
+  const eventBreakdown = eventCounts(events).map(({ event_name, count, users }) => ({
+    name: event_name.replace(/_/g, ' '),
+    description: EVENTS[event_name].description,
+    count,
+    users,
+  }));
+
+  // Top users
+  const userMap = new Map<string, { events: number; lastSeen: string }>();
+  events.forEach(e => {
+    if (!userMap.has(e.firebase_uid)) {
+      userMap.set(e.firebase_uid, { events: 0, lastSeen: e.received_at });
+    }
+    const user = userMap.get(e.firebase_uid)!;
+    user.events++;
+    if (e.received_at > user.lastSeen) {
+      user.lastSeen = e.received_at;
+    }
+  });
+
+  const topUsers = Array.from(userMap.entries())
+    .map(([user, data]) => ({
+      user,
+      events: data.events,
+      lastSeen: format(new Date(data.lastSeen), 'MMM dd HH:mm'),
+    }))
+    .sort((a, b) => b.events - a.events)
+    .slice(0, 10);
+
+  // Stats
+  const userCount = uniqueUsers(events).size;
+  const todayEvents = events.filter(e => e.received_at.startsWith(today)).length;
+
+  return {
+    dailyData,
+    eventBreakdown,
+    topUsers,
+    stats: {
+      totalEvents: events.length,
+      uniqueUsers: userCount,
+      avgPerUser: userCount > 0 ? Math.round(events.length / userCount) : 0,
+      todayEvents,
+    },
+    meta,
+  };
+}
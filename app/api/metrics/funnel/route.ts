@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '../../../lib/supabase';
+import { fetchAll } from '../../../lib/fetchAll';
+import { parseDateWindow, previousWindow } from '../../../lib/timeRange';
+import type { DateWindow } from '../../../lib/timeRange';
+import { isEvent } from '../../../lib/taxonomy';
+import {
+  CONVERSION_WINDOW_MS,
+  MIN_FUNNEL_STEPS,
+  breakdownEvents,
+  conversionEnd,
+  funnelBreakdown,
+  funnelSummary,
+  orderedFunnel,
+  parseBreakdown,
+  parseConversionWindow,
+  parseSteps,
+  rate,
+  stepLabel,
+} from '../../../lib/metrics';
+import type { AnalyticsEvent, BreakdownDimension, ConversionWindow, FunnelStepDefinition } from '../../../lib/metrics';
+import type { FunnelMetrics, WithPrevious } from '../../../lib/api';
+
+const STEP_COLORS = ['#2563EB', '#0891B2', '#059669', '#D97706', '#7C3AED', '#DB2777', '#DC2626', '#16A34A'];
+
+// ?steps=basket_viewed|basket_results_displayed;savings_cents>=300&window=1d
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const steps = parseSteps(searchParams.get('steps') ?? '');
+  if (steps.length < MIN_FUNNEL_STEPS) {
+    return NextResponse.json({ error: `A funnel needs at least ${MIN_FUNNEL_STEPS} steps` }, { status: 400 });
+  }
+  const invalid = steps.findIndex(step => step === null || !isEvent(step.event));
+  if (invalid !== -1) {
+    return NextResponse.json({ error: `Step ${invalid + 1} is not a known event with valid filters` }, { status: 400 });
+  }
+
+  try {
+    const period = parseDateWindow(searchParams);
+    const conversionWindow = parseConversionWindow(searchParams.get('window'));
+    const definition = steps as FunnelStepDefinition[];
+    const breakdown = parseBreakdown(searchParams.get('breakdown'));
+    const body: WithPrevious<FunnelMetrics> = await computeFunnel(definition, period, conversionWindow, breakdown);
+    if (searchParams.get('compare') === '1') {
+      body.previous = await computeFunnel(definition, previousWindow(period), conversionWindow, breakdown);
+    }
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error computing funnel metrics:', error);
+    return NextResponse.json({ error: 'Failed to compute funnel metrics' }, { status: 500 });
+  }
+}
+
+async function computeFunnel(
+  steps: FunnelStepDefinition[],
+  period: DateWindow,
+  conversionWindow: ConversionWindow,
+  breakdown: BreakdownDimension | null,
+): Promise<FunnelMetrics> {
+  const windowMs = CONVERSION_WINDOW_MS[conversionWindow];
+  const until = conversionEnd(period.to, windowMs);
+
+  const { data: events, ...meta } = await fetchAll<AnalyticsEvent>((from, to) => supabase
+    .from('analytics_events')
+    .select('received_at, firebase_uid, event_name, platform, props')
+    .in('event_name', [...new Set([...steps.map(step => step.event), ...(breakdown ? breakdownEvents(breakdown) : [])])])
+    .gte('received_at', period.from)
+    .lt('received_at', until)
+    .order('received_at', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to), { label: 'analytics_events' });
+
+  const { funnelData, biggestDropoff, biggestDropoffPct } = funnelSummary(
+    orderedFunnel(events, steps, windowMs, period.to),
+    steps.map((step, index) => ({
+      name: stepLabel(step),
+      shortName: `${index + 1}. ${step.event.replace(/_/g, ' ')}`,
+      fill: STEP_COLORS[index % STEP_COLORS.length],
+    })),
+  );
+
+  const entered = funnelData[0].users;
+  const converted = funnelData[funnelData.length - 1].users;
+
+  return {
+    window: conversionWindow,
+    funnelData,
+    breakdown: breakdown ? funnelBreakdown(events, steps, windowMs, breakdown, period.to) : null,
+    stats: {
+      entered,
+      converted,
+      overallRate: rate(converted, entered),
+      biggestDropoff,
+      biggestDropoffPct,
+    },
+    meta,
+  };
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '../../../lib/supabase';
+import { fetchAll } from '../../../lib/fetchAll';
+import { parseDateWindow, previousWindow } from '../../../lib/timeRange';
+import type { DateWindow } from '../../../lib/timeRange';
+import {
+  latencyDistribution,
+  latencySeries,
+  latencySummary,
+  parseLatencyInterval,
+  parseSlo,
+} from '../../../lib/metrics';
+import type { ChatMessage, LatencyInterval, LatencySlo } from '../../../lib/metrics';
+import type { LatencyData, LatencyMetrics, WithPrevious } from '../../../lib/api';
+
+type TimedMessage = Pick<ChatMessage, 'created_at' | 'processing_ms' | 'response_type'>;
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const period = parseDateWindow(searchParams);
+    const slo = parseSlo(searchParams.get('slo'), searchParams.get('target'));
+    const interval = parseLatencyInterval(
+      searchParams.get('interval'),
+      new Date(period.to).getTime() - new Date(period.from).getTime(),
+    );
+    const body: WithPrevious<LatencyMetrics> = await computeLatency(period, slo, interval);
+    if (searchParams.get('compare') === '1') {
+      body.previous = await computeLatency(previousWindow(period), slo, interval);
+    }
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error computing latency metrics:', error);
+    return NextResponse.json({ error: 'Failed to compute latency metrics' }, { status: 500 });
+  }
+}
+
+async function computeLatency(period: DateWindow, slo: LatencySlo, interval: LatencyInterval): Promise<LatencyMetrics> {
+  const { data: messages, ...meta } = await fetchAll<TimedMessage>((from, to) => supabase
+    .from('chat_messages')
+    .select('created_at, processing_ms, response_type')
+    .not('processing_ms', 'is', null)
+    .not('response_type', 'is', null)
+    .gte('created_at', period.from)
+    .lt('created_at', period.to)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to), { label: 'chat_messages' });
+
+  const describe = (type: string, typeMessages: TimedMessage[]): LatencyData => {
+    const times = typeMessages.map(m => m.processing_ms!);
+    const within = times.filter(ms => ms <= slo.thresholdMs).length;
+    return {
+      type: type.replace(/_/g, ' '),
+      ...latencySummary(times),
+      // One decimal, so a 99.9% target can be told apart from a rounded 100%
+      withinSlo: times.length > 0 ? Math.round((within / times.length) * 1000) / 10 : 0,
+      distribution: latencyDistribution(typeMessages),
+      series: latencySeries(typeMessages, interval, slo),
+    };
+  };
+
+  const byType = new Map<string, TimedMessage[]>();
+  messages.forEach(m => {
+    if (!byType.has(m.response_type!)) {
+      byType.set(m.response_type!, []);
+    }
+    byType.get(m.response_type!)!.push(m);
+  });
+
+  const latencyData = Array.from(byType.entries())
+    .map(([type, typeMessages]) => describe(type, typeMessages))
+    .sort((a, b) => b.count - a.count);
+  const overall = describe('all', messages);
+
+  return {
+    slo,
+    interval,
+    overall,
+    latencyData,
+    stats: {
+      requests: messages.length,
+      withinSlo: overall.withinSlo,
+      slow: overall.series.reduce((sum, point) => sum + point.slow, 0),
+      budgetRemaining: overall.series.at(-1)?.budgetRemaining ?? 100,
+      breaches: overall.series.filter(point => point.burnRate > 1).length,
+    },
+    meta,
+  };
+}
@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { supabase } from '../../../lib/supabase';
+import { fetchAll } from '../../../lib/fetchAll';
+import { parseDateWindow, previousWindow } from '../../../lib/timeRange';
+import type { DateWindow } from '../../../lib/timeRange';
+import {
+  CONVERSION_WINDOW_MS,
+  conversionEnd,
+  funnelBreakdown,
+  funnelSummary,
+  orderedFunnel,
+  parseBreakdown,
+  parseConversionWindow,
+  rate,
+} from '../../../lib/metrics';
+import type { AnalyticsEvent, BreakdownDimension, ConversionWindow } from '../../../lib/metrics';
+import type { OnboardingMetrics, WithPrevious } from '../../../lib/api';
+
+// Updated flow based on actual Flutter app - darker colors
+const ONBOARDING_STEPS = [
+  { event: 'app_launch', label: 'App Launch', shortName: 'Launch', color: '#2563EB' },
+  { event: 'splash_load_completed', label: 'Splash Loaded', shortName: 'Splash', color: '#0891B2' },
+  { event: 'onboarding_started', label: 'Onboarding Started', shortName: 'Started', color: '#059669' },
+  { event: 'demo_list_selected', label: 'Demo List / Input', shortName: 'Input', color: '#D97706' },
+  { event: 'comparison_started', label: 'Comparison Started', shortName: 'Compare', color: '#7C3AED' },
+  { event: 'onboarding_completed', label: 'Completed', shortName: 'Done', color: '#DB2777' },
+];
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const period = parseDateWindow(searchParams);
+    const conversionWindow = parseConversionWindow(searchParams.get('window'));
+    const breakdown = parseBreakdown(searchParams.get('breakdown'));
+    const body: WithPrevious<OnboardingMetrics> = await computeOnboarding(period, conversionWindow, breakdown);
+    if (searchParams.get('compare') === '1') {
+      body.previous = await computeOnboarding(previousWindow(period), conversionWindow, breakdown);
+    }
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error computing onboarding metrics:', error);
+    return NextResponse.json({ error: 'Failed to compute onboarding metrics' }, { status: 500 });
+  }
+}
+
+async function computeOnboarding(
+  period: DateWindow,
+  conversionWindow: ConversionWindow,
+  breakdown: BreakdownDimension | null,
+): Promise<OnboardingMetrics> {
+  const windowMs = CONVERSION_WINDOW_MS[conversionWindow];
+  const until = conversionEnd(period.to, windowMs);
+
+  const { data: fetched, ...meta } = await fetchAll<AnalyticsEvent>((from, to) => supabase
+    .from('analytics_events')
+    .select('received_at, firebase_uid, event_name, platform, props')
+    .gte('received_at', period.from)
+    .lt('received_at', until)
+    .order('received_at', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to), { label: 'analytics_events' });
+  const events = fetched.filter(e => e.received_at < period.to);
+
+  // Track demo list selections
+  const demoLists = new Map<string, number>();
+  events.forEach(e => {
+    if (e.event_name === 'demo_list_selected' && typeof e.props?.list_key === 'string') {
+      const key = e.props.list_key;
+      demoLists.set(key, (demoLists.get(key) || 0) + 1);
+    }
+  });
+
+  const demoListStats = Array.from(demoLists.entries())
+    .map(([list, count]) => ({ list, count }))
+    .sort((a, b) => b.count - a.count);
+
+  const steps = ONBOARDING_STEPS.map(step => ({ event: step.event }));
+  const { funnelData, biggestDropoff, biggestDropoffPct } = funnelSummary(
+    orderedFunnel(fetched, steps, windowMs, period.to),
+    ONBOARDING_STEPS.map(step => ({ name: step.label, shortName: step.shortName, fill: step.color })),
+  );
+
+  // Daily onboarding data
+  const dailyMap = new Map<string, { started: Set<string>; completed: Set<string> }>();
+  events.forEach(e => {
+    const date = e.received_at.split('T')[0];
+    if (!dailyMap.has(date)) {
+      dailyMap.set(date, { started: new Set(), completed: new Set() });
+    }
+    const day = dailyMap.get(date)!;
+    if (e.event_name === 'onboarding_started') {
+      day.started.add(e.firebase_uid);
+    }
+    if (e.event_name === 'onboarding_completed') {
+      day.completed.add(e.firebase_uid);
+    }
+  });
+
+  const dailyData = Array.from(dailyMap.entries())
+    .map(([date, data]) => ({
+      date: format(new Date(date), 'MMM dd'),
+      started: data.started.size,
+      completed: data.completed.size,
+      rate: data.started.size > 0 ? Math.round((data.completed.size / data.started.size) * 100) : 0,
+    }))
+    .slice(-14);
+
+  // Overall stats, from the ordered funnel so completions without a start don't count
+  const totalStarted = funnelData[ONBOARDING_STEPS.findIndex(step => step.event === 'onboarding_started')].users;
+  const totalCompleted = funnelData[funnelData.length - 1].users;
+  const overallRate = rate(totalCompleted, totalStarted);
+
+  return {
+    window: conversionWindow,
+    funnelData,
+    breakdown: breakdown ? funnelBreakdown(fetched, steps, windowMs, breakdown, period.to) : null,
+    dailyData,
+    demoListStats,
+    stats: {
+      totalStarted,
+      totalCompleted,
+      overallRate,
+      biggestDropoff,
+      biggestDropoffPct,
+    },
+    meta,
+  };
+}
@@ -0,0 +1,222 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { supabase } from '../../../lib/supabase';
+import { catalogueSummary } from '../../../lib/catalogue';
+import { fetchAll, mergeMeta } from '../../../lib/fetchAll';
+import type { FetchMeta } from '../../../lib/fetchAll';
+import { latestStoreCounts } from '../../../lib/storeSnapshots';
+import { lastDay, parseDateWindow, previousWindow } from '../../../lib/timeRange';
+import type { DateWindow } from '../../../lib/timeRange';
+import {
+  average,
+  completionRate,
+  dailyActivity,
+  eventCounts,
+  featureAdoption as computeFeatureAdoption,
+  savingsBy,
+  savingsEvents,
+  sessionize,
+  uniqueUsers,
+} from '../../../lib/metrics';
+import type { AnalyticsEvent } from '../../../lib/metrics';
+import { FEATURES, featureOf } from '../../../lib/taxonomy';
+import type { FeatureSlug } from '../../../lib/taxonomy';
+import type { CatalogueSummary, OverviewMetrics, StoreHealth, WithPrevious } from '../../../lib/api';
+
+type StoreCoverage = Pick<OverviewMetrics, 'storeHealth' | 'catalogue'>;
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const period = parseDateWindow(searchParams);
+    // Store counts are a current snapshot, not per period, so they are read once and shared by both windows
+    const { meta: storeMeta, ...coverage } = await storeCoverage();
+    const current = await computeOverview(period);
+    const body: WithPrevious<OverviewMetrics> = { ...current, ...coverage, meta: mergeMeta(current.meta, storeMeta) };
+    if (searchParams.get('compare') === '1') {
+      body.previous = { ...await computeOverview(previousWindow(period)), ...coverage };
+    }
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error computing overview metrics:', error);
+    return NextResponse.json({ error: 'Failed to compute overview metrics' }, { status: 500 });
+  }
+}
+
+// Top active stores by product count. A failed count leaves the store cards empty and is reported
+// in meta instead of failing the whole overview.
+async function storeCoverage(): Promise<StoreCoverage & { meta: FetchMeta }> {
+  try {
+    const { stores } = await latestStoreCounts();
+    const catalogue: CatalogueSummary = await catalogueSummary();
+    const storeHealth: StoreHealth[] = stores
+      .filter(s => s.active)
+      .map((s) => ({ name: s.name, products: s.products, promos: s.promos }))
+      .sort((a, b) => b.products - a.products)
+      .slice(0, 10);
+    return { storeHealth, catalogue, meta: { rows: 0, pages: 0, complete: true, errors: [] } };
+  } catch (error) {
+    console.error('Error counting store offerings:', error);
+    const message = (error as { message?: string }).message ?? String(error);
+    return { storeHealth: [], catalogue: null, meta: { rows: 0, pages: 0, complete: false, errors: [`store counts: ${message}`] } };
+  }
+}
+
+async function computeOverview(period: DateWindow): Promise<Omit<OverviewMetrics, keyof StoreCoverage>> {
+  const today = lastDay(period);
+
+  const eventsResult = await fetchAll<AnalyticsEvent>((from, to) => supabase
+    .from('analytics_events')
+    .select('received_at, firebase_uid, event_name, platform, props')
+    .gte('received_at', period.from)
+    .lt('received_at', period.to)
+    .order('received_at', { ascending: false })
+    .order('id', { ascending: false })
+    .range(from, to), { label: 'analytics_events' });
+  const events = eventsResult.data;
+
+  const sessionsResult = await fetchAll((from, to) => supabase
+    .from('chat_sessions')
+    .select('created_at, user_id, state')
+    .gte('created_at', period.from)
+    .lt('created_at', period.to)
+    .order('id')
+    .range(from, to), { label: 'chat_sessions' });
+  const sessions = sessionsResult.data;
+
+  const messagesResult = await fetchAll((from, to) => supabase
+    .from('chat_messages')
+    .select('created_at, role, response_type, processing_ms, scenario')
+    .gte('created_at', period.from)
+    .lt('created_at', period.to)
+    .order('id')
+    .range(from, to), { label: 'chat_messages' });
+  const messages = messagesResult.data;
+
+  // Count TRULY new users using is_new_user flag from auth_anonymous_selected events
+  // This excludes returning device users who just got a new Firebase UID
+  const authResult = await fetchAll((from, to) => supabase
+    .from('analytics_events')
+    .select('firebase_uid, props')
+    .eq('event_name', 'auth_anonymous_selected')
+    .gte('received_at', period.from)
+    .lt('received_at', period.to)
+    .order('id')
+    .range(from, to), { label: 'auth_anonymous_selected' });
+  const authEvents = authResult.data;
+
+  // Count users where is_new_user = true (truly new devices)
+  const trulyNewUsers = new Set<string>();
+  const returningDeviceUsers = new Set<string>();
+
+  authEvents.forEach((e) => {
+    if (e.props?.is_new_user === true) {
+      trulyNewUsers.add(e.firebase_uid);
+    } else if (e.props?.is_returning_device === true) {
+      returningDeviceUsers.add(e.firebase_uid);
+    }
+  });
+
+  const allUsers = uniqueUsers(events);
+
+  const dailyStats = dailyActivity(events)
+    .map(day => ({
+      date: format(new Date(day.key), 'MMM dd'),
+      unique_users: day.users,
+      total_events: day.events,
+    }))
+    .slice(-14);
+
+  const eventBreakdown = eventCounts(events)
+    .map(({ event_name, count }) => ({ event_name, count }))
+    .slice(0, 10);
+
+  const stateMap = new Map<string, number>();
+  sessions.forEach((s) => {
+    stateMap.set(s.state, (stateMap.get(s.state) || 0) + 1);
+  });
+
+  const sessionFunnel = Array.from(stateMap.entries())
+    .map(([state, count]) => ({ state, count }))
+    .sort((a, b) => b.count - a.count);
+
+  const featureAdoption = computeFeatureAdoption(events, featureOf).map(f => ({
+    ...f,
+    feature: FEATURES[f.feature as FeatureSlug].label,
+    slug: f.feature,
+  }));
+
+  const unclaimedEvents = eventCounts(events).filter(e => !featureOf(e.event_name));
+
+  const platformMap = new Map<string, number>();
+  events.forEach((e) => {
+    const p = e.platform || 'unknown';
+    platformMap.set(p, (platformMap.get(p) || 0) + 1);
+  });
+  const platformData = Array.from(platformMap.entries())
+    .map(([platform, count]) => ({ platform, count }))
+    .sort((a, b) => b.count - a.count);
+
+  const responseMap = new Map<string, number>();
+  messages.filter(m => m.role === 'assistant' && m.response_type).forEach((m) => {
+    responseMap.set(m.response_type, (responseMap.get(m.response_type) || 0) + 1);
+  });
+  const responseTypes = Array.from(responseMap.entries())
+    .map(([type, count]) => ({ type, count }))
+    .sort((a, b) => b.count - a.count);
+
+  const avgProcessingMs = average(messages.filter(m => m.processing_ms).map(m => m.processing_ms));
+
+  const totalSavings = savingsBy(events, 'shown');
+  const basketsGenerated = savingsEvents(events, 'shown').length;
+
+  // Calculate list activity stats
+  const listActions = [
+    { key: 'shopping_list_viewed', label: 'Lists Viewed' },
+    { key: 'product_added_to_list', label: 'Products Added' },
+    { key: 'multiple_products_added', label: 'Bulk Adds' },
+    { key: 'shopping_list_saved', label: 'Lists Saved' },
+    { key: 'item_added', label: 'Items Added' },
+  ];
+  const listStats = listActions.map(action => {
+    const actionEvents = events.filter(e => e.event_name === action.key);
+    return {
+      action: action.label,
+      count: actionEvents.length,
+      users: uniqueUsers(actionEvents).size,
+    };
+  }).filter(s => s.count > 0);
+
+  // Calculate onboarding rate by unique users, not event count
+  const onboardingRate = completionRate(events, 'onboarding_started', 'onboarding_completed');
+
+  const todayEvents = events.filter((e) => e.received_at.startsWith(today));
+  const todayUsers = uniqueUsers(todayEvents);
+  const todaySessions = sessionize(events).filter((s) => s.start.startsWith(today));
+  const todayMessages = messages.filter((m) => m.created_at.startsWith(today));
+
+  return {
+    dailyStats,
+    eventBreakdown,
+    sessionFunnel,
+    featureAdoption,
+    platformData,
+    responseTypes,
+    onboardingRate,
+    todayStats: {
+      users: todayUsers.size,
+      events: todayEvents.length,
+      sessions: todaySessions.length,
+      messages: todayMessages.length,
+    },
+    totalUsers: allUsers.size,
+    newUsers: trulyNewUsers.size,
+    returningUsers: returningDeviceUsers.size,
+    avgProcessingMs,
+    totalSavings,
+    basketsGenerated,
+    listStats,
+    unclaimedEvents,
+    meta: mergeMeta(eventsResult, sessionsResult, messagesResult, authResult),
+  };
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addDays, min, subDays } from 'date-fns';
+import { supabase } from '../../../lib/supabase';
+import { fetchAll } from '../../../lib/fetchAll';
+import { parseDateWindow } from '../../../lib/timeRange';
+import { FEATURES, featureOf, isEvent } from '../../../lib/taxonomy';
+import { CHURN_ANCHOR, CHURN_DAYS, parsePathSteps, pathGraph } from '../../../lib/metrics';
+import type { AnalyticsEvent, PathDirection } from '../../../lib/metrics';
+import { PATH_GROUPINGS } from '../../../lib/api';
+import type { PathGrouping, PathMetrics } from '../../../lib/api';
+
+function featureLabel(eventName: string) {
+  const feature = featureOf(eventName);
+  return feature ? FEATURES[feature].label : 'Unclaimed';
+}
+
+// ?event=basket_results_displayed&direction=after&steps=3&group=feature
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const anchor = searchParams.get('event') ?? '';
+  if (anchor !== CHURN_ANCHOR && !isEvent(anchor)) {
+    return NextResponse.json({ error: `Unknown event: ${anchor}` }, { status: 400 });
+  }
+
+  try {
+    const period = parseDateWindow(searchParams);
+    const direction: PathDirection = anchor === CHURN_ANCHOR || searchParams.get('direction') === 'before' ? 'before' : 'after';
+    const steps = parsePathSteps(searchParams.get('steps'));
+    const group = PATH_GROUPINGS.includes(searchParams.get('group') as PathGrouping)
+      ? searchParams.get('group') as PathGrouping
+      : 'feature';
+
+    // Paths may run a week past either end of the period, which is also how long a user
+    // has to stay away to count as churned
+    const now = new Date();
+    const since = subDays(new Date(period.from), CHURN_DAYS).toISOString();
+    const until = min([now, addDays(new Date(period.to), CHURN_DAYS)]).toISOString();
+
+    const { data: events, ...meta } = await fetchAll<AnalyticsEvent>((from, to) => supabase
+      .from('analytics_events')
+      .select('received_at, firebase_uid, event_name')
+      .gte('received_at', since)
+      .lt('received_at', until)
+      .order('received_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to), { label: 'analytics_events' });
+
+    const graph = pathGraph(events, {
+      anchor,
+      direction,
+      steps,
+      from: period.from,
+      to: period.to,
+      churnedBefore: subDays(now, CHURN_DAYS).toISOString(),
+      labelOf: group === 'feature' ? featureLabel : eventName => eventName,
+    });
+
+    const body: PathMetrics = { anchor, direction, steps, group, graph, meta };
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error computing path metrics:', error);
+    return NextResponse.json({ error: 'Failed to compute path metrics' }, { status: 500 });
+  }
+}
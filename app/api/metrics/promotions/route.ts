@@ -0,0 +1,80 @@
+import { NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { supabase } from '../../../lib/supabase';
+import { fetchAll, mergeMeta } from '../../../lib/fetchAll';
+import {
+  EXPIRY_HORIZONS,
+  arrivalWeeks,
+  promotionExpiry,
+  quietStores,
+  weeklyArrivals,
+} from '../../../lib/metrics';
+import type { PromotionRow } from '../../../lib/metrics';
+import type { PromotionMetrics, StorePromotions } from '../../../lib/api';
+
+// Expiry looks ahead from now, so this ignores the page's time range
+export async function GET() {
+  try {
+    const now = new Date();
+    const weeks = arrivalWeeks(now);
+
+    const { data: stores, error } = await supabase
+      .from('stores')
+      .select('id, store_name, is_active')
+      .order('id');
+    if (error) throw error;
+
+    const activeResult = await fetchAll<Pick<PromotionRow, 'store_id' | 'valid_until'>>((from, to) => supabase
+      .from('promotions')
+      .select('store_id, valid_until')
+      .eq('is_active', true)
+      .order('id')
+      .range(from, to), { label: 'promotions' });
+
+    // Every promotion created since the first week shown, active or not
+    const arrivalsResult = await fetchAll<Pick<PromotionRow, 'store_id' | 'created_at'>>((from, to) => supabase
+      .from('promotions')
+      .select('store_id, created_at')
+      .gte('created_at', weeks[0].toISOString())
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to), { label: 'promotion arrivals' });
+
+    const activeCounts = new Map<number, number>();
+    activeResult.data.forEach(p => activeCounts.set(p.store_id, (activeCounts.get(p.store_id) || 0) + 1));
+    const expiry = promotionExpiry(activeResult.data, now);
+    const arrivals = weeklyArrivals(arrivalsResult.data, now);
+    const quiet = quietStores(arrivalsResult.data, now);
+
+    const rows: StorePromotions[] = stores
+      .filter(s => s.is_active || activeCounts.has(s.id) || arrivals.has(s.id))
+      .map(s => ({
+        storeId: s.id,
+        store: s.store_name,
+        active: activeCounts.get(s.id) || 0,
+        expiring: expiry.get(s.id)?.expiring ?? EXPIRY_HORIZONS.map(() => 0),
+        stale: expiry.get(s.id)?.stale ?? 0,
+        arrivals: arrivals.get(s.id) ?? weeks.map(() => 0),
+        quietSince: quiet.has(s.id) ? format(new Date(quiet.get(s.id)!), 'MMM dd') : null,
+      }))
+      .sort((a, b) => Number(b.quietSince !== null) - Number(a.quietSince !== null) || b.stale - a.stale || b.expiring[1] - a.expiring[1]);
+
+    const sum = (values: number[][]) => values.reduce((totals, row) => totals.map((t, i) => t + row[i]));
+
+    const body: PromotionMetrics = {
+      weeks: weeks.map(week => format(week, 'MMM dd')),
+      stores: rows,
+      totals: {
+        active: rows.reduce((total, s) => total + s.active, 0),
+        expiring: sum([EXPIRY_HORIZONS.map(() => 0), ...rows.map(s => s.expiring)]),
+        stale: rows.reduce((total, s) => total + s.stale, 0),
+        arrivals: sum([weeks.map(() => 0), ...rows.map(s => s.arrivals)]),
+      },
+      meta: mergeMeta(activeResult, arrivalsResult),
+    };
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error computing promotion metrics:', error);
+    return NextResponse.json({ error: 'Failed to compute promotion metrics' }, { status: 500 });
+  }
+}
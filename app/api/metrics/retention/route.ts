@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addDays, format, min, startOfWeek } from 'date-fns';
+import { supabase } from '../../../lib/supabase';
+import { fetchAll } from '../../../lib/fetchAll';
+import { firstSeenSince } from '../../../lib/firstSeen';
+import { parseDateWindow } from '../../../lib/timeRange';
+import {
+  RETENTION_DAYS,
+  RETENTION_MODES,
+  groupBySegment,
+  parseBreakdown,
+  retentionCurve,
+  segmentUsers,
+  topSegments,
+} from '../../../lib/metrics';
+import type { AnalyticsEvent, RetentionMode } from '../../../lib/metrics';
+import type { RetentionBreakdown, RetentionMetrics } from '../../../lib/api';
+
+// Enough weekly cohorts for a quarter without turning the chart into noise
+const MAX_COHORT_LINES = 8;
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const period = parseDateWindow(searchParams);
+    const mode = RETENTION_MODES.includes(searchParams.get('mode') as RetentionMode)
+      ? searchParams.get('mode') as RetentionMode
+      : 'classic';
+    const by: RetentionBreakdown = parseBreakdown(searchParams.get('by')) ?? 'cohort';
+
+    // Users who first showed up in the period, followed for as long as the longest curve point
+    const now = new Date();
+    const until = min([now, addDays(new Date(period.to), Math.max(...RETENTION_DAYS) + 1)]).toISOString();
+
+    const { data: events, ...meta } = await fetchAll<AnalyticsEvent>((from, to) => supabase
+      .from('analytics_events')
+      .select('received_at, firebase_uid, event_name, platform, props')
+      .gte('received_at', period.from)
+      .lt('received_at', until)
+      .order('received_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to), { label: 'analytics_events' });
+
+    const anchors = await firstSeenSince(events, period.from);
+    anchors.forEach((anchor, user) => {
+      if (anchor >= period.to) anchors.delete(user);
+    });
+
+    let groups: [string, Map<string, string>][];
+    if (by === 'cohort') {
+      const cohorts = new Map<string, Map<string, string>>();
+      anchors.forEach((anchor, user) => {
+        const week = startOfWeek(new Date(anchor), { weekStartsOn: 1 }).toISOString();
+        if (!cohorts.has(week)) cohorts.set(week, new Map());
+        cohorts.get(week)!.set(user, anchor);
+      });
+      groups = [...cohorts.entries()]
+        .sort((a, b) => a[0].localeCompare(b[0]))
+        .slice(-MAX_COHORT_LINES)
+        .map(([week, users]) => [`Week of ${format(new Date(week), 'MMM dd')}`, users]);
+    } else {
+      const segments = segmentUsers(events.filter(e => anchors.has(e.firebase_uid)), by);
+      groups = groupBySegment(topSegments(segments))
+        .map(([segment, users]) => [segment, new Map([...users].map(user => [user, anchors.get(user)!]))]);
+    }
+
+    const body: RetentionMetrics = {
+      mode,
+      by,
+      days: RETENTION_DAYS,
+      overall: { name: 'All users', users: anchors.size, points: retentionCurve(events, anchors, mode, now) },
+      series: groups.map(([name, users]) => ({
+        name,
+        users: users.size,
+        points: retentionCurve(events, users, mode, now),
+      })),
+      meta,
+    };
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error computing retention metrics:', error);
+    return NextResponse.json({ error: 'Failed to compute retention metrics' }, { status: 500 });
+  }
+}
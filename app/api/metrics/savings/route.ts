@@ -0,0 +1,184 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { supabase } from '../../../lib/supabase';
+import { fetchAll, mergeMeta } from '../../../lib/fetchAll';
+import type { FetchAllResult } from '../../../lib/fetchAll';
+import { parseDateWindow, previousWindow } from '../../../lib/timeRange';
+import type { DateWindow } from '../../../lib/timeRange';
+import {
+  AHA_CURVE_CENTS,
+  BASKET_SAVINGS_BUCKETS,
+  LIFETIME_SAVINGS_BUCKETS,
+  SAVINGS_PERCENTILES,
+  ahaUsers,
+  average,
+  histogram,
+  parseAhaThreshold,
+  percentile,
+  rate,
+  savingsBy,
+  savingsCents,
+  savingsEvents,
+  uniqueUsers,
+} from '../../../lib/metrics';
+import type { AnalyticsEvent } from '../../../lib/metrics';
+import type { SavingsMetrics, SavingsUser, StoreSavings, WithPrevious } from '../../../lib/api';
+
+const TOP_USERS = 20;
+
+// Users per lifetime query; their ids go in the query string
+const UID_CHUNK = 200;
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const period = parseDateWindow(searchParams);
+    const ahaThreshold = parseAhaThreshold(searchParams.get('aha'));
+    const body: WithPrevious<SavingsMetrics> = await computeSavings(period, ahaThreshold);
+    if (searchParams.get('compare') === '1') {
+      body.previous = await computeSavings(previousWindow(period), ahaThreshold);
+    }
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error computing savings metrics:', error);
+    return NextResponse.json({ error: 'Failed to compute savings metrics' }, { status: 500 });
+  }
+}
+
+async function computeSavings(period: DateWindow, ahaThreshold: number): Promise<SavingsMetrics> {
+  const basketsResult = await fetchAll<AnalyticsEvent>((from, to) => supabase
+    .from('analytics_events')
+    .select('received_at, firebase_uid, event_name, props')
+    .eq('event_name', 'basket_results_displayed')
+    .gte('received_at', period.from)
+    .lt('received_at', period.to)
+    .order('received_at', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to), { label: 'basket_results_displayed' });
+
+  const listsResult = await fetchAll<AnalyticsEvent>((from, to) => supabase
+    .from('analytics_events')
+    .select('received_at, firebase_uid, event_name, props')
+    .eq('event_name', 'shopping_list_saved')
+    .gte('received_at', period.from)
+    .lt('received_at', period.to)
+    .order('received_at', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to), { label: 'shopping_list_saved' });
+
+  const baskets = savingsEvents(basketsResult.data, 'shown');
+  const basketUsers = uniqueUsers(baskets);
+  const amounts = baskets.map(e => savingsCents(e) ?? 0);
+  const sorted = [...amounts].sort((a, b) => a - b);
+
+  // Earlier baskets of this period's users only, for lifetime totals, a batch of users at a time
+  const earlierResults: FetchAllResult<AnalyticsEvent>[] = [];
+  const users = [...basketUsers];
+  for (let i = 0; i < users.length; i += UID_CHUNK) {
+    const chunk = users.slice(i, i + UID_CHUNK);
+    earlierResults.push(await fetchAll<AnalyticsEvent>((from, to) => supabase
+      .from('analytics_events')
+      .select('received_at, firebase_uid, event_name, props')
+      .eq('event_name', 'basket_results_displayed')
+      .in('firebase_uid', chunk)
+      .lt('received_at', period.from)
+      .order('received_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to), { label: 'basket_results_displayed (earlier)' }));
+  }
+  const history = savingsEvents(
+    [...earlierResults.flatMap(r => r.data), ...basketsResult.data].sort((a, b) => a.received_at.localeCompare(b.received_at)),
+    'shown',
+  );
+
+  // === Lifetime per user ===
+  const lifetime = new Map<string, Omit<SavingsUser, 'user'>>();
+  history.forEach(e => {
+    if (!lifetime.has(e.firebase_uid)) {
+      lifetime.set(e.firebase_uid, { baskets: 0, lifetimeSavings: 0, bestBasket: 0, firstBasket: e.received_at });
+    }
+    const user = lifetime.get(e.firebase_uid)!;
+    const cents = savingsCents(e) ?? 0;
+    user.baskets++;
+    user.lifetimeSavings += cents;
+    user.bestBasket = Math.max(user.bestBasket, cents);
+  });
+  const lifetimeTotals = [...lifetime.values()].map(u => u.lifetimeSavings);
+
+  const topUsers = [...lifetime.entries()]
+    .map(([user, data]) => ({ user, ...data, firstBasket: format(new Date(data.firstBasket), 'MMM dd, yyyy') }))
+    .sort((a, b) => b.lifetimeSavings - a.lifetimeSavings)
+    .slice(0, TOP_USERS);
+
+  // === By store ===
+  const stores = new Map<string, { amounts: number[]; users: Set<string> }>();
+  baskets.forEach(e => {
+    const store = e.props?.store;
+    if (typeof store !== 'string' || store === '') return;
+    if (!stores.has(store)) {
+      stores.set(store, { amounts: [], users: new Set() });
+    }
+    const entry = stores.get(store)!;
+    entry.amounts.push(savingsCents(e) ?? 0);
+    entry.users.add(e.firebase_uid);
+  });
+  const byStore: StoreSavings[] = [...stores.entries()]
+    .map(([store, { amounts: storeAmounts, users }]) => ({
+      store,
+      baskets: storeAmounts.length,
+      users: users.size,
+      avgSavings: average(storeAmounts),
+      medianSavings: percentile([...storeAmounts].sort((a, b) => a - b), 0.5),
+      totalSavings: storeAmounts.reduce((sum, cents) => sum + cents, 0),
+    }))
+    .sort((a, b) => b.baskets - a.baskets);
+  const withStore = byStore.reduce((sum, s) => sum + s.baskets, 0);
+
+  // === Aha ===
+  const ahaCurve = AHA_CURVE_CENTS.map(threshold => {
+    const users = ahaUsers(baskets, threshold).size;
+    return { threshold, users, rate: rate(users, basketUsers.size) };
+  });
+  const reachedAha = ahaUsers(baskets, ahaThreshold).size;
+
+  // === Daily ===
+  const days = new Map<string, number[]>();
+  baskets.forEach(e => {
+    const day = e.received_at.split('T')[0];
+    if (!days.has(day)) days.set(day, []);
+    days.get(day)!.push(savingsCents(e) ?? 0);
+  });
+  const dailyData = [...days.entries()]
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([day, dayAmounts]) => ({
+      date: format(new Date(day), 'MMM dd'),
+      baskets: dayAmounts.length,
+      avgSavings: average(dayAmounts),
+    }))
+    .slice(-14);
+
+  return {
+    ahaThreshold,
+    distribution: histogram(amounts, BASKET_SAVINGS_BUCKETS),
+    percentiles: SAVINGS_PERCENTILES.map(p => ({ label: `p${Math.round(p * 100)}`, cents: percentile(sorted, p) })),
+    lifetimeDistribution: histogram(lifetimeTotals, LIFETIME_SAVINGS_BUCKETS),
+    topUsers,
+    byStore,
+    ahaCurve,
+    dailyData,
+    stats: {
+      baskets: baskets.length,
+      basketUsers: basketUsers.size,
+      totalSavings: savingsBy(baskets, 'shown'),
+      avgSavings: savingsBy(baskets, 'per_basket'),
+      medianSavings: percentile(sorted, 0.5),
+      ahaUsers: reachedAha,
+      ahaRate: rate(reachedAha, basketUsers.size),
+      avgLifetimeSavings: average(lifetimeTotals),
+      storeCoverage: rate(withStore, baskets.length),
+      savedLists: savingsEvents(listsResult.data, 'saved_lists').length,
+      savedListSavings: savingsBy(listsResult.data, 'saved_lists'),
+    },
+    meta: mergeMeta(basketsResult, listsResult, ...earlierResults),
+  };
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '../../../lib/supabase';
+import { fetchAll, mergeMeta } from '../../../lib/fetchAll';
+import { parseDateWindow, previousWindow } from '../../../lib/timeRange';
+import type { DateWindow } from '../../../lib/timeRange';
+import { diffSchema, inferSchema } from '../../../lib/metrics';
+import type { AnalyticsEvent } from '../../../lib/metrics';
+import { EVENTS, FEATURES, featureOf } from '../../../lib/taxonomy';
+import type { SchemaEvent, SchemaMetrics } from '../../../lib/api';
+
+function fetchEvents(period: DateWindow, label: string) {
+  return fetchAll<Pick<AnalyticsEvent, 'event_name' | 'props'>>((from, to) => supabase
+    .from('analytics_events')
+    .select('event_name, props')
+    .gte('received_at', period.from)
+    .lt('received_at', period.to)
+    .order('received_at', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to), { label });
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const period = parseDateWindow(request.nextUrl.searchParams);
+    const previousPeriod = previousWindow(period);
+
+    const current = await fetchEvents(period, 'analytics_events');
+    const previous = await fetchEvents(previousPeriod, 'analytics_events (previous period)');
+
+    const drift = diffSchema(inferSchema(current.data), inferSchema(previous.data));
+
+    const events: SchemaEvent[] = drift.map(e => {
+      const feature = featureOf(e.event);
+      const expectedProps = feature ? EVENTS[e.event].props ?? {} : {};
+      return {
+        ...e,
+        feature: feature ? FEATURES[feature].label : null,
+        props: e.props.map(p => {
+          const expected = expectedProps[p.prop] ?? null;
+          // Null values are tolerated; any other type than the declared one is not
+          const mismatch = expected !== null && p.types.some(type => type !== 'null' && type !== expected);
+          return { ...p, expected, mismatch };
+        }),
+      };
+    });
+
+    const body: SchemaMetrics = {
+      events,
+      summary: {
+        newEvents: events.filter(e => e.status === 'new').length,
+        removedEvents: events.filter(e => e.status === 'removed').length,
+        changedProps: events.reduce((sum, e) => sum + e.props.filter(p => p.status === 'changed').length, 0),
+        mismatches: events.reduce((sum, e) => sum + e.props.filter(p => p.mismatch).length, 0),
+        unclaimed: events.filter(e => e.count > 0 && !e.feature).length,
+      },
+      previousPeriod,
+      meta: mergeMeta(current, previous),
+    };
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error computing schema metrics:', error);
+    return NextResponse.json({ error: 'Failed to compute schema metrics' }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format } from 'date-fns';
+import { supabase } from '../../../lib/supabase';
+import { fetchAll } from '../../../lib/fetchAll';
+import { parseDateWindow, previousWindow } from '../../../lib/timeRange';
+import type { DateWindow } from '../../../lib/timeRange';
+import {
+  SESSIONS_PER_USER_BUCKETS,
+  SESSION_EVENT_BUCKETS,
+  SESSION_LENGTH_BUCKETS,
+  dailyActivity,
+  histogram,
+  parseSessionGap,
+  percentile,
+  rate,
+  sessionLengthMs,
+  sessionize,
+} from '../../../lib/metrics';
+import type { AnalyticsEvent } from '../../../lib/metrics';
+import type { SessionMetrics, WithPrevious } from '../../../lib/api';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const period = parseDateWindow(searchParams);
+    const gap = parseSessionGap(searchParams.get('gap'));
+    const body: WithPrevious<SessionMetrics> = await computeSessions(period, gap);
+    if (searchParams.get('compare') === '1') {
+      body.previous = await computeSessions(previousWindow(period), gap);
+    }
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error computing session metrics:', error);
+    return NextResponse.json({ error: 'Failed to compute session metrics' }, { status: 500 });
+  }
+}
+
+function oneDecimal(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+async function computeSessions(period: DateWindow, gap: number): Promise<SessionMetrics> {
+  const { data: events, ...meta } = await fetchAll<AnalyticsEvent>((from, to) => supabase
+    .from('analytics_events')
+    .select('received_at, firebase_uid, event_name')
+    .gte('received_at', period.from)
+    .lt('received_at', period.to)
+    .order('received_at', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to), { label: 'analytics_events' });
+
+  const sessions = sessionize(events, gap);
+
+  const perUser = new Map<string, number>();
+  sessions.forEach(s => perUser.set(s.user, (perUser.get(s.user) || 0) + 1));
+
+  // Sessions are counted on the day they started, users on every day they were active
+  const sessionsByDay = new Map<string, number>();
+  sessions.forEach(s => {
+    const day = s.start.split('T')[0];
+    sessionsByDay.set(day, (sessionsByDay.get(day) || 0) + 1);
+  });
+  const days = dailyActivity(events).map(day => ({
+    date: day.key,
+    sessions: sessionsByDay.get(day.key) || 0,
+    users: day.users,
+  }));
+  const userDays = days.reduce((sum, day) => sum + day.users, 0);
+
+  const dailyData = days
+    .map(day => ({
+      date: format(new Date(day.date), 'MMM dd'),
+      sessions: day.sessions,
+      users: day.users,
+      perDau: day.users > 0 ? oneDecimal(day.sessions / day.users) : 0,
+    }))
+    .slice(-14);
+
+  const lengths = sessions.map(sessionLengthMs).sort((a, b) => a - b);
+
+  return {
+    gap,
+    lengthDistribution: histogram(lengths, SESSION_LENGTH_BUCKETS),
+    eventsDistribution: histogram(sessions.map(s => s.events), SESSION_EVENT_BUCKETS),
+    perUserDistribution: histogram([...perUser.values()], SESSIONS_PER_USER_BUCKETS),
+    dailyData,
+    stats: {
+      sessions: sessions.length,
+      users: perUser.size,
+      sessionsPerUser: perUser.size > 0 ? oneDecimal(sessions.length / perUser.size) : 0,
+      sessionsPerDau: userDays > 0 ? oneDecimal(sessions.length / userDays) : 0,
+      medianLengthMs: percentile(lengths, 0.5),
+      avgEvents: sessions.length > 0 ? oneDecimal(events.length / sessions.length) : 0,
+      launchedRate: rate(sessions.filter(s => s.launched).length, sessions.length),
+    },
+    meta,
+  };
+}
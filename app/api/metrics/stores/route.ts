@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format, parseISO } from 'date-fns';
+import { lastDay, parseDateWindow } from '../../../lib/timeRange';
+import { catalogueSummary, liveStoreCounts } from '../../../lib/catalogue';
+import { readStoreSnapshots, recordStoreSnapshot } from '../../../lib/storeSnapshots';
+import { catalogueDrops, emptyStores } from '../../../lib/metrics';
+import type { StoreMetrics, StoreRow } from '../../../lib/api';
+
+export async function GET(request: NextRequest) {
+  try {
+    const period = parseDateWindow(request.nextUrl.searchParams);
+    const stores = await liveStoreCounts();
+    const catalogue = await catalogueSummary();
+
+    const snapshots = await readStoreSnapshots();
+
+    const firstDay = format(new Date(period.from), 'yyyy-MM-dd');
+    const inRange = snapshots.filter(s => s.day >= firstDay && s.day <= lastDay(period));
+    const drops = catalogueDrops(inRange);
+
+    const rows: StoreRow[] = stores
+      .map(store => {
+        const history = inRange.flatMap(snapshot => {
+          const count = snapshot.stores.find(s => s.id === store.id);
+          return count ? [{ date: format(parseISO(snapshot.day), 'MMM dd'), products: count.products, promos: count.promos }] : [];
+        });
+        const start = inRange[0]?.stores.find(s => s.id === store.id);
+        return {
+          ...store,
+          startProducts: start?.products ?? null,
+          startPromos: start?.promos ?? null,
+          history,
+          drops: drops.filter(d => d.storeId === store.id).length,
+        };
+      })
+      .sort((a, b) => b.drops - a.drops || b.products - a.products);
+
+    const totals = inRange.map(snapshot => ({
+      date: format(parseISO(snapshot.day), 'MMM dd'),
+      stores: snapshot.stores.filter(s => s.active).length,
+      products: snapshot.stores.reduce((sum, s) => sum + s.products, 0),
+      promos: snapshot.stores.reduce((sum, s) => sum + s.promos, 0),
+    }));
+
+    const body: StoreMetrics = {
+      stores: rows,
+      totals,
+      drops,
+      empty: emptyStores(stores),
+      snapshots: inRange.length,
+      trackedSince: snapshots[0]?.day ?? null,
+      catalogue,
+    };
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error computing store metrics:', error);
+    return NextResponse.json({ error: 'Failed to compute store metrics' }, { status: 500 });
+  }
+}
+
+// Records today's counts. Run once a day by whoever maintains the catalogue; running it again the
+// same day replaces that day's recording.
+export async function POST() {
+  try {
+    const snapshot = await recordStoreSnapshot(await liveStoreCounts());
+    return NextResponse.json({ day: snapshot.day, at: snapshot.at }, { status: 201 });
+  } catch (error) {
+    console.error('Error recording store counts:', error);
+    return NextResponse.json({ error: 'Failed to record store counts' }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabase } from '../../../../lib/supabase';
+import { fetchAll, mergeMeta } from '../../../../lib/fetchAll';
+import type { FetchMeta } from '../../../../lib/fetchAll';
+import { savingsBy, savingsEvents } from '../../../../lib/metrics';
+import type { AnalyticsEvent, ChatMessage, ChatSession } from '../../../../lib/metrics';
+import type { TimelineEntry, UserMetrics } from '../../../../lib/api';
+
+const SESSION_CHUNK = 100;
+
+// A user's whole history rather than a time range: the page is for following one person around.
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ uid: string }> }) {
+  const { uid } = await params;
+
+  try {
+    const { data: events, ...eventsMeta } = await fetchAll<AnalyticsEvent>((from, to) => supabase
+      .from('analytics_events')
+      .select('received_at, firebase_uid, event_name, platform, props')
+      .eq('firebase_uid', uid)
+      .order('received_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to), { label: 'analytics_events' });
+
+    const { data: sessions, ...sessionsMeta } = await fetchAll<ChatSession>((from, to) => supabase
+      .from('chat_sessions')
+      .select('id, created_at, state')
+      .eq('user_id', uid)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, to), { label: 'chat_sessions' });
+
+    // Session ids go in the query string, so they are sent a batch at a time
+    const messages: ChatMessage[] = [];
+    const messagesMetas: FetchMeta[] = [];
+    for (let i = 0; i < sessions.length; i += SESSION_CHUNK) {
+      const ids = sessions.slice(i, i + SESSION_CHUNK).map(s => s.id);
+      const { data, ...meta } = await fetchAll<ChatMessage>((from, to) => supabase
+        .from('chat_messages')
+        .select('session_id, created_at, role, response_type, processing_ms, scenario')
+        .in('session_id', ids)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(from, to), { label: 'chat_messages' });
+      messages.push(...data);
+      messagesMetas.push(meta);
+    }
+
+    const timeline: TimelineEntry[] = [
+      ...events.map(e => ({
+        at: e.received_at,
+        kind: 'event' as const,
+        name: e.event_name,
+        detail: e.platform ?? null,
+        props: e.props ?? null,
+      })),
+      ...sessions.map(s => ({
+        at: s.created_at,
+        kind: 'chat_session' as const,
+        name: 'chat session started',
+        detail: s.state,
+        props: null,
+        session: s.id,
+      })),
+      ...messages.map(m => ({
+        at: m.created_at,
+        kind: 'chat_message' as const,
+        name: `${m.role} message`,
+        detail: [m.response_type, m.scenario, m.processing_ms !== null ? `${m.processing_ms}ms` : null].filter(Boolean).join(' · ') || null,
+        props: null,
+        session: m.session_id,
+      })),
+    ].sort((a, b) => a.at.localeCompare(b.at));
+
+    const baskets = savingsEvents(events, 'shown');
+    const totalSavings = savingsBy(events, 'shown');
+
+    const body: UserMetrics = {
+      uid,
+      timeline,
+      stats: {
+        firstSeen: timeline[0]?.at ?? null,
+        lastSeen: timeline[timeline.length - 1]?.at ?? null,
+        events: events.length,
+        activeDays: new Set(events.map(e => e.received_at.slice(0, 10))).size,
+        baskets: baskets.length,
+        totalSavings,
+        chatSessions: sessions.length,
+        chatMessages: messages.length,
+      },
+      platforms: [...new Set(events.map(e => e.platform).filter((p): p is string => !!p))],
+      meta: mergeMeta(eventsMeta, sessionsMeta, ...messagesMetas),
+    };
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error computing user metrics:', error);
+    return NextResponse.json({ error: 'Failed to compute user metrics' }, { status: 500 });
+  }
+}
@@ -0,0 +1,223 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { format, parseISO, subDays } from 'date-fns';
+import { supabase } from '../../../lib/supabase';
+import { fetchAll, mergeMeta } from '../../../lib/fetchAll';
+import { lastDay, parseDateWindow, previousWindow } from '../../../lib/timeRange';
+import type { DateWindow } from '../../../lib/timeRange';
+import {
+  activeUsersBetween,
+  ahaUsers,
+  average,
+  completionRate,
+  dailyActivity,
+  parseAhaThreshold,
+  rate,
+  retentionRate,
+  savingsBy,
+  savingsCents,
+  savingsEvents,
+  uniqueUsers,
+  usersWithEvent,
+  weeklyActivity,
+} from '../../../lib/metrics';
+import type { AnalyticsEvent, ChatMessage } from '../../../lib/metrics';
+import type { UserSegment, UsersMetrics, WithPrevious } from '../../../lib/api';
+
+export async function GET(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const period = parseDateWindow(searchParams);
+    const ahaThreshold = parseAhaThreshold(searchParams.get('aha'));
+    const body: WithPrevious<UsersMetrics> = await computeUsers(period, ahaThreshold);
+    if (searchParams.get('compare') === '1') {
+      body.previous = await computeUsers(previousWindow(period), ahaThreshold);
+    }
+    return NextResponse.json(body);
+  } catch (error) {
+    console.error('Error computing user metrics:', error);
+    return NextResponse.json({ error: 'Failed to compute user metrics' }, { status: 500 });
+  }
+}
+
+async function computeUsers(period: DateWindow, ahaThreshold: number): Promise<UsersMetrics> {
+  const end = new Date(period.to);
+  const sevenDaysAgo = subDays(end, 7).toISOString();
+  const today = lastDay(period);
+
+  // Fetch all events
+  const { data: events, ...meta } = await fetchAll<AnalyticsEvent>((from, to) => supabase
+    .from('analytics_events')
+    .select('received_at, firebase_uid, event_name, props')
+    .gte('received_at', period.from)
+    .lt('received_at', period.to)
+    .order('received_at', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to), { label: 'analytics_events' });
+
+  // Fetch chat messages for processing times
+  const messagesResult = await fetchAll<Pick<ChatMessage, 'processing_ms'>>((from, to) => supabase
+    .from('chat_messages')
+    .select('processing_ms')
+    .not('processing_ms', 'is', null)
+    .not('response_type', 'is', null)
+    .gte('created_at', period.from)
+    .lt('created_at', period.to)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .range(from, to), { label: 'chat_messages' });
+
+  // === DAU / WAU / MAU ===
+  const dau = uniqueUsers(events.filter(e => e.received_at.startsWith(today))).size;
+  const wau = activeUsersBetween(events, sevenDaysAgo).size;
+  const mau = uniqueUsers(events).size;
+  const dauWauRatio = rate(dau, wau);
+
+  // === Daily Users Chart ===
+  const dailyUsers = dailyActivity(events)
+    .map(day => ({
+      date: format(new Date(day.key), 'MMM dd'),
+      dau: day.users,
+      events: day.events,
+    }))
+    .slice(-14);
+
+  // Basket results with retried uploads removed
+  const basketEvents = savingsEvents(events, 'shown');
+
+  // === Weekly Users Chart ===
+  const weeklyBaskets = new Map(
+    weeklyActivity(basketEvents).map(week => [week.key, week.events])
+  );
+  const weeklyUsers = weeklyActivity(events)
+    .map(week => {
+      const baskets = weeklyBaskets.get(week.key) || 0;
+      return {
+        week: format(parseISO(week.key), 'MMM dd'),
+        wau: week.users,
+        baskets,
+        basketsPerUser: week.users > 0 ? Math.round((baskets / week.users) * 10) / 10 : 0,
+      };
+    })
+    .slice(-6);
+
+  // === Baskets & Savings ===
+  const totalBaskets = basketEvents.length;
+  const avgBasketsPerUser = mau > 0 ? Math.round((totalBaskets / mau) * 10) / 10 : 0;
+  const avgSavingsPerBasket = savingsBy(basketEvents, 'per_basket');
+
+  // === Action Rate (swaps, store selections) ===
+  const actionEvents = events.filter(e =>
+    e.event_name === 'product_swapped' ||
+    e.event_name === 'comparison_started' ||
+    e.event_name === 'shopping_list_saved'
+  );
+  const actionRate = rate(uniqueUsers(actionEvents).size, uniqueUsers(basketEvents).size);
+
+  // === Retention (W1) ===
+  // Users from 2 weeks ago who came back last week
+  const twoWeeksAgo = subDays(end, 14).toISOString();
+  const oneWeekAgo = subDays(end, 7).toISOString();
+
+  const w1Retention = retentionRate(events, activeUsersBetween(events, twoWeeksAgo, oneWeekAgo), oneWeekAgo);
+
+  // === User Segments by Activity Level ===
+  const userActivity = new Map<string, { events: number; savings: number }>();
+  events.forEach(e => {
+    if (!userActivity.has(e.firebase_uid)) {
+      userActivity.set(e.firebase_uid, { events: 0, savings: 0 });
+    }
+    userActivity.get(e.firebase_uid)!.events++;
+  });
+  // Savings shown, per user
+  basketEvents.forEach(e => {
+    userActivity.get(e.firebase_uid)!.savings += savingsCents(e) ?? 0;
+  });
+
+  const userSegments: UserSegment[] = [
+    { segment: 'Power (50+ events)', users: 0, avgEvents: 0, avgSavings: 0 },
+    { segment: 'Active (20-49)', users: 0, avgEvents: 0, avgSavings: 0 },
+    { segment: 'Casual (5-19)', users: 0, avgEvents: 0, avgSavings: 0 },
+    { segment: 'New (1-4)', users: 0, avgEvents: 0, avgSavings: 0 },
+  ];
+
+  userActivity.forEach((data) => {
+    let segment: number;
+    if (data.events >= 50) segment = 0;
+    else if (data.events >= 20) segment = 1;
+    else if (data.events >= 5) segment = 2;
+    else segment = 3;
+
+    userSegments[segment].users++;
+    userSegments[segment].avgEvents += data.events;
+    userSegments[segment].avgSavings += data.savings;
+  });
+
+  userSegments.forEach(s => {
+    if (s.users > 0) {
+      s.avgEvents = Math.round(s.avgEvents / s.users);
+      s.avgSavings = Math.round(s.avgSavings / s.users);
+    }
+  });
+
+  // === Activation Metrics ===
+  const onboardingCompletionRate = completionRate(events, 'onboarding_started', 'onboarding_completed');
+
+  const firstBasketUsers = usersWithEvent(events, 'basket_results_displayed').size;
+  const firstBasketRate = rate(firstBasketUsers, mau);
+
+  // "Aha" event: basket with at least ahaThreshold cents of savings
+  const ahaEventRate = rate(ahaUsers(basketEvents, ahaThreshold).size, firstBasketUsers);
+
+  // === Acquisition Metrics (True New vs Returning) ===
+  const trulyNewUsers = new Set<string>();
+  const returningDeviceUsers = new Set<string>();
+
+  events.filter(e => e.event_name === 'auth_anonymous_selected').forEach(e => {
+    if (e.props?.is_new_user === true) {
+      trulyNewUsers.add(e.firebase_uid);
+    } else if (e.props?.is_returning_device === true) {
+      returningDeviceUsers.add(e.firebase_uid);
+    }
+  });
+
+  // New user conversion: % of truly new users who generate a basket
+  const newUsersWithBasket = basketEvents.filter(e => trulyNewUsers.has(e.firebase_uid));
+  const newUserConversionRate = rate(uniqueUsers(newUsersWithBasket).size, trulyNewUsers.size);
+
+  // === Performance ===
+  const avgProcessingMs = average(messagesResult.data.map(m => m.processing_ms!));
+
+  // Basket success rate (baskets shown / baskets attempted)
+  const basketAttempts = events.filter(e => e.event_name === 'comparison_started').length;
+  const basketSuccessRate = rate(basketEvents.length, basketAttempts);
+
+  return {
+    dailyUsers,
+    weeklyUsers,
+    userSegments,
+    stats: {
+      dau,
+      wau,
+      mau,
+      dauWauRatio,
+      avgBasketsPerUser,
+      avgSavingsPerBasket,
+      actionRate,
+      w1Retention,
+      avgProcessingMs,
+      basketSuccessRate,
+    },
+    activationMetrics: {
+      onboardingCompletionRate,
+      firstBasketRate,
+      ahaEventRate,
+      ahaThreshold,
+    },
+    acquisitionMetrics: {
+      trulyNewUsers: trulyNewUsers.size,
+      returningDeviceUsers: returningDeviceUsers.size,
+      newUserConversionRate,
+    },
+    meta: mergeMeta(meta, messagesResult),
+  };
+}
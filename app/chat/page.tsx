@@ -0,0 +1,267 @@
+'use client';
+
+import { use, useEffect, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import Link from 'next/link';
+import ConversionWindowPicker, { CONVERSION_WINDOW_LABELS } from '../components/ConversionWindowPicker';
+import Histogram from '../components/Histogram';
+import PartialDataNotice from '../components/PartialDataNotice';
+import StatCard from '../components/StatCard';
+import TimeRangePicker from '../components/TimeRangePicker';
+import UserLink from '../components/UserLink';
+import { alignPrevious, fetchMetrics } from '../lib/api';
+import { parseConversionWindow } from '../lib/metrics';
+import { parseSelection, selectionParams, selectionWindow } from '../lib/timeRange';
+import type { ChatMetrics, WithPrevious } from '../lib/api';
+import type { RangeSelection } from '../lib/timeRange';
+import { toSearchParams, useQuerySync } from '../lib/urlState';
+import type { SearchParams } from '../lib/urlState';
+
+type DailyChat = ChatMetrics['dailyData'][number];
+type DailyPoint = DailyChat & { previous?: DailyChat };
+
+const COLORS = ['#2563EB', '#059669', '#D97706', '#DC2626', '#7C3AED', '#DB2777', '#0891B2', '#16A34A'];
+
+const TOOLTIP_STYLE = { backgroundColor: '#fff', border: '1px solid #E5E5EA', borderRadius: 12, fontWeight: 500 };
+
+export default function ChatPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const query = toSearchParams(use(searchParams));
+  const [conversionWindow, setConversionWindow] = useState(() => parseConversionWindow(query.get('window')));
+  const [selection, setSelection] = useState<RangeSelection>(() => parseSelection(query));
+  const [chat, setChat] = useState<WithPrevious<ChatMetrics> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const rangeQuery = new URLSearchParams(selectionParams(selection)).toString();
+
+  useQuerySync({ ...selectionParams(selection), window: conversionWindow });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+        const data = await fetchMetrics<WithPrevious<ChatMetrics>>('chat', {
+          ...selectionParams(selection),
+          window: conversionWindow,
+        }, controller.signal);
+        setChat(data);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching data:', error);
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    fetchData();
+    return () => controller.abort();
+  }, [selection, conversionWindow]);
+
+  const stats = chat?.stats;
+  const previous = chat?.previous?.stats;
+
+  return (
+    <div className="min-h-screen bg-[#F5F5F7] text-gray-900">
+      {/* Navigation */}
+      <nav className="bg-white/80 backdrop-blur-xl border-b border-gray-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-3 sm:py-4 flex items-center gap-3">
+          <Link href={`/?${rangeQuery}`} className="text-gray-500 hover:text-gray-900">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </Link>
+          <h1 className="text-lg sm:text-xl font-semibold">Chat Assistant</h1>
+        </div>
+      </nav>
+
+      <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-4 sm:py-8">
+        <TimeRangePicker value={selection} onChange={setSelection} loading={loading} />
+
+        <PartialDataNotice meta={chat?.meta ?? null} />
+
+        <div className="mb-4 sm:mb-6">
+          <ConversionWindowPicker value={conversionWindow} onChange={setConversionWindow} />
+        </div>
+
+        {stats && (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2 sm:gap-4 mb-4 sm:mb-8">
+            <StatCard label="Sessions" value={stats.sessions.toLocaleString()} color="text-blue-700" subtitle={`${stats.messages.toLocaleString()} messages`} comparison={{ current: stats.sessions, previous: previous?.sessions }} />
+            <StatCard label="Messages/Session" value={stats.avgMessages} color="text-violet-700" subtitle={`median ${stats.medianMessages}`} comparison={{ current: stats.avgMessages, previous: previous?.avgMessages }} />
+            <StatCard label="Unanswered" value={`${stats.unansweredRate}%`} color="text-red-600" subtitle={`${stats.unanswered.toLocaleString()} without an assistant reply`} comparison={{ current: stats.unansweredRate, previous: previous?.unansweredRate, points: true, lowerIsBetter: true }} />
+            <StatCard label="Led to Basket" value={`${stats.conversionRate}%`} color="text-emerald-700" subtitle={`within ${CONVERSION_WINDOW_LABELS[conversionWindow]}`} comparison={{ current: stats.conversionRate, previous: previous?.conversionRate, points: true }} />
+            <StatCard label="Avg Response" value={`${stats.avgProcessingMs}ms`} color="text-cyan-700" comparison={{ current: stats.avgProcessingMs, previous: previous?.avgProcessingMs, lowerIsBetter: true }} />
+          </div>
+        )}
+
+        {chat && (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-6 mb-3 sm:mb-6">
+              <Card title="Messages per Session">
+                <Histogram data={chat.messagesDistribution} color="#7C3AED" name="Sessions" />
+              </Card>
+
+              <Card title="Daily Sessions">
+                <div className="h-48 sm:h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={alignPrevious(chat.dailyData, chat.previous?.dailyData, selectionWindow(selection))} margin={{ top: 5, right: 5, bottom: 5, left: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#E5E5EA" />
+                      <XAxis dataKey="date" stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} />
+                      <YAxis stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} allowDecimals={false} />
+                      <Tooltip contentStyle={TOOLTIP_STYLE} />
+                      <Legend wrapperStyle={{ fontSize: 12 }} />
+                      <Line type="monotone" dataKey="sessions" stroke="#2563EB" strokeWidth={2} dot={false} name="Sessions" />
+                      <Line type="monotone" dataKey="converted" stroke="#059669" strokeWidth={2} dot={false} name="Led to basket" />
+                      <Line type="monotone" dataKey="unanswered" stroke="#DC2626" strokeWidth={2} dot={false} name="Unanswered" />
+                      {chat.previous && <Line type="monotone" dataKey={(d: DailyPoint) => d.previous?.sessions} stroke="#9CA3AF" strokeDasharray="4 4" strokeWidth={2} dot={false} name="Previous period" />}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </Card>
+            </div>
+
+            <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm mb-3 sm:mb-6">
+              <h2 className="text-base sm:text-lg font-semibold mb-2 sm:mb-4 text-gray-900">Response Types by Scenario</h2>
+              {chat.scenarioMix.length > 0 ? (
+                <>
+                  <div style={{ height: Math.max(160, chat.scenarioMix.length * 36) }}>
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={chat.scenarioMix.map(row => ({ scenario: row.scenario, ...row.types }))} layout="vertical" margin={{ top: 5, right: 20, bottom: 5, left: 5 }}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#E5E5EA" />
+                        <XAxis type="number" stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} allowDecimals={false} />
+                        <YAxis dataKey="scenario" type="category" stroke="#374151" fontSize={10} fontWeight={500} width={120} tickLine={false} />
+                        <Tooltip contentStyle={TOOLTIP_STYLE} />
+                        <Legend wrapperStyle={{ fontSize: 12 }} />
+                        {chat.responseTypes.map((type, index) => (
+                          <Bar key={type} dataKey={type} stackId="types" fill={COLORS[index % COLORS.length]} name={type.replace(/_/g, ' ')} />
+                        ))}
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <div className="overflow-x-auto mt-4">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-gray-500 border-b border-gray-200">
+                          <th className="text-left py-3 font-medium">Scenario</th>
+                          {chat.responseTypes.map(type => (
+                            <th key={type} className="text-right py-3 font-medium">{type.replace(/_/g, ' ')}</th>
+                          ))}
+                          <th className="text-right py-3 font-medium">Total</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {chat.scenarioMix.map(row => (
+                          <tr key={row.scenario} className="border-b border-gray-100">
+                            <td className="py-3 font-medium">{row.scenario}</td>
+                            {chat.responseTypes.map(type => (
+                              <td key={type} className="py-3 text-right">
+                                {row.types[type] ? `${Math.round((row.types[type] / row.total) * 100)}%` : '–'}
+                              </td>
+                            ))}
+                            <td className="py-3 text-right font-medium">{row.total.toLocaleString()}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                </>
+              ) : (
+                <p className="text-gray-400 text-sm">No assistant messages in this range</p>
+              )}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-6">
+              <Card title="State of Next Session">
+                <p className="text-xs text-gray-400 mb-3">
+                  How a user&apos;s next session ended, given how their previous one ended. Sessions only keep their latest state, so changes within a session are not shown.
+                </p>
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {chat.stateCounts.map(s => (
+                    <span key={s.state} className="px-2 py-1 rounded-md bg-gray-50 text-xs">
+                      <span className="text-gray-500">{s.state}</span>{' '}
+                      <span className="font-semibold text-gray-900">{s.count.toLocaleString()}</span>
+                    </span>
+                  ))}
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-gray-500 border-b border-gray-200">
+                        <th className="text-left py-3 font-medium">Session ended</th>
+                        <th className="text-left py-3 font-medium">Next session ended</th>
+                        <th className="text-right py-3 font-medium">Sessions</th>
+                        <th className="text-right py-3 font-medium">Share</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {chat.nextSessionStates.slice(0, 15).map(t => (
+                        <tr key={`${t.from}-${t.to}`} className="border-b border-gray-100">
+                          <td className="py-3 text-gray-600">{t.from}</td>
+                          <td className="py-3 font-medium">{t.to}</td>
+                          <td className="py-3 text-right">{t.count.toLocaleString()}</td>
+                          <td className="py-3 text-right text-gray-500">{t.share}%</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </Card>
+
+              <Card title="Sessions Without a Reply">
+                {chat.unanswered.length > 0 ? (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-gray-500 border-b border-gray-200">
+                          <th className="text-left py-3 font-medium">User</th>
+                          <th className="text-left py-3 font-medium">Started</th>
+                          <th className="text-left py-3 font-medium">State</th>
+                          <th className="text-right py-3 font-medium">User msgs</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {chat.unanswered.map(s => (
+                          <tr key={s.id} className="border-b border-gray-100">
+                            <td className="py-3">{s.user ? <UserLink uid={s.user} query={rangeQuery} /> : '–'}</td>
+                            <td className="py-3 text-gray-500">{s.createdAt}</td>
+                            <td className="py-3">{s.state}</td>
+                            <td className="py-3 text-right">{s.userMessages}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {stats && stats.unanswered > chat.unanswered.length && (
+                      <p className="text-xs text-gray-400 mt-2">
+                        Showing the {chat.unanswered.length} most recent of {stats.unanswered.toLocaleString()} sessions.
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                  <p className="text-gray-400 text-sm">Every session got an assistant reply</p>
+                )}
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Card({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm">
+      <h2 className="text-base sm:text-lg font-semibold mb-2 sm:mb-4 text-gray-900">{title}</h2>
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import type { Session } from '../lib/auth';
+
+export default function AccountMenu() {
+  const [session, setSession] = useState<Session | null>(null);
+
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then((response) => (response.ok ? response.json() : null))
+      .then(setSession)
+      .catch((error) => console.error('Error fetching session:', error));
+  }, []);
+
+  const signOut = async () => {
+    await fetch('/api/auth/sign-out', { method: 'POST' });
+    window.location.href = '/sign-in';
+  };
+
+  if (!session) return null;
+
+  return (
+    <div className="flex items-center gap-3 sm:gap-4">
+      {session.role === 'admin' && (
+        <>
+          <Link href="/admin/accounts" className="text-xs sm:text-sm font-medium text-gray-500 hover:text-gray-900 transition">Accounts</Link>
+          <Link href="/admin/audit" className="text-xs sm:text-sm font-medium text-gray-500 hover:text-gray-900 transition">Audit log</Link>
+        </>
+      )}
+      <span className="text-[10px] sm:text-xs text-gray-400 hidden sm:inline" title={`${session.email} (${session.role})`}>{session.name}</span>
+      <button onClick={signOut} className="text-xs sm:text-sm font-medium text-gray-500 hover:text-gray-900 transition">Sign out</button>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+'use client';
+
+import { BREAKDOWN_DIMENSIONS } from '../lib/metrics';
+import type { BreakdownDimension } from '../lib/metrics';
+
+const DIMENSION_LABELS: Record<string, string> = {
+  platform: 'Platform',
+  language: 'Language',
+  app_version: 'App version',
+};
+
+const PROP_PREFIX = 'prop:';
+
+// `value` is a breakdown dimension, one of `extra`'s values, or '' for none.
+export default function BreakdownPicker({ value, onChange, extra = [{ value: '', label: 'No breakdown' }] }: {
+  value: string;
+  onChange: (value: string) => void;
+  extra?: { value: string; label: string }[];
+}) {
+  const isProp = value.startsWith(PROP_PREFIX);
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs sm:text-sm text-gray-500">Break down by</span>
+      <select
+        value={isProp ? PROP_PREFIX : value}
+        onChange={e => onChange(e.target.value)}
+        className="px-3 py-1.5 text-xs sm:text-sm font-medium rounded-lg bg-gray-100 text-gray-700"
+      >
+        {extra.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+        {BREAKDOWN_DIMENSIONS.map((dimension: BreakdownDimension) => (
+          <option key={dimension} value={dimension}>{DIMENSION_LABELS[dimension]}</option>
+        ))}
+        <option value={PROP_PREFIX}>Event prop…</option>
+      </select>
+      {isProp && (
+        <input
+          value={value.slice(PROP_PREFIX.length)}
+          onChange={e => onChange(PROP_PREFIX + e.target.value.trim())}
+          placeholder="prop name"
+          className="w-32 px-2 py-1.5 text-xs sm:text-sm rounded-lg bg-gray-100 font-mono"
+        />
+      )}
+    </div>
+  );
+}
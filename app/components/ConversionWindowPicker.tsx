@@ -0,0 +1,34 @@
+'use client';
+
+import { CONVERSION_WINDOWS } from '../lib/metrics';
+import type { ConversionWindow } from '../lib/metrics';
+
+export const CONVERSION_WINDOW_LABELS: Record<ConversionWindow, string> = {
+  '1h': '1 hour',
+  '1d': '1 day',
+  '7d': '7 days',
+  '30d': '30 days',
+};
+
+export default function ConversionWindowPicker({ value, onChange }: { value: ConversionWindow; onChange: (value: ConversionWindow) => void }) {
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs sm:text-sm text-gray-500">Convert within</span>
+      <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+        {CONVERSION_WINDOWS.map(window => (
+          <button
+            key={window}
+            onClick={() => onChange(window)}
+            className={`px-3 py-1.5 text-xs sm:text-sm font-medium rounded-md transition ${
+              value === window
+                ? 'bg-white text-gray-900 shadow-sm'
+                : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {CONVERSION_WINDOW_LABELS[window]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
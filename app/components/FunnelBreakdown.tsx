@@ -0,0 +1,85 @@
+'use client';
+
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import type { FunnelStep } from '../lib/api';
+import type { FunnelSegment } from '../lib/metrics';
+
+const COLORS = ['#2563EB', '#059669', '#D97706', '#DC2626', '#7C3AED', '#DB2777'];
+
+// Share of each segment's entrants still in the funnel at every step, one line per segment.
+export default function FunnelBreakdown({ steps, segments }: { steps: FunnelStep[]; segments: FunnelSegment[] }) {
+  if (segments.length === 0) {
+    return <p className="text-gray-400 text-sm">No segments in this range</p>;
+  }
+
+  const data = steps.map((step, index) => Object.fromEntries([
+    ['step', step.shortName],
+    ...segments.map(s => [s.segment, s.conversion[index]]),
+  ]));
+
+  return (
+    <>
+      <div className="h-56 sm:h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={data} margin={{ top: 5, right: 5, bottom: 5, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#E5E5EA" />
+            <XAxis dataKey="step" stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} axisLine={{ stroke: '#D1D5DB' }} />
+            <YAxis stroke="#374151" fontSize={11} fontWeight={500} domain={[0, 100]} unit="%" tickLine={false} axisLine={{ stroke: '#D1D5DB' }} />
+            <Tooltip
+              contentStyle={{ backgroundColor: '#fff', border: '1px solid #E5E5EA', borderRadius: 12, fontWeight: 500 }}
+              formatter={(value) => `${value}%`}
+            />
+            <Legend wrapperStyle={{ fontSize: 12, fontWeight: 500 }} />
+            {segments.map((s, i) => (
+              <Line
+                key={s.segment}
+                type="monotone"
+                dataKey={s.segment}
+                stroke={COLORS[i % COLORS.length]}
+                strokeWidth={2}
+                dot={{ r: 3 }}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <div className="overflow-x-auto mt-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-gray-500 border-b border-gray-200">
+              <th className="text-left py-3 font-medium">Segment</th>
+              {steps.map(step => (
+                <th key={step.name} className="text-right py-3 font-medium whitespace-nowrap">{step.shortName}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {segments.map((s, i) => (
+              <tr key={s.segment} className="border-b border-gray-100">
+                <td className="py-3 flex items-center gap-2">
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: COLORS[i % COLORS.length] }} />
+                  {s.segment}
+                </td>
+                {s.users.map((users, index) => (
+                  <td key={index} className="text-right py-3 text-gray-600">
+                    {users}
+                    {index > 0 && <span className="text-xs text-gray-400"> ({s.conversion[index]}%)</span>}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </>
+  );
+}
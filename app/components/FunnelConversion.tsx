@@ -0,0 +1,44 @@
+import { formatDuration } from '../lib/metrics';
+import type { FunnelStep } from '../lib/api';
+
+// One card per step transition: conversion, users lost and median time to convert.
+export default function FunnelConversion({ steps }: { steps: FunnelStep[] }) {
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-2 sm:gap-4">
+      {steps.slice(1).map((step, index) => {
+        const prevStep = steps[index];
+        const dropoffPct = prevStep.users > 0
+          ? Math.round((step.dropoff! / prevStep.users) * 100)
+          : 0;
+        const conversionPct = 100 - dropoffPct;
+
+        return (
+          <div key={step.name} className="border border-gray-100 rounded-lg sm:rounded-xl p-2 sm:p-4">
+            <div className="text-[10px] sm:text-xs text-gray-500 mb-1 sm:mb-2 truncate">
+              {prevStep.shortName} → {step.shortName}
+            </div>
+            <div className="flex items-end justify-between">
+              <div>
+                <div className="text-lg sm:text-xl font-bold text-emerald-700">{conversionPct}%</div>
+                <div className="text-[10px] sm:text-xs text-gray-400">converted</div>
+              </div>
+              <div className="text-right">
+                <div className="text-xs sm:text-sm font-semibold text-red-600">{step.dropoff}</div>
+                <div className="text-[10px] sm:text-xs text-gray-400">dropped</div>
+              </div>
+            </div>
+            <div className="mt-1.5 sm:mt-2 h-1 sm:h-1.5 bg-gray-100 rounded-full overflow-hidden">
+              <div
+                className="h-full rounded-full"
+                style={{ width: `${conversionPct}%`, backgroundColor: step.fill }}
+              />
+            </div>
+            <div className="mt-1.5 sm:mt-2 text-[10px] sm:text-xs text-gray-500">
+              median {step.medianMs === null ? '–' : formatDuration(step.medianMs)}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
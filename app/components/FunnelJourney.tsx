@@ -0,0 +1,52 @@
+import type { FunnelStep } from '../lib/api';
+
+// Horizontal bars per step, sized against the first step, with the drop-off from the step before.
+export default function FunnelJourney({ steps }: { steps: FunnelStep[] }) {
+  return (
+    <div className="space-y-3">
+      {steps.map((step, index) => {
+        const maxUsers = steps[0]?.users || 1;
+        const widthPct = (step.users / maxUsers) * 100;
+
+        return (
+          <div key={step.name} className="relative">
+            <div className="flex items-center gap-2 sm:gap-4">
+              <div className="w-20 sm:w-28 md:w-36 text-xs sm:text-sm font-medium text-gray-700 text-right truncate" title={step.name}>
+                {step.shortName}
+              </div>
+              <div className="flex-1 relative">
+                <div
+                  className="h-10 sm:h-12 rounded-lg flex items-center justify-between px-2 sm:px-4 transition-all"
+                  style={{
+                    width: `${Math.max(widthPct, 15)}%`,
+                    backgroundColor: step.fill + '20',
+                    borderLeft: `4px solid ${step.fill}`,
+                  }}
+                >
+                  <span className="font-semibold text-xs sm:text-sm" style={{ color: step.fill }}>
+                    {step.users}
+                  </span>
+                  <span className="text-gray-500 text-xs hidden sm:inline">
+                    {step.value} events
+                  </span>
+                </div>
+              </div>
+              <div className="w-12 sm:w-16 text-right">
+                {index > 0 && step.dropoffPct && (
+                  <span className="text-red-600 text-xs sm:text-sm font-medium">
+                    -{step.dropoffPct}
+                  </span>
+                )}
+              </div>
+            </div>
+            {index < steps.length - 1 && (
+              <div className="ml-20 sm:ml-28 md:ml-36 pl-2 sm:pl-4 py-0.5 sm:py-1">
+                <div className="w-0.5 h-2 sm:h-3 bg-gray-200 ml-4"></div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+'use client';
+
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import type { HistogramBucket } from '../lib/metrics';
+
+// Counts per bucket as bars, labelled with the bucket ranges.
+export default function Histogram({ data, color, name }: { data: HistogramBucket[]; color: string; name: string }) {
+  return (
+    <div className="h-48 sm:h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} margin={{ top: 5, right: 5, bottom: 5, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#E5E5EA" />
+          <XAxis dataKey="label" stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} />
+          <YAxis stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} allowDecimals={false} />
+          <Tooltip contentStyle={{ backgroundColor: '#fff', border: '1px solid #E5E5EA', borderRadius: 12, fontWeight: 500 }} formatter={(value) => [Number(value).toLocaleString(), name]} />
+          <Bar dataKey="count" fill={color} radius={[4, 4, 0, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
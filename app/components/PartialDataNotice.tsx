@@ -0,0 +1,14 @@
+import type { FetchMeta } from '../lib/fetchAll';
+
+export default function PartialDataNotice({ meta }: { meta: FetchMeta | null }) {
+  if (!meta || meta.complete) return null;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-xl p-3 sm:p-4 mb-4 sm:mb-6 text-xs sm:text-sm">
+      <div className="font-medium">Incomplete data: numbers are based on the first {meta.rows.toLocaleString()} rows only.</div>
+      {meta.errors.map((error) => (
+        <div key={error} className="opacity-80 mt-1">{error}</div>
+      ))}
+    </div>
+  );
+}
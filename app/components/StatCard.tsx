@@ -0,0 +1,45 @@
+// Change against the previous period; `points` compares rates as percentage points.
+export interface Comparison {
+  current: number;
+  previous: number | undefined;
+  points?: boolean;
+  lowerIsBetter?: boolean;
+}
+
+function Delta({ current, previous, points, lowerIsBetter }: Comparison) {
+  if (previous === undefined) return null;
+
+  let label: string;
+  const diff = current - previous;
+  if (points) {
+    label = `${diff > 0 ? '+' : ''}${Math.round(diff)}pp`;
+  } else if (previous === 0) {
+    label = current === 0 ? '0%' : 'new';
+  } else {
+    const pct = Math.round((diff / previous) * 100);
+    label = `${pct > 0 ? '+' : ''}${pct}%`;
+  }
+
+  const better = lowerIsBetter ? diff < 0 : diff > 0;
+  const color = diff === 0 ? 'text-gray-400' : better ? 'text-emerald-700' : 'text-red-600';
+
+  return (
+    <span className={`text-[10px] sm:text-xs font-medium ${color}`} title={`Previous period: ${previous.toLocaleString()}`}>
+      {label}
+    </span>
+  );
+}
+
+// `hint` shows on hover, e.g. how the number is defined.
+export default function StatCard({ label, value, color, subtitle, hint, comparison }: { label: string; value: string | number; color: string; subtitle?: string; hint?: string; comparison?: Comparison }) {
+  return (
+    <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-5 shadow-sm" title={hint}>
+      <p className="text-gray-600 text-[10px] sm:text-xs font-medium mb-0.5 sm:mb-1">{label}</p>
+      <div className="flex items-baseline gap-2">
+        <p className={`text-xl sm:text-2xl md:text-3xl font-semibold ${color}`}>{value}</p>
+        {comparison && <Delta {...comparison} />}
+      </div>
+      {subtitle && <p className="text-[10px] sm:text-xs text-gray-400 mt-0.5 sm:mt-1 truncate">{subtitle}</p>}
+    </div>
+  );
+}
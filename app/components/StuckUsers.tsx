@@ -0,0 +1,66 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import UserLink from './UserLink';
+import type { FunnelStep } from '../lib/api';
+
+// Users whose furthest step is the selected one, each linking to their timeline.
+export default function StuckUsers({ steps, query }: { steps: FunnelStep[]; query?: string }) {
+  const [selected, setSelected] = useState(0);
+  // Steps can be removed while a later one is selected
+  const index = Math.min(selected, Math.max(steps.length - 2, 0));
+  const step = steps[index];
+
+  return (
+    <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm mb-3 sm:mb-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-3 sm:mb-4">
+        <h3 className="text-base sm:text-lg font-semibold">Stuck Users</h3>
+        <div className="flex flex-wrap gap-1 bg-gray-100 p-1 rounded-lg">
+          {steps.slice(0, -1).map((s, i) => (
+            <button
+              key={i}
+              onClick={() => setSelected(i)}
+              className={`px-3 py-1.5 text-xs sm:text-sm font-medium rounded-md transition ${
+                index === i
+                  ? 'bg-white text-gray-900 shadow-sm'
+                  : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {s.shortName} ({s.stuckCount})
+            </button>
+          ))}
+        </div>
+      </div>
+      {step?.stuck.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-gray-500 border-b border-gray-200">
+                <th className="text-left py-3 font-medium">User</th>
+                <th className="text-left py-3 font-medium">Reached {step.shortName}</th>
+                <th className="text-left py-3 font-medium">Never reached</th>
+              </tr>
+            </thead>
+            <tbody>
+              {step.stuck.map(s => (
+                <tr key={s.user} className="border-b border-gray-100">
+                  <td className="py-3"><UserLink uid={s.user} query={query} /></td>
+                  <td className="py-3 text-gray-600">{format(new Date(s.at), 'MMM dd HH:mm')}</td>
+                  <td className="py-3 text-gray-600">{steps[index + 1].shortName}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {step.stuckCount > step.stuck.length && (
+            <p className="text-xs text-gray-400 mt-3">
+              Showing the {step.stuck.length} most recent of {step.stuckCount} users.
+            </p>
+          )}
+        </div>
+      ) : (
+        <p className="text-gray-400 text-sm">Nobody is stuck at this step</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+'use client';
+
+import { TIME_RANGES } from '../lib/timeRange';
+import type { RangeSelection } from '../lib/timeRange';
+
+// `compare` hides the previous-period toggle on views that always compare.
+export default function TimeRangePicker({ value, onChange, loading, compare = true }: { value: RangeSelection; onChange: (value: RangeSelection) => void; loading?: boolean; compare?: boolean }) {
+  const buttonClass = (active: boolean) =>
+    `px-2 sm:px-3 py-1 sm:py-1.5 text-xs sm:text-sm font-medium rounded-md transition ${
+      active ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+    }`;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mb-4 sm:mb-6">
+      <span className="text-sm text-gray-500 font-medium">Time Range:</span>
+      <div className="flex flex-wrap gap-1 bg-gray-100 p-1 rounded-lg">
+        {TIME_RANGES.map((range) => (
+          <button key={range} onClick={() => onChange({ ...value, range })} className={buttonClass(value.range === range)}>
+            {range}
+          </button>
+        ))}
+        <button onClick={() => onChange({ ...value, range: 'custom' })} className={buttonClass(value.range === 'custom')}>
+          Custom
+        </button>
+      </div>
+      {value.range === 'custom' && (
+        <div className="flex items-center gap-1 text-xs sm:text-sm">
+          <input
+            type="date"
+            value={value.from}
+            max={value.to || undefined}
+            onChange={(e) => onChange({ ...value, from: e.target.value })}
+            className="px-2 py-1 border border-gray-200 rounded-md bg-white text-gray-700"
+          />
+          <span className="text-gray-400">–</span>
+          <input
+            type="date"
+            value={value.to}
+            min={value.from || undefined}
+            onChange={(e) => onChange({ ...value, to: e.target.value })}
+            className="px-2 py-1 border border-gray-200 rounded-md bg-white text-gray-700"
+          />
+        </div>
+      )}
+      {compare && (
+        <label className="flex items-center gap-1.5 text-xs sm:text-sm text-gray-500 font-medium cursor-pointer">
+          <input
+            type="checkbox"
+            checked={value.compare}
+            onChange={(e) => onChange({ ...value, compare: e.target.checked })}
+            className="rounded border-gray-300"
+          />
+          Compare to previous period
+        </label>
+      )}
+      {loading && <span className="text-xs text-gray-400 ml-2">Loading...</span>}
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import Link from 'next/link';
+
+// A shortened firebase_uid that opens the user's timeline.
+export default function UserLink({ uid, query }: { uid: string; query?: string }) {
+  return (
+    <Link
+      href={`/user/${encodeURIComponent(uid)}${query ? `?${query}` : ''}`}
+      title={uid}
+      className="font-mono text-xs text-blue-700 hover:underline"
+    >
+      {uid.slice(0, 8)}...
+    </Link>
+  );
+}
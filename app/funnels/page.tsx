@@ -0,0 +1,381 @@
+'use client';
+
+import { use, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import Link from 'next/link';
+import BreakdownPicker from '../components/BreakdownPicker';
+import ConversionWindowPicker, { CONVERSION_WINDOW_LABELS } from '../components/ConversionWindowPicker';
+import FunnelBreakdown from '../components/FunnelBreakdown';
+import FunnelConversion from '../components/FunnelConversion';
+import FunnelJourney from '../components/FunnelJourney';
+import PartialDataNotice from '../components/PartialDataNotice';
+import StatCard from '../components/StatCard';
+import StuckUsers from '../components/StuckUsers';
+import TimeRangePicker from '../components/TimeRangePicker';
+import { fetchMetrics } from '../lib/api';
+import { FILTER_OPERATORS, MIN_FUNNEL_STEPS, formatSteps, parseBreakdown, parseConversionWindow, parseFilterValue, parseSteps, stepLabel } from '../lib/metrics';
+import { hasRole } from '../lib/roles';
+import { EVENTS, FEATURES, eventsOf } from '../lib/taxonomy';
+import { parseSelection, selectionParams } from '../lib/timeRange';
+import type { FunnelMetrics, WithPrevious } from '../lib/api';
+import type { Session } from '../lib/auth';
+import type { FilterOperator, FunnelStepDefinition, PropFilter } from '../lib/metrics';
+import type { SavedFunnel } from '../lib/savedFunnels';
+import type { FeatureSlug } from '../lib/taxonomy';
+import type { RangeSelection } from '../lib/timeRange';
+import { toSearchParams, useQuerySync } from '../lib/urlState';
+import type { SearchParams } from '../lib/urlState';
+
+const DEFAULT_STEPS: FunnelStepDefinition[] = [
+  { event: 'basket_viewed' },
+  { event: 'comparison_started' },
+  { event: 'basket_results_displayed' },
+  { event: 'shopping_list_saved' },
+];
+
+const EMPTY_FILTER: PropFilter = { prop: '', op: '=', value: '' };
+
+export default function FunnelsPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const query = toSearchParams(use(searchParams));
+  const [steps, setSteps] = useState<FunnelStepDefinition[]>(() => {
+    const parsed = parseSteps(query.get('steps') ?? '').filter(step => step !== null && Object.hasOwn(EVENTS, step.event));
+    return parsed.length >= MIN_FUNNEL_STEPS ? parsed as FunnelStepDefinition[] : DEFAULT_STEPS;
+  });
+  const [conversionWindow, setConversionWindow] = useState(() => parseConversionWindow(query.get('window')));
+  const [breakdownBy, setBreakdownBy] = useState(() => {
+    const breakdown = query.get('breakdown');
+    return breakdown && parseBreakdown(breakdown) ? breakdown : '';
+  });
+  const [selection, setSelection] = useState<RangeSelection>(() => parseSelection(query));
+  const [funnel, setFunnel] = useState<WithPrevious<FunnelMetrics> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saved, setSaved] = useState<SavedFunnel[]>([]);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [session, setSession] = useState<Session | null>(null);
+  const rangeQuery = new URLSearchParams(selectionParams(selection)).toString();
+  const canEdit = session !== null && hasRole(session.role, 'analyst');
+
+  // Filter values are edited as raw text and only parsed here, so "2." or "007" can be typed;
+  // incomplete filters do not reach the query
+  const runnable = steps.map(step => ({
+    event: step.event,
+    filters: (step.filters ?? [])
+      .filter(f => f.prop !== '' && f.value !== '')
+      .map(f => ({ ...f, value: parseFilterValue(String(f.value)) })),
+  }));
+  const stepsParam = formatSteps(runnable);
+
+  useQuerySync({
+    ...selectionParams(selection),
+    steps: stepsParam,
+    window: conversionWindow,
+    ...(breakdownBy ? { breakdown: breakdownBy } : {}),
+  });
+
+  useEffect(() => {
+    // A newer request aborts this one, so a slow older response cannot overwrite a newer one
+    const controller = new AbortController();
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+        const data = await fetchMetrics<WithPrevious<FunnelMetrics>>('funnel', {
+          ...selectionParams(selection),
+          steps: stepsParam,
+          window: conversionWindow,
+          ...(breakdownBy ? { breakdown: breakdownBy } : {}),
+        }, controller.signal);
+        setFunnel(data);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching data:', error);
+        setFunnel(null);
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    fetchData();
+    return () => controller.abort();
+  }, [selection, stepsParam, conversionWindow, breakdownBy]);
+
+  const fetchSaved = async () => {
+    try {
+      const response = await fetch('/api/funnels');
+      if (!response.ok) throw new Error(`Failed to load funnels: ${response.status}`);
+      const data: { funnels: SavedFunnel[] } = await response.json();
+      setSaved(data.funnels);
+    } catch (error) {
+      console.error('Error fetching funnels:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchSaved();
+    fetch('/api/auth/session')
+      .then((response) => (response.ok ? response.json() : null))
+      .then(setSession)
+      .catch((error) => console.error('Error fetching session:', error));
+  }, []);
+
+  const updateStep = (index: number, step: FunnelStepDefinition) =>
+    setSteps(steps.map((s, i) => (i === index ? step : s)));
+
+  const updateFilter = (index: number, filterIndex: number, filter: PropFilter) => {
+    const step = steps[index];
+    updateStep(index, { ...step, filters: (step.filters ?? []).map((f, i) => (i === filterIndex ? filter : f)) });
+  };
+
+  const saveFunnel = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      const response = await fetch('/api/funnels', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, steps: stepsParam, window: conversionWindow }),
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        setError(data?.error ?? `Request failed: ${response.status}`);
+        return;
+      }
+      setName('');
+      await fetchSaved();
+    } catch (error) {
+      console.error('Error saving funnel:', error);
+      setError('Failed to save funnel');
+    }
+  };
+
+  const deleteFunnel = async (funnel: SavedFunnel) => {
+    if (!window.confirm(`Delete the funnel "${funnel.name}"?`)) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/funnels/${funnel.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        setError(data?.error ?? `Request failed: ${response.status}`);
+        return;
+      }
+      await fetchSaved();
+    } catch (error) {
+      console.error('Error deleting funnel:', error);
+      setError('Failed to delete funnel');
+    }
+  };
+
+  const loadFunnel = (funnel: SavedFunnel) => {
+    setSteps(funnel.steps);
+    setConversionWindow(funnel.window);
+  };
+
+  const stats = funnel?.stats;
+  const previous = funnel?.previous?.stats;
+
+  return (
+    <div className="min-h-screen bg-[#F5F5F7] text-gray-900">
+      {/* Navigation */}
+      <nav className="bg-white/80 backdrop-blur-xl border-b border-gray-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-3 sm:py-4 flex items-center gap-3">
+          <Link href={`/?${rangeQuery}`} className="text-gray-500 hover:text-gray-900">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </Link>
+          <h1 className="text-lg sm:text-xl font-semibold">Funnels</h1>
+        </div>
+      </nav>
+
+      <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-4 sm:py-8">
+        <TimeRangePicker value={selection} onChange={setSelection} loading={loading} />
+
+        <PartialDataNotice meta={funnel?.meta ?? null} />
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-800 rounded-xl p-3 mb-4 text-sm">{error}</div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-3 sm:gap-6 mb-3 sm:mb-6">
+          {/* Builder */}
+          <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm lg:col-span-2">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+              <h2 className="text-base sm:text-lg font-semibold text-gray-900">Steps</h2>
+              <div className="flex flex-wrap items-center gap-3">
+                <BreakdownPicker value={breakdownBy} onChange={setBreakdownBy} />
+                <ConversionWindowPicker value={conversionWindow} onChange={setConversionWindow} />
+              </div>
+            </div>
+            <div className="space-y-3">
+              {steps.map((step, index) => {
+                const declaredProps = Object.keys(EVENTS[step.event]?.props ?? {});
+                return (
+                  <div key={index} className="border border-gray-100 rounded-lg p-3">
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs font-semibold text-gray-400 w-5">{index + 1}</span>
+                      <select
+                        value={step.event}
+                        onChange={e => updateStep(index, { event: e.target.value })}
+                        className="flex-1 px-3 py-1.5 text-sm rounded-lg bg-gray-100 text-gray-900"
+                      >
+                        {(Object.keys(FEATURES) as FeatureSlug[]).map(feature => (
+                          <optgroup key={feature} label={FEATURES[feature].label}>
+                            {eventsOf(feature).map(event => (
+                              <option key={event} value={event}>{event}</option>
+                            ))}
+                          </optgroup>
+                        ))}
+                      </select>
+                      <button
+                        onClick={() => updateStep(index, { ...step, filters: [...(step.filters ?? []), EMPTY_FILTER] })}
+                        className="px-2 py-1.5 text-xs font-medium text-gray-500 hover:text-gray-900 transition"
+                      >
+                        + Filter
+                      </button>
+                      <button
+                        onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+                        disabled={steps.length <= MIN_FUNNEL_STEPS}
+                        className="px-2 py-1.5 text-xs font-medium text-gray-400 hover:text-red-600 transition disabled:opacity-30 disabled:hover:text-gray-400"
+                        title="Remove step"
+                      >
+                        ✕
+                      </button>
+                    </div>
+                    {(step.filters ?? []).map((filter, filterIndex) => (
+                      <div key={filterIndex} className="flex items-center gap-2 mt-2 ml-7">
+                        <input
+                          value={filter.prop}
+                          onChange={e => updateFilter(index, filterIndex, { ...filter, prop: e.target.value })}
+                          list={`props-${index}`}
+                          placeholder="prop"
+                          className="w-36 px-2 py-1 text-xs sm:text-sm rounded-md bg-gray-100 font-mono"
+                        />
+                        <select
+                          value={filter.op}
+                          onChange={e => updateFilter(index, filterIndex, { ...filter, op: e.target.value as FilterOperator })}
+                          className="px-2 py-1 text-xs sm:text-sm rounded-md bg-gray-100 font-mono"
+                        >
+                          {FILTER_OPERATORS.map(op => <option key={op} value={op}>{op}</option>)}
+                        </select>
+                        <input
+                          value={String(filter.value)}
+                          onChange={e => updateFilter(index, filterIndex, { ...filter, value: e.target.value })}
+                          placeholder="value"
+                          className="w-28 px-2 py-1 text-xs sm:text-sm rounded-md bg-gray-100 font-mono"
+                        />
+                        <button
+                          onClick={() => updateStep(index, { ...step, filters: (step.filters ?? []).filter((_, i) => i !== filterIndex) })}
+                          className="text-xs text-gray-400 hover:text-red-600 transition"
+                          title="Remove filter"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    ))}
+                    <datalist id={`props-${index}`}>
+                      {declaredProps.map(prop => <option key={prop} value={prop} />)}
+                    </datalist>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mt-4">
+              <button
+                onClick={() => setSteps([...steps, { event: steps[steps.length - 1].event }])}
+                className="px-3 py-1.5 text-xs sm:text-sm font-medium rounded-lg bg-gray-100 text-gray-700 hover:bg-gray-200 transition self-start"
+              >
+                + Add step
+              </button>
+              {canEdit && (
+                <form onSubmit={saveFunnel} className="flex items-center gap-2">
+                  <input
+                    value={name}
+                    onChange={e => setName(e.target.value)}
+                    placeholder="Funnel name"
+                    className="px-3 py-1.5 text-xs sm:text-sm rounded-lg bg-gray-100"
+                  />
+                  <button
+                    type="submit"
+                    disabled={name.trim() === ''}
+                    className="px-3 py-1.5 text-xs sm:text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition disabled:opacity-50"
+                  >
+                    Save
+                  </button>
+                </form>
+              )}
+            </div>
+          </div>
+
+          {/* Saved funnels */}
+          <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm">
+            <h2 className="text-base sm:text-lg font-semibold mb-2 sm:mb-4 text-gray-900">Saved Funnels</h2>
+            {saved.length > 0 ? (
+              <div className="space-y-2">
+                {saved.map(f => (
+                  <div key={f.id} className="flex items-start justify-between gap-2 border-b border-gray-100 pb-2">
+                    <button onClick={() => loadFunnel(f)} className="text-left group">
+                      <div className="text-sm font-medium group-hover:text-blue-700">{f.name}</div>
+                      <div className="text-[10px] sm:text-xs text-gray-400">
+                        {f.steps.length} steps · {CONVERSION_WINDOW_LABELS[f.window]} · {f.createdBy} · {format(new Date(f.createdAt), 'MMM dd')}
+                      </div>
+                    </button>
+                    {canEdit && (
+                      <button
+                        onClick={() => deleteFunnel(f)}
+                        className="text-xs text-gray-400 hover:text-red-600 transition"
+                        title="Delete funnel"
+                      >
+                        ✕
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-gray-400 text-sm">No saved funnels yet</p>
+            )}
+          </div>
+        </div>
+
+        {stats && funnel ? (
+          <>
+            {/* Stats */}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2 sm:gap-4 mb-4 sm:mb-8">
+              <StatCard label="Entered" value={stats.entered} color="text-blue-700" comparison={{ current: stats.entered, previous: previous?.entered }} />
+              <StatCard label="Converted" value={stats.converted} color="text-emerald-700" comparison={{ current: stats.converted, previous: previous?.converted }} />
+              <StatCard label="Rate" value={`${stats.overallRate}%`} color="text-violet-700" comparison={{ current: stats.overallRate, previous: previous?.overallRate, points: true }} />
+              <StatCard label="Drop-off" value={`${stats.biggestDropoffPct}%`} subtitle={stats.biggestDropoff} color="text-red-600" comparison={{ current: stats.biggestDropoffPct, previous: previous?.biggestDropoffPct, points: true, lowerIsBetter: true }} />
+            </div>
+
+            {/* Funnel Visualization */}
+            <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm mb-3 sm:mb-6">
+              <h3 className="text-base sm:text-lg font-semibold mb-1">User Journey</h3>
+              <p className="text-xs text-gray-500 mb-4 sm:mb-6">
+                {runnable.map(stepLabel).join(' → ')}, within {CONVERSION_WINDOW_LABELS[funnel.window]} of the first step.
+              </p>
+              <FunnelJourney steps={funnel.funnelData} />
+            </div>
+
+            {/* Drop-off Analysis */}
+            <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm mb-3 sm:mb-6">
+              <h3 className="text-base sm:text-lg font-semibold mb-3 sm:mb-4">Step-by-Step Conversion</h3>
+              <FunnelConversion steps={funnel.funnelData} />
+            </div>
+
+            {funnel.breakdown && (
+              <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm mb-3 sm:mb-6">
+                <h3 className="text-base sm:text-lg font-semibold mb-3 sm:mb-4">Conversion by Segment</h3>
+                <FunnelBreakdown steps={funnel.funnelData} segments={funnel.breakdown} />
+              </div>
+            )}
+
+            {/* Stuck Users */}
+            <StuckUsers steps={funnel.funnelData} query={rangeQuery} />
+          </>
+        ) : (
+          !loading && <p className="text-gray-400 text-center py-8">Could not compute this funnel</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+'use client';
+
+import { use, useEffect, useState } from 'react';
+import {
+  ComposedChart,
+  Bar,
+  Cell,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+  ReferenceLine,
+} from 'recharts';
+import Link from 'next/link';
+import Histogram from '../components/Histogram';
+import PartialDataNotice from '../components/PartialDataNotice';
+import StatCard from '../components/StatCard';
+import TimeRangePicker from '../components/TimeRangePicker';
+import { fetchMetrics } from '../lib/api';
+import { DEFAULT_SLO, LATENCY_INTERVALS, SLO_TARGETS, parseSlo } from '../lib/metrics';
+import type { LatencyInterval } from '../lib/metrics';
+import { parseSelection, selectionParams } from '../lib/timeRange';
+import type { LatencyMetrics, WithPrevious } from '../lib/api';
+import type { RangeSelection } from '../lib/timeRange';
+import { toSearchParams, useQuerySync } from '../lib/urlState';
+import type { SearchParams } from '../lib/urlState';
+
+const INTERVAL_LABELS: Record<LatencyInterval, string> = {
+  hour: 'Hourly',
+  day: 'Daily',
+};
+
+const TOOLTIP_STYLE = { backgroundColor: '#fff', border: '1px solid #E5E5EA', borderRadius: 12, fontWeight: 500 };
+
+export default function LatencyPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const query = toSearchParams(use(searchParams));
+  const [slo, setSlo] = useState(() => parseSlo(query.get('slo'), query.get('target')));
+  // Edited in ms, applied on blur or Enter
+  const [sloDraft, setSloDraft] = useState(() => String(slo.thresholdMs));
+  // Unset lets the route pick hourly or daily from the range length
+  const [latencyInterval, setLatencyInterval] = useState<LatencyInterval | null>(() => {
+    const value = query.get('interval') as LatencyInterval;
+    return LATENCY_INTERVALS.includes(value) ? value : null;
+  });
+  const [type, setType] = useState(() => query.get('type') ?? '');
+  const [selection, setSelection] = useState<RangeSelection>(() => parseSelection(query));
+  const [latency, setLatency] = useState<WithPrevious<LatencyMetrics> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const rangeQuery = new URLSearchParams(selectionParams(selection)).toString();
+
+  useQuerySync({
+    ...selectionParams(selection),
+    ...(slo.thresholdMs !== DEFAULT_SLO.thresholdMs ? { slo: String(slo.thresholdMs) } : {}),
+    ...(slo.target !== DEFAULT_SLO.target ? { target: String(slo.target) } : {}),
+    ...(latencyInterval ? { interval: latencyInterval } : {}),
+    ...(type ? { type } : {}),
+  });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+        const data = await fetchMetrics<WithPrevious<LatencyMetrics>>('latency', {
+          ...selectionParams(selection),
+          slo: String(slo.thresholdMs),
+          target: String(slo.target),
+          ...(latencyInterval ? { interval: latencyInterval } : {}),
+        }, controller.signal);
+        setLatency(data);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching data:', error);
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    fetchData();
+    return () => controller.abort();
+  }, [selection, slo, latencyInterval]);
+
+  const commitDraft = () => {
+    const next = parseSlo(sloDraft.trim(), String(slo.target));
+    setSlo(next);
+    setSloDraft(String(next.thresholdMs));
+  };
+
+  const stats = latency?.stats;
+  const previous = latency?.previous?.stats;
+  const selected = latency?.latencyData.find(l => l.type === type) ?? latency?.overall;
+
+  return (
+    <div className="min-h-screen bg-[#F5F5F7] text-gray-900">
+      {/* Navigation */}
+      <nav className="bg-white/80 backdrop-blur-xl border-b border-gray-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-3 sm:py-4 flex items-center gap-3">
+          <Link href={`/?${rangeQuery}`} className="text-gray-500 hover:text-gray-900">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </Link>
+          <h1 className="text-lg sm:text-xl font-semibold">Latency</h1>
+        </div>
+      </nav>
+
+      <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-4 sm:py-8">
+        <TimeRangePicker value={selection} onChange={setSelection} loading={loading} />
+
+        <PartialDataNotice meta={latency?.meta ?? null} />
+
+        <div className="flex flex-wrap items-center gap-2 sm:gap-3 mb-4 sm:mb-6">
+          <label htmlFor="slo" className="text-xs sm:text-sm text-gray-500">SLO: responses within</label>
+          <div className="flex items-center bg-gray-100 rounded-lg px-3 py-1.5">
+            <input
+              id="slo"
+              type="number"
+              min={1}
+              step={100}
+              value={sloDraft}
+              onChange={e => setSloDraft(e.target.value)}
+              onBlur={commitDraft}
+              onKeyDown={e => e.key === 'Enter' && commitDraft()}
+              className="w-16 bg-transparent text-xs sm:text-sm font-medium text-gray-900 focus:outline-none"
+            />
+            <span className="text-xs sm:text-sm text-gray-500">ms</span>
+          </div>
+          <span className="text-xs sm:text-sm text-gray-500">for</span>
+          <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+            {SLO_TARGETS.map(target => (
+              <button
+                key={target}
+                onClick={() => setSlo({ ...slo, target })}
+                className={`px-3 py-1.5 text-xs sm:text-sm font-medium rounded-md transition ${
+                  slo.target === target
+                    ? 'bg-white text-gray-900 shadow-sm'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {target}%
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-1 bg-gray-100 p-1 rounded-lg sm:ml-auto">
+            {LATENCY_INTERVALS.map(value => (
+              <button
+                key={value}
+                onClick={() => setLatencyInterval(value)}
+                className={`px-3 py-1.5 text-xs sm:text-sm font-medium rounded-md transition ${
+                  latency?.interval === value
+                    ? 'bg-white text-gray-900 shadow-sm'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {INTERVAL_LABELS[value]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {stats && latency && (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2 sm:gap-4 mb-4 sm:mb-8">
+            <StatCard label="Requests" value={stats.requests.toLocaleString()} color="text-blue-700" comparison={{ current: stats.requests, previous: previous?.requests }} />
+            <StatCard label="Within SLO" value={`${stats.withinSlo}%`} color={stats.withinSlo >= slo.target ? 'text-emerald-700' : 'text-red-600'} subtitle={`target ${slo.target}%`} comparison={{ current: stats.withinSlo, previous: previous?.withinSlo, points: true }} />
+            <StatCard label="p95" value={`${latency.overall.p95}ms`} color="text-cyan-700" subtitle={`p99 ${latency.overall.p99}ms`} comparison={{ current: latency.overall.p95, previous: latency.previous?.overall.p95, lowerIsBetter: true }} />
+            <StatCard label="Budget Left" value={`${stats.budgetRemaining}%`} color={stats.budgetRemaining >= 0 ? 'text-violet-700' : 'text-red-600'} subtitle={`${stats.slow.toLocaleString()} slow responses`} hint="Share of the slow responses the SLO allows over this range that have not been used yet." comparison={{ current: stats.budgetRemaining, previous: previous?.budgetRemaining, points: true }} />
+            <StatCard label="Breaches" value={stats.breaches} color="text-red-600" subtitle={latency.interval === 'hour' ? 'hours burning > 1x' : 'days burning > 1x'} comparison={{ current: stats.breaches, previous: previous?.breaches, lowerIsBetter: true }} />
+          </div>
+        )}
+
+        {latency && selected && (
+          <>
+            <div className="flex flex-wrap gap-1 bg-gray-100 p-1 rounded-lg mb-3 sm:mb-6 w-fit">
+              {[latency.overall, ...latency.latencyData].map(l => (
+                <button
+                  key={l.type}
+                  onClick={() => setType(l === latency.overall ? '' : l.type)}
+                  className={`px-3 py-1.5 text-xs sm:text-sm font-medium rounded-md transition capitalize ${
+                    selected.type === l.type
+                      ? 'bg-white text-gray-900 shadow-sm'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {l === latency.overall ? 'All types' : l.type}
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-6 mb-3 sm:mb-6">
+              <Card title="Percentiles">
+                <div className="h-48 sm:h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={selected.series} margin={{ top: 5, right: 5, bottom: 5, left: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#E5E5EA" />
+                      <XAxis dataKey="date" stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} />
+                      <YAxis stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} unit="ms" />
+                      <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value) => `${value}ms`} />
+                      <Legend wrapperStyle={{ fontSize: 12 }} />
+                      <ReferenceLine y={slo.thresholdMs} stroke="#DC2626" strokeDasharray="4 4" />
+                      <Line type="monotone" dataKey="p50" stroke="#059669" strokeWidth={2} dot={false} name="p50" />
+                      <Line type="monotone" dataKey="p95" stroke="#D97706" strokeWidth={2} dot={false} name="p95" />
+                      <Line type="monotone" dataKey="p99" stroke="#DC2626" strokeWidth={2} dot={false} name="p99" />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                <p className="text-xs text-gray-400 mt-2">The dashed line is the SLO threshold.</p>
+              </Card>
+
+              <Card title="Response Times">
+                <Histogram data={selected.distribution} color="#0891B2" name="Responses" />
+              </Card>
+            </div>
+
+            <div className="mb-3 sm:mb-6">
+              <Card title="Error Budget">
+                <div className="h-48 sm:h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={selected.series} margin={{ top: 5, right: 5, bottom: 5, left: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#E5E5EA" />
+                      <XAxis dataKey="date" stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} />
+                      <YAxis yAxisId="burn" stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} unit="x" />
+                      <YAxis yAxisId="budget" orientation="right" stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} unit="%" />
+                      <Tooltip contentStyle={TOOLTIP_STYLE} />
+                      <Legend wrapperStyle={{ fontSize: 12 }} />
+                      <ReferenceLine yAxisId="burn" y={1} stroke="#9CA3AF" strokeDasharray="4 4" />
+                      <Bar yAxisId="burn" dataKey="burnRate" name="Burn rate" radius={[4, 4, 0, 0]}>
+                        {selected.series.map(point => (
+                          <Cell key={point.date} fill={point.burnRate > 1 ? '#DC2626' : '#A5B4FC'} />
+                        ))}
+                      </Bar>
+                      <Line yAxisId="budget" type="monotone" dataKey="budgetRemaining" stroke="#7C3AED" strokeWidth={2} dot={false} name="Budget left" />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                </div>
+                <p className="text-xs text-gray-400 mt-2">
+                  Burn rate is the share of slow responses over the {Math.round((100 - slo.target) * 10) / 10}% the SLO allows; red bars breached it.
+                  Budget left counts down the slow responses allowed over the whole range.
+                </p>
+              </Card>
+            </div>
+
+            <Card title="By Response Type">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-500 border-b border-gray-200">
+                      <th className="text-left py-3 font-medium">Response Type</th>
+                      <th className="text-right py-3 font-medium">Requests</th>
+                      <th className="text-right py-3 font-medium">p50</th>
+                      <th className="text-right py-3 font-medium">p95</th>
+                      <th className="text-right py-3 font-medium">p99</th>
+                      <th className="text-right py-3 font-medium">Within SLO</th>
+                      <th className="text-right py-3 font-medium">Budget Left</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {latency.latencyData.map(l => {
+                      const budgetRemaining = l.series.at(-1)?.budgetRemaining ?? 100;
+                      return (
+                        <tr key={l.type} className="border-b border-gray-100">
+                          <td className="py-3 capitalize">{l.type}</td>
+                          <td className="text-right py-3 text-gray-600">{l.count.toLocaleString()}</td>
+                          <td className="text-right py-3">{l.p50}ms</td>
+                          <td className="text-right py-3">{l.p95}ms</td>
+                          <td className="text-right py-3">{l.p99}ms</td>
+                          <td className={`text-right py-3 font-medium ${l.withinSlo >= slo.target ? 'text-emerald-700' : 'text-red-600'}`}>{l.withinSlo}%</td>
+                          <td className={`text-right py-3 ${budgetRemaining >= 0 ? 'text-gray-600' : 'text-red-600'}`}>{budgetRemaining}%</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Card({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm">
+      <h2 className="text-base sm:text-lg font-semibold mb-2 sm:mb-4 text-gray-900">{title}</h2>
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { fetchAll } from '../fetchAll';
+
+const ROWS = Array.from({ length: 2500 }, (_, id) => ({ id }));
+
+// A table of ROWS behind a server that returns at most `cap` rows per request.
+function cappedQuery(cap: number) {
+  return async (from: number, to: number) => ({ data: ROWS.slice(from, Math.min(to + 1, from + cap)), error: null });
+}
+
+describe('fetchAll', () => {
+  it('reads every row page by page', async () => {
+    const result = await fetchAll(cappedQuery(1000));
+    expect(result.rows).toBe(2500);
+    expect(result.pages).toBe(3);
+    expect(result.complete).toBe(true);
+  });
+
+  it('keeps going when the server returns fewer rows than a page', async () => {
+    const result = await fetchAll(cappedQuery(300));
+    expect(result.data).toEqual(ROWS);
+    expect(result.complete).toBe(true);
+  });
+
+  it('reports progress after every page', async () => {
+    const progress: number[] = [];
+    await fetchAll(cappedQuery(1000), { onProgress: ({ rows }) => progress.push(rows) });
+    expect(progress).toEqual([1000, 2000, 2500]);
+  });
+
+  it('marks the result incomplete when a page keeps failing', async () => {
+    const result = await fetchAll(async (from: number, to: number) => (from === 0
+      ? { data: ROWS.slice(from, to + 1), error: null }
+      : { data: null, error: { message: 'timeout' } }), { label: 'events' });
+    expect(result.rows).toBe(1000);
+    expect(result.complete).toBe(false);
+    expect(result.errors).toEqual(['events: timeout']);
+  });
+
+  it('stops at maxRows and says so', async () => {
+    const result = await fetchAll(cappedQuery(1000), { label: 'events', maxRows: 1500 });
+    expect(result.rows).toBe(1500);
+    expect(result.complete).toBe(false);
+    expect(result.errors).toEqual(['events: stopped at 1,500 rows']);
+  });
+});
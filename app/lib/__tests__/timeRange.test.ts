@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { alignPrevious } from '../api';
+import { lastDay, parseDateWindow, parseSelection } from '../timeRange';
+
+describe('parseDateWindow and parseSelection', () => {
+  it('read an absolute range as whole days', () => {
+    const params = new URLSearchParams({ from: '2026-10-01', to: '2026-10-07' });
+    expect(parseDateWindow(params)).toEqual({ from: '2026-10-01T00:00:00.000Z', to: '2026-10-08T00:00:00.000Z' });
+    expect(parseSelection(params)).toMatchObject({ range: 'custom', from: '2026-10-01', to: '2026-10-07' });
+  });
+
+  it('both swap a reversed range', () => {
+    const params = new URLSearchParams({ from: '2026-10-07', to: '2026-10-01' });
+    expect(parseDateWindow(params)).toEqual({ from: '2026-10-01T00:00:00.000Z', to: '2026-10-08T00:00:00.000Z' });
+    expect(parseSelection(params)).toMatchObject({ range: 'custom', from: '2026-10-01', to: '2026-10-07' });
+  });
+});
+
+describe('lastDay', () => {
+  it('is the UTC day just before the end of the window', () => {
+    expect(lastDay({ from: '2026-10-01T00:00:00.000Z', to: '2026-10-08T00:00:00.000Z' })).toBe('2026-10-07');
+    expect(lastDay({ from: '2026-10-01T00:00:00.000Z', to: '2026-10-08T00:30:00.000Z' })).toBe('2026-10-08');
+  });
+});
+
+describe('alignPrevious', () => {
+  const period = { from: '2026-10-08T00:00:00.000Z', to: '2026-10-11T00:00:00.000Z' };
+
+  it('pairs points by day into the window, not by position', () => {
+    // Oct 09 has no data in the current window, Oct 05 none in the previous one
+    const current = [{ date: 'Oct 08', users: 1 }, { date: 'Oct 10', users: 3 }];
+    const previous = [{ date: 'Oct 06', users: 4 }, { date: 'Oct 07', users: 5 }];
+    expect(alignPrevious(current, previous, period).map(row => row.previous?.users)).toEqual([undefined, 5]);
+  });
+
+  it('leaves points unpaired without a previous series', () => {
+    expect(alignPrevious([{ date: 'Oct 08' }], undefined, period)).toEqual([{ date: 'Oct 08', previous: undefined }]);
+  });
+});
@@ -0,0 +1,135 @@
+import 'server-only';
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import { readJson, serializeUpdates, writeJson } from './storage';
+import type { Role } from './roles';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+
+const ACCOUNTS_FILE = 'accounts.json';
+const KEY_LENGTH = 64;
+
+export interface Account {
+  email: string;
+  name: string;
+  role: Role;
+  passwordHash: string;
+  // Bumped on revoke and sign-out, which invalidates every session token issued before it.
+  sessionVersion: number;
+  revoked: boolean;
+  createdAt: string;
+}
+
+// What the admin page gets to see.
+export type AccountSummary = Omit<Account, 'passwordHash' | 'sessionVersion'>;
+
+export function toSummary(account: Account): AccountSummary {
+  const { email, name, role, revoked, createdAt } = account;
+  return { email, name, role, revoked, createdAt };
+}
+
+export function normalizeEmail(email: string) {
+  return email.trim().toLowerCase();
+}
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString('hex');
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${salt}:${key.toString('hex')}`;
+}
+
+// Hashed with when the email is unknown, so a failed sign-in takes as long whether or not the
+// account exists.
+const DUMMY_SALT = '0'.repeat(32);
+
+export async function verifyPassword(account: Account | null, password: string) {
+  if (!account) {
+    await scryptAsync(password, DUMMY_SALT, KEY_LENGTH);
+    return false;
+  }
+  const [salt, hash] = account.passwordHash.split(':');
+  if (!salt || !hash) return false;
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  const expected = Buffer.from(hash, 'hex');
+  return expected.length === key.length && timingSafeEqual(expected, key);
+}
+
+// With no accounts yet, DASHBOARD_ADMIN_EMAIL / DASHBOARD_ADMIN_PASSWORD seed the first admin.
+async function bootstrapAccounts(): Promise<Account[]> {
+  const email = process.env.DASHBOARD_ADMIN_EMAIL;
+  const password = process.env.DASHBOARD_ADMIN_PASSWORD;
+  if (!email || !password) return [];
+
+  const accounts: Account[] = [{
+    email: normalizeEmail(email),
+    name: 'Admin',
+    role: 'admin',
+    passwordHash: await hashPassword(password),
+    sessionVersion: 1,
+    revoked: false,
+    createdAt: new Date().toISOString(),
+  }];
+  await writeJson(ACCOUNTS_FILE, accounts);
+  return accounts;
+}
+
+export async function listAccounts(): Promise<Account[]> {
+  const accounts = await readJson<Account[] | null>(ACCOUNTS_FILE, null);
+  return accounts ?? bootstrapAccounts();
+}
+
+export async function findAccount(email: string) {
+  const accounts = await listAccounts();
+  return accounts.find(a => a.email === normalizeEmail(email)) ?? null;
+}
+
+export function createAccount(input: { email: string; name: string; role: Role; password: string }) {
+  return serializeUpdates(ACCOUNTS_FILE, async () => {
+    const accounts = await listAccounts();
+    const email = normalizeEmail(input.email);
+    if (accounts.some(a => a.email === email)) {
+      throw new Error(`Account already exists: ${email}`);
+    }
+
+    const account: Account = {
+      email,
+      name: input.name.trim() || email,
+      role: input.role,
+      passwordHash: await hashPassword(input.password),
+      sessionVersion: 1,
+      revoked: false,
+      createdAt: new Date().toISOString(),
+    };
+    await writeJson(ACCOUNTS_FILE, [...accounts, account]);
+    return account;
+  });
+}
+
+// Revoking signs the person out everywhere; restoring lets them sign in again with their password.
+export function updateAccount(email: string, changes: { role?: Role; revoked?: boolean }) {
+  return serializeUpdates(ACCOUNTS_FILE, async () => {
+    const accounts = await listAccounts();
+    const account = accounts.find(a => a.email === normalizeEmail(email));
+    if (!account) return null;
+
+    if (changes.role) account.role = changes.role;
+    if (changes.revoked !== undefined && changes.revoked !== account.revoked) {
+      account.revoked = changes.revoked;
+      account.sessionVersion++;
+    }
+    await writeJson(ACCOUNTS_FILE, accounts);
+    return account;
+  });
+}
+
+// Invalidates every session token of the account, including copies of the one being signed out.
+export function endSessions(email: string) {
+  return serializeUpdates(ACCOUNTS_FILE, async () => {
+    const accounts = await listAccounts();
+    const account = accounts.find(a => a.email === normalizeEmail(email));
+    if (!account) return;
+
+    account.sessionVersion++;
+    await writeJson(ACCOUNTS_FILE, accounts);
+  });
+}
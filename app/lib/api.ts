@@ -0,0 +1,538 @@
+// Response shapes of the /api/metrics route handlers, shared by the routes and the pages.
+
+import { format, isValid, parse, subDays, subYears } from 'date-fns';
+import type { FetchMeta } from './fetchAll';
+import type {
+  BreakdownDimension,
+  CatalogueDrop,
+  CohortAnchor,
+  ConversionWindow,
+  EventDrift,
+  EventProps,
+  FunnelSegment,
+  Granularity,
+  HistogramBucket,
+  LatencyInterval,
+  LatencyPoint,
+  LatencySlo,
+  LatencySummary,
+  PathDirection,
+  PathGraph,
+  PropDrift,
+  RetentionMode,
+  RetentionPoint,
+  StoreCount,
+  StuckUser,
+} from './metrics';
+import type { PropType } from './taxonomy';
+import type { DateWindow } from './timeRange';
+
+export interface DailyStats {
+  date: string;
+  unique_users: number;
+  total_events: number;
+}
+
+export interface EventBreakdown {
+  event_name: string;
+  count: number;
+}
+
+export interface SessionFunnel {
+  state: string;
+  count: number;
+}
+
+export interface FeatureAdoption {
+  feature: string;
+  slug: string;
+  users: number;
+  events: number;
+  adoption_rate: number;
+}
+
+export interface PlatformData {
+  platform: string;
+  count: number;
+}
+
+export interface ResponseTypeData {
+  type: string;
+  count: number;
+}
+
+export interface StoreHealth {
+  name: string;
+  products: number;
+  promos: number;
+}
+
+// Exact store_offerings total across all stores, and the newest updated_at among them
+export interface CatalogueSummary {
+  products: number;
+  updatedAt: string | null;
+}
+
+export interface OverviewMetrics {
+  dailyStats: DailyStats[];
+  eventBreakdown: EventBreakdown[];
+  sessionFunnel: SessionFunnel[];
+  featureAdoption: FeatureAdoption[];
+  platformData: PlatformData[];
+  responseTypes: ResponseTypeData[];
+  // Live store counts, the same for both windows; empty and null when the counts could not be read
+  storeHealth: StoreHealth[];
+  catalogue: CatalogueSummary | null;
+  onboardingRate: number;
+  // sessions counts app sessions (see metrics/sessions.ts), not chat sessions
+  todayStats: { users: number; events: number; sessions: number; messages: number };
+  totalUsers: number;
+  newUsers: number;
+  returningUsers: number;
+  avgProcessingMs: number;
+  totalSavings: number;
+  basketsGenerated: number;
+  listStats: { action: string; count: number; users: number }[];
+  // Event names seen in the period that no feature in the taxonomy claims
+  unclaimedEvents: { event_name: string; count: number; users: number }[];
+  meta: FetchMeta;
+}
+
+export interface DailyUsers {
+  date: string;
+  dau: number;
+  events: number;
+}
+
+export interface WeeklyUsers {
+  week: string;
+  wau: number;
+  baskets: number;
+  basketsPerUser: number;
+}
+
+export interface UserSegment {
+  segment: string;
+  users: number;
+  avgEvents: number;
+  avgSavings: number;
+}
+
+export interface UsersMetrics {
+  dailyUsers: DailyUsers[];
+  weeklyUsers: WeeklyUsers[];
+  userSegments: UserSegment[];
+  stats: {
+    dau: number;
+    wau: number;
+    mau: number;
+    dauWauRatio: number;
+    avgBasketsPerUser: number;
+    avgSavingsPerBasket: number;
+    actionRate: number;
+    w1Retention: number;
+    avgProcessingMs: number;
+    basketSuccessRate: number;
+  };
+  activationMetrics: {
+    onboardingCompletionRate: number;
+    firstBasketRate: number;
+    ahaEventRate: number;
+    // Cents of savings a basket needs to count as the aha moment
+    ahaThreshold: number;
+  };
+  acquisitionMetrics: {
+    trulyNewUsers: number;
+    returningDeviceUsers: number;
+    newUserConversionRate: number;
+  };
+  meta: FetchMeta;
+}
+
+export interface CohortData {
+  cohort: string;
+  users: number;
+  retention: (number | null)[];
+}
+
+export interface CohortMetrics {
+  granularity: Granularity;
+  anchor: CohortAnchor;
+  cohorts: CohortData[];
+  meta: FetchMeta;
+}
+
+// What the retention curves are split by: weekly signup cohort or a user segment
+export type RetentionBreakdown = 'cohort' | BreakdownDimension;
+
+export interface RetentionSeries {
+  name: string;
+  users: number;
+  // One point per entry in RetentionMetrics.days
+  points: RetentionPoint[];
+}
+
+export interface RetentionMetrics {
+  mode: RetentionMode;
+  by: RetentionBreakdown;
+  days: number[];
+  overall: RetentionSeries;
+  series: RetentionSeries[];
+  meta: FetchMeta;
+}
+
+export interface DailySessions {
+  date: string;
+  sessions: number;
+  users: number;
+  perDau: number;
+}
+
+export interface SessionMetrics {
+  // Inactivity gap in minutes the sessions were split on
+  gap: number;
+  lengthDistribution: HistogramBucket[];
+  eventsDistribution: HistogramBucket[];
+  perUserDistribution: HistogramBucket[];
+  dailyData: DailySessions[];
+  stats: {
+    sessions: number;
+    users: number;
+    sessionsPerUser: number;
+    sessionsPerDau: number;
+    medianLengthMs: number;
+    avgEvents: number;
+    launchedRate: number;
+  };
+  meta: FetchMeta;
+}
+
+export interface SavingsUser {
+  user: string;
+  baskets: number;
+  // Summed over every basket up to the end of the period, not just those inside it
+  lifetimeSavings: number;
+  bestBasket: number;
+  firstBasket: string;
+}
+
+export interface StoreSavings {
+  store: string;
+  baskets: number;
+  users: number;
+  avgSavings: number;
+  medianSavings: number;
+  totalSavings: number;
+}
+
+export interface SavingsMetrics {
+  ahaThreshold: number;
+  // All amounts in cents, per basket_results_displayed event unless noted
+  distribution: HistogramBucket[];
+  percentiles: { label: string; cents: number }[];
+  lifetimeDistribution: HistogramBucket[];
+  topUsers: SavingsUser[];
+  // Only baskets whose props name a store
+  byStore: StoreSavings[];
+  // Share of basket users reaching each candidate threshold
+  ahaCurve: { threshold: number; users: number; rate: number }[];
+  dailyData: { date: string; baskets: number; avgSavings: number }[];
+  stats: {
+    baskets: number;
+    basketUsers: number;
+    totalSavings: number;
+    avgSavings: number;
+    medianSavings: number;
+    ahaUsers: number;
+    ahaRate: number;
+    avgLifetimeSavings: number;
+    storeCoverage: number;
+    savedLists: number;
+    savedListSavings: number;
+  };
+  meta: FetchMeta;
+}
+
+export interface UnansweredSession {
+  id: string;
+  user: string;
+  createdAt: string;
+  state: string;
+  userMessages: number;
+}
+
+export interface ChatMetrics {
+  // How long after a session starts a basket still counts towards it
+  window: ConversionWindow;
+  messagesDistribution: HistogramBucket[];
+  // Assistant messages per scenario, split by response_type (keys of responseTypes)
+  scenarioMix: { scenario: string; total: number; types: Record<string, number> }[];
+  responseTypes: string[];
+  stateCounts: { state: string; count: number }[];
+  // End state of each session against the end state of the same user's next session
+  nextSessionStates: { from: string; to: string; count: number; share: number }[];
+  unanswered: UnansweredSession[];
+  dailyData: { date: string; sessions: number; unanswered: number; converted: number }[];
+  stats: {
+    sessions: number;
+    messages: number;
+    avgMessages: number;
+    medianMessages: number;
+    unanswered: number;
+    unansweredRate: number;
+    converted: number;
+    conversionRate: number;
+    avgProcessingMs: number;
+  };
+  meta: FetchMeta;
+}
+
+// One response type, or every type together in LatencyMetrics.overall.
+export interface LatencyData extends LatencySummary {
+  type: string;
+  withinSlo: number;
+  distribution: HistogramBucket[];
+  series: LatencyPoint[];
+}
+
+export interface LatencyMetrics {
+  slo: LatencySlo;
+  interval: LatencyInterval;
+  overall: LatencyData;
+  latencyData: LatencyData[];
+  stats: {
+    requests: number;
+    withinSlo: number;
+    slow: number;
+    budgetRemaining: number;
+    // Points whose burn rate went above 1
+    breaches: number;
+  };
+  meta: FetchMeta;
+}
+
+export interface FunnelStep {
+  name: string;
+  shortName: string;
+  value: number;
+  users: number;
+  fill: string;
+  dropoff?: number;
+  dropoffPct?: string;
+  // Median time from the previous step, null for the first step or when nobody converted
+  medianMs: number | null;
+  stuck: StuckUser[];
+  stuckCount: number;
+}
+
+export interface DailyOnboarding {
+  date: string;
+  started: number;
+  completed: number;
+  rate: number;
+}
+
+export interface OnboardingMetrics {
+  window: ConversionWindow;
+  funnelData: FunnelStep[];
+  // One conversion series per segment when ?breakdown= is set
+  breakdown: FunnelSegment[] | null;
+  dailyData: DailyOnboarding[];
+  demoListStats: { list: string; count: number }[];
+  stats: {
+    totalStarted: number;
+    totalCompleted: number;
+    overallRate: number;
+    biggestDropoff: string;
+    biggestDropoffPct: number;
+  };
+  meta: FetchMeta;
+}
+
+export interface FunnelMetrics {
+  window: ConversionWindow;
+  funnelData: FunnelStep[];
+  breakdown: FunnelSegment[] | null;
+  stats: {
+    entered: number;
+    converted: number;
+    overallRate: number;
+    biggestDropoff: string;
+    biggestDropoffPct: number;
+  };
+  meta: FetchMeta;
+}
+
+// How path steps are named: by taxonomy feature or by raw event name
+export type PathGrouping = 'feature' | 'event';
+
+export const PATH_GROUPINGS: PathGrouping[] = ['feature', 'event'];
+
+export interface PathMetrics {
+  // Event name, or CHURN_ANCHOR
+  anchor: string;
+  direction: PathDirection;
+  steps: number;
+  group: PathGrouping;
+  graph: PathGraph;
+  meta: FetchMeta;
+}
+
+export interface FeatureDailyData {
+  date: string;
+  events: number;
+  users: number;
+}
+
+export interface FeatureEventData {
+  name: string;
+  description: string;
+  count: number;
+  users: number;
+}
+
+export interface FeatureUserData {
+  // Full firebase_uid; pages shorten it for display
+  user: string;
+  events: number;
+  lastSeen: string;
+}
+
+export interface FeatureMetrics {
+  dailyData: FeatureDailyData[];
+  eventBreakdown: FeatureEventData[];
+  topUsers: FeatureUserData[];
+  stats: { totalEvents: number; uniqueUsers: number; avgPerUser: number; todayEvents: number };
+  meta: FetchMeta;
+}
+
+export type TimelineKind = 'event' | 'chat_session' | 'chat_message';
+
+export interface TimelineEntry {
+  at: string;
+  kind: TimelineKind;
+  name: string;
+  // Platform for events, session state or response type for chat rows
+  detail: string | null;
+  props: EventProps | null;
+  // Chat session the row belongs to
+  session?: string;
+}
+
+export interface UserMetrics {
+  uid: string;
+  // Events, chat sessions and chat messages, oldest first
+  timeline: TimelineEntry[];
+  stats: {
+    firstSeen: string | null;
+    lastSeen: string | null;
+    events: number;
+    activeDays: number;
+    baskets: number;
+    totalSavings: number;
+    chatSessions: number;
+    chatMessages: number;
+  };
+  platforms: string[];
+  meta: FetchMeta;
+}
+
+export interface SchemaProp extends PropDrift {
+  // Type the taxonomy declares for this prop, if any
+  expected: PropType | null;
+  mismatch: boolean;
+}
+
+export interface SchemaEvent extends Omit<EventDrift, 'props'> {
+  // Taxonomy feature label, null when no feature claims the event
+  feature: string | null;
+  props: SchemaProp[];
+}
+
+export interface SchemaMetrics {
+  events: SchemaEvent[];
+  summary: { newEvents: number; removedEvents: number; changedProps: number; mismatches: number; unclaimed: number };
+  previousPeriod: DateWindow;
+  meta: FetchMeta;
+}
+
+// With ?compare=1 a route also returns the same metrics for the preceding period.
+export interface CataloguePoint {
+  date: string;
+  products: number;
+  promos: number;
+}
+
+export interface StoreRow extends StoreCount {
+  // Counts in the range's first snapshot, null when the store was not in it
+  startProducts: number | null;
+  startPromos: number | null;
+  history: CataloguePoint[];
+  drops: number;
+}
+
+export interface StoreMetrics {
+  stores: StoreRow[];
+  totals: (CataloguePoint & { stores: number })[];
+  drops: CatalogueDrop[];
+  empty: StoreCount[];
+  snapshots: number;
+  // yyyy-MM-dd of the oldest snapshot on disk, null before the first one
+  trackedSince: string | null;
+  catalogue: CatalogueSummary;
+}
+
+export interface StorePromotions {
+  storeId: number;
+  store: string;
+  active: number;
+  // Aligned with EXPIRY_HORIZONS
+  expiring: number[];
+  stale: number;
+  // Aligned with PromotionMetrics.weeks
+  arrivals: number[];
+  // Set when the weekly refresh looks overdue: when the last promotion arrived
+  quietSince: string | null;
+}
+
+export interface PromotionMetrics {
+  weeks: string[];
+  stores: StorePromotions[];
+  totals: {
+    active: number;
+    expiring: number[];
+    stale: number;
+    arrivals: number[];
+  };
+  meta: FetchMeta;
+}
+
+export type WithPrevious<T> = T & { previous?: T };
+
+// Pairs each daily point with the previous period's point the same number of days into its window,
+// so a day missing from either series does not shift the pairs. Points carry the 'MMM dd' labels
+// the routes emit; `period` is the current window.
+export function alignPrevious<T extends { date: string }>(
+  current: T[],
+  previous: T[] | undefined,
+  period: DateWindow,
+): (T & { previous?: T })[] {
+  const end = new Date(period.to);
+  const days = Math.round((end.getTime() - new Date(period.from).getTime()) / (24 * 60 * 60 * 1000));
+  const byDate = new Map((previous ?? []).map(row => [row.date, row]));
+  return current.map(row => {
+    // Labels have no year: take the latest date on or before the window's end
+    let day = parse(row.date, 'MMM dd', end);
+    if (!isValid(day) || day > end) day = parse(row.date, 'MMM dd', subYears(end, 1));
+    return { ...row, previous: isValid(day) ? byDate.get(format(subDays(day, days), 'MMM dd')) : undefined };
+  });
+}
+
+export async function fetchMetrics<T>(path: string, params: Record<string, string> = {}, signal?: AbortSignal): Promise<T> {
+  const query = new URLSearchParams(params).toString();
+  const response = await fetch(`/api/metrics/${path}${query ? `?${query}` : ''}`, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to load /api/metrics/${path}: ${response.status}`);
+  }
+  return response.json();
+}
@@ -0,0 +1,65 @@
+import 'server-only';
+import { appendLine, readLines } from './storage';
+import type { Role } from './roles';
+
+const AUDIT_FILE = 'audit.jsonl';
+const MAX_RESULTS = 500;
+
+// page: a dashboard was opened. query: a page loaded data. export: data left the dashboard.
+// change: something was modified. sign-in: a login attempt, successful or not.
+export type AuditKind = 'page' | 'query' | 'export' | 'change' | 'sign-in';
+
+export const AUDIT_KINDS: AuditKind[] = ['page', 'query', 'export', 'change', 'sign-in'];
+
+export interface AuditEntry {
+  at: string;
+  email: string;
+  role: Role | null;
+  kind: AuditKind;
+  method: string;
+  path: string;
+  // Query-string filters the request was made with
+  params: Record<string, string>;
+  outcome?: 'success' | 'failure';
+}
+
+export interface AuditResponse {
+  entries: AuditEntry[];
+  // Matches before the newest MAX_RESULTS were taken
+  total: number;
+}
+
+export interface AuditFilter {
+  email?: string;
+  kind?: AuditKind;
+  path?: string;
+  from?: string;
+  to?: string;
+}
+
+export function auditKind(pathname: string, method: string): AuditKind {
+  if (pathname.includes('/export')) return 'export';
+  if (method !== 'GET') return 'change';
+  return pathname.startsWith('/api') ? 'query' : 'page';
+}
+
+export async function recordAudit(entry: Omit<AuditEntry, 'at'>) {
+  await appendLine(AUDIT_FILE, { at: new Date().toISOString(), ...entry });
+}
+
+// Newest first; `from`/`to` are inclusive yyyy-MM-dd days.
+export async function readAudit(filter: AuditFilter = {}): Promise<AuditResponse> {
+  const entries = await readLines<AuditEntry>(AUDIT_FILE);
+  const email = filter.email?.trim().toLowerCase();
+  const path = filter.path?.trim();
+
+  const matches = entries.filter(e =>
+    (!email || e.email.includes(email)) &&
+    (!filter.kind || e.kind === filter.kind) &&
+    (!path || e.path.includes(path)) &&
+    (!filter.from || e.at.slice(0, 10) >= filter.from) &&
+    (!filter.to || e.at.slice(0, 10) <= filter.to)
+  );
+
+  return { entries: matches.reverse().slice(0, MAX_RESULTS), total: matches.length };
+}
@@ -0,0 +1,82 @@
+import 'server-only';
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { findAccount } from './accounts';
+import { isRole } from './roles';
+import type { Account } from './accounts';
+import type { Role } from './roles';
+
+export const SESSION_COOKIE = 'dashboard_session';
+export const SESSION_MAX_AGE = 60 * 60 * 24 * 30; // 30 days
+
+// Set by the middleware on every authenticated request.
+export const EMAIL_HEADER = 'x-dashboard-email';
+export const ROLE_HEADER = 'x-dashboard-role';
+
+export interface Session {
+  email: string;
+  name: string;
+  role: Role;
+}
+
+interface TokenPayload {
+  email: string;
+  version: number;
+  exp: number;
+}
+
+// There is deliberately no default: a missing secret must stop sign-in, not weaken it.
+function sessionSecret() {
+  const secret = process.env.DASHBOARD_SESSION_SECRET;
+  if (!secret || secret.length < 32) {
+    throw new Error('DASHBOARD_SESSION_SECRET must be set to at least 32 characters');
+  }
+  return secret;
+}
+
+function sign(data: string) {
+  return createHmac('sha256', sessionSecret()).update(data).digest('base64url');
+}
+
+export function createSessionToken(account: Account) {
+  const payload: TokenPayload = {
+    email: account.email,
+    version: account.sessionVersion,
+    exp: Math.floor(Date.now() / 1000) + SESSION_MAX_AGE,
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${data}.${sign(data)}`;
+}
+
+function verifySessionToken(token: string): TokenPayload | null {
+  const [data, signature] = token.split('.');
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload: TokenPayload = JSON.parse(Buffer.from(data, 'base64url').toString('utf8'));
+    return payload.exp > Date.now() / 1000 ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+// A token only counts while its account exists, is not revoked and has not been signed out since.
+export async function readSession(token: string | undefined): Promise<Session | null> {
+  if (!token) return null;
+  const payload = verifySessionToken(token);
+  if (!payload) return null;
+
+  const account = await findAccount(payload.email);
+  if (!account || account.revoked || account.sessionVersion !== payload.version) return null;
+
+  return { email: account.email, name: account.name, role: account.role };
+}
+
+export function sessionFromHeaders(headers: Headers): { email: string; role: Role } | null {
+  const email = headers.get(EMAIL_HEADER);
+  const role = headers.get(ROLE_HEADER);
+  return email && isRole(role) ? { email, role } : null;
+}
@@ -0,0 +1,65 @@
+import 'server-only';
+import { supabase } from './supabase';
+import type { StoreCount } from './metrics';
+
+// Head counts run a few stores at a time so a large store list does not flood Supabase.
+const COUNT_BATCH = 10;
+
+// Exact row counts per store, without downloading the rows: one head-only count query per store.
+async function countPerStore(table: 'store_offerings' | 'promotions', storeIds: number[]) {
+  const counts = new Map<number, number>();
+  for (let i = 0; i < storeIds.length; i += COUNT_BATCH) {
+    await Promise.all(storeIds.slice(i, i + COUNT_BATCH).map(async storeId => {
+      let query = supabase
+        .from(table)
+        .select('*', { count: 'exact', head: true })
+        .eq('store_id', storeId);
+      if (table === 'promotions') {
+        query = query.eq('is_active', true);
+      }
+      const { count, error } = await query;
+      if (error) throw error;
+      counts.set(storeId, count ?? 0);
+    }));
+  }
+  return counts;
+}
+
+// Products and active promotions per store, as they are right now.
+export async function liveStoreCounts(): Promise<StoreCount[]> {
+  const { data: stores, error } = await supabase
+    .from('stores')
+    .select('id, store_name, is_active')
+    .order('id');
+  if (error) throw error;
+
+  const ids = stores.map(s => s.id);
+  const products = await countPerStore('store_offerings', ids);
+  const promos = await countPerStore('promotions', ids);
+
+  return stores.map(s => ({
+    id: s.id,
+    name: s.store_name,
+    active: s.is_active,
+    products: products.get(s.id) || 0,
+    promos: promos.get(s.id) || 0,
+  }));
+}
+
+// Every row in store_offerings, and when the newest of them was last written.
+export async function catalogueSummary() {
+  const { count, error } = await supabase
+    .from('store_offerings')
+    .select('*', { count: 'exact', head: true });
+  if (error) throw error;
+
+  const { data: latest, error: latestError } = await supabase
+    .from('store_offerings')
+    .select('updated_at')
+    .not('updated_at', 'is', null)
+    .order('updated_at', { ascending: false })
+    .limit(1);
+  if (latestError) throw latestError;
+
+  return { products: count ?? 0, updatedAt: (latest[0]?.updated_at as string | undefined) ?? null };
+}
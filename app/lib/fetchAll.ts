@@ -0,0 +1,95 @@
+// Supabase caps every select at ~1000 rows (or less, with a lower max-rows setting), so anything
+// that can grow past that has to be read page by page with .range().
+
+const PAGE_SIZE = 1000;
+const MAX_ROWS = 500_000;
+const RETRIES = 2;
+// Pages between two progress lines in the server log
+const PROGRESS_EVERY = 10;
+
+type PageQuery<T> = (from: number, to: number) => PromiseLike<{ data: T[] | null; error: { message: string } | null }>;
+
+export interface FetchProgress {
+  rows: number;
+  pages: number;
+}
+
+export interface FetchMeta {
+  rows: number;
+  pages: number;
+  complete: boolean;
+  errors: string[];
+}
+
+export interface FetchAllResult<T> extends FetchMeta {
+  data: T[];
+}
+
+interface FetchAllOptions {
+  label?: string;
+  pageSize?: number;
+  maxRows?: number;
+  // Called after every page; by default a long read logs a line every few pages
+  onProgress?: (progress: FetchProgress) => void;
+}
+
+function logProgress(label: string) {
+  return ({ rows, pages }: FetchProgress) => {
+    if (pages % PROGRESS_EVERY === 0) console.info(`Reading ${label}: ${rows.toLocaleString()} rows in ${pages} pages`);
+  };
+}
+
+// The query must have a stable order (e.g. received_at + id), otherwise rows can
+// move between pages while we read them. Reading stops at the first empty page: a short page
+// may only mean the server returns fewer rows per request than asked for.
+export async function fetchAll<T>(query: PageQuery<T>, options: FetchAllOptions = {}): Promise<FetchAllResult<T>> {
+  const { label = 'query', pageSize = PAGE_SIZE, maxRows = MAX_ROWS, onProgress = logProgress(label) } = options;
+  const data: T[] = [];
+  let pages = 0;
+
+  while (data.length < maxRows) {
+    const from = data.length;
+    const to = Math.min(from + pageSize, maxRows) - 1;
+
+    let page: T[] | null = null;
+    let lastError = '';
+    for (let attempt = 0; attempt <= RETRIES && page === null; attempt++) {
+      const { data: rows, error } = await query(from, to);
+      if (error) {
+        lastError = error.message;
+      } else {
+        page = rows || [];
+      }
+    }
+
+    if (page === null) {
+      console.error(`Stopped ${label} after ${pages} pages:`, lastError);
+      return { data, rows: data.length, pages, complete: false, errors: [`${label}: ${lastError}`] };
+    }
+
+    if (page.length === 0) {
+      return { data, rows: data.length, pages, complete: true, errors: [] };
+    }
+
+    data.push(...page);
+    pages++;
+    onProgress({ rows: data.length, pages });
+  }
+
+  return {
+    data,
+    rows: data.length,
+    pages,
+    complete: false,
+    errors: [`${label}: stopped at ${maxRows.toLocaleString()} rows`],
+  };
+}
+
+export function mergeMeta(...results: FetchMeta[]): FetchMeta {
+  return {
+    rows: results.reduce((sum, r) => sum + r.rows, 0),
+    pages: results.reduce((sum, r) => sum + r.pages, 0),
+    complete: results.every(r => r.complete),
+    errors: results.flatMap(r => r.errors),
+  };
+}
@@ -0,0 +1,39 @@
+import 'server-only';
+import { supabase } from './supabase';
+import type { AnalyticsEvent } from './metrics';
+
+const UID_CHUNK = 200;
+
+// Which of `users` have any event before `before`. Each round drops the users already found,
+// so this needs one query per batch of returning users rather than reading their full history.
+export async function usersSeenBefore(users: string[], before: string) {
+  const seen = new Set<string>();
+  for (let i = 0; i < users.length; i += UID_CHUNK) {
+    let remaining = users.slice(i, i + UID_CHUNK);
+    while (remaining.length > 0) {
+      const { data, error } = await supabase
+        .from('analytics_events')
+        .select('firebase_uid')
+        .in('firebase_uid', remaining)
+        .lt('received_at', before)
+        .limit(1000);
+      if (error) throw error;
+      if (data.length === 0) break;
+      data.forEach(row => seen.add(row.firebase_uid));
+      remaining = remaining.filter(u => !seen.has(u));
+    }
+  }
+  return seen;
+}
+
+// First event per user among `events` (sorted ascending, starting at `since`), leaving out
+// users who already had events before `since`.
+export async function firstSeenSince(events: Pick<AnalyticsEvent, 'firebase_uid' | 'received_at'>[], since: string) {
+  const anchors = new Map<string, string>();
+  events.forEach(e => {
+    if (!anchors.has(e.firebase_uid)) anchors.set(e.firebase_uid, e.received_at);
+  });
+  const returning = await usersSeenBefore([...anchors.keys()], since);
+  returning.forEach(u => anchors.delete(u));
+  return anchors;
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { activeUsersBetween, uniqueUsers, usersWithEvent } from '../activeUsers';
+import { EVENTS } from './fixtures';
+
+describe('uniqueUsers', () => {
+  it('counts each user once however many events they sent', () => {
+    expect(uniqueUsers(EVENTS)).toEqual(new Set(['u1', 'u2', 'u3']));
+  });
+
+  it('is empty without events', () => {
+    expect(uniqueUsers([]).size).toBe(0);
+  });
+});
+
+describe('usersWithEvent', () => {
+  it('keeps users who sent the event at least once', () => {
+    expect(usersWithEvent(EVENTS, 'basket_results_displayed')).toEqual(new Set(['u1', 'u2']));
+  });
+});
+
+describe('activeUsersBetween', () => {
+  it('includes the start and excludes the end', () => {
+    expect(activeUsersBetween(EVENTS, '2026-10-02T10:00:00.000Z', '2026-10-08T10:00:00.000Z')).toEqual(new Set(['u1', 'u3']));
+  });
+
+  it('runs to the last event without an end', () => {
+    expect(activeUsersBetween(EVENTS, '2026-10-08')).toEqual(new Set(['u1', 'u2']));
+  });
+});
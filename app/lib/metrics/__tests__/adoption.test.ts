@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { featureAdoption } from '../adoption';
+import { EVENTS } from './fixtures';
+
+const featureOf = (eventName: string) => {
+  if (eventName.startsWith('onboarding_')) return 'onboarding';
+  if (eventName === 'basket_results_displayed') return 'basket';
+  return null;
+};
+
+describe('featureAdoption', () => {
+  it('reports users, events and adoption per feature, most used first', () => {
+    expect(featureAdoption(EVENTS, featureOf)).toEqual([
+      { feature: 'onboarding', users: 3, events: 5, adoption_rate: 100 },
+      { feature: 'basket', users: 2, events: 2, adoption_rate: 67 },
+    ]);
+  });
+
+  it('counts users with only unmapped events as active', () => {
+    const events = EVENTS.filter(e => e.firebase_uid !== 'u3' || e.event_name === 'app_launch');
+    const basket = featureAdoption(events, featureOf).find(f => f.feature === 'basket');
+    expect(basket?.adoption_rate).toBe(67);
+  });
+});
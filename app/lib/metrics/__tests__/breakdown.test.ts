@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { OTHER_SEGMENT, UNKNOWN_SEGMENT, groupBySegment, parseBreakdown, segmentUsers, topSegments } from '../breakdown';
+import { CONVERSION_WINDOW_MS, funnelBreakdown } from '../funnels';
+import { EVENTS, event } from './fixtures';
+
+// The fixture users on their platforms; u3 never reports one
+const WITH_PLATFORM = EVENTS.map(e => ({ ...e, platform: { u1: 'ios', u2: 'android' }[e.firebase_uid] ?? null }));
+
+describe('segmentUsers', () => {
+  it('takes the platform from the first event that carries one', () => {
+    const events = [{ ...event('u1', 'app_launch', '2026-10-01T09:00:00.000Z'), platform: 'ios' }, { ...event('u1', 'app_launch', '2026-10-02T09:00:00.000Z'), platform: 'android' }];
+    expect(segmentUsers(events, 'platform').get('u1')).toBe('ios');
+  });
+
+  it('leaves users without a value unknown', () => {
+    expect([...segmentUsers(WITH_PLATFORM, 'platform')]).toEqual([['u1', 'ios'], ['u2', 'android'], ['u3', UNKNOWN_SEGMENT]]);
+  });
+
+  it('takes the last language a user selected', () => {
+    const segments = segmentUsers([
+      event('u1', 'language_selected', '2026-10-01T09:00:00.000Z', { language: 'en' }),
+      event('u1', 'language_selected', '2026-10-01T09:01:00.000Z', { language: 'de' }),
+    ], 'language');
+    expect(segments.get('u1')).toBe('de');
+  });
+
+  it('reads any prop, and app_version from props', () => {
+    const events = [
+      event('u1', 'app_launch', '2026-10-01T09:00:00.000Z', { app_version: '2.1.0', store: 'Lidl' }),
+      event('u1', 'app_launch', '2026-10-02T09:00:00.000Z', { app_version: '2.2.0', store: 'Aldi' }),
+    ];
+    expect(segmentUsers(events, 'app_version').get('u1')).toBe('2.1.0');
+    expect(segmentUsers(events, 'prop:store').get('u1')).toBe('Lidl');
+  });
+});
+
+describe('topSegments', () => {
+  it('folds everything past the largest segments into other', () => {
+    const segments = new Map([['a', 'ios'], ['b', 'ios'], ['c', 'android'], ['d', 'web'], ['e', 'tv']]);
+    expect([...topSegments(segments, 3).values()]).toEqual(['ios', 'ios', 'android', OTHER_SEGMENT, OTHER_SEGMENT]);
+  });
+
+  it('keeps every segment when there are few enough', () => {
+    const segments = new Map([['a', 'ios'], ['b', 'android']]);
+    expect(topSegments(segments, 3)).toBe(segments);
+  });
+
+  it('groups users per segment, largest first', () => {
+    const groups = groupBySegment(new Map([['a', 'android'], ['b', 'ios'], ['c', 'ios']]));
+    expect(groups.map(([segment, users]) => [segment, [...users]])).toEqual([['ios', ['b', 'c']], ['android', ['a']]]);
+  });
+});
+
+describe('funnelBreakdown', () => {
+  it('runs the ordered funnel per segment', () => {
+    const segments = funnelBreakdown(WITH_PLATFORM, [{ event: 'onboarding_started' }, { event: 'onboarding_completed' }], CONVERSION_WINDOW_MS['1d'], 'platform');
+    expect(segments.map(s => [s.segment, s.users, s.conversion])).toEqual([
+      ['ios', [1, 1], [100, 100]],
+      ['android', [1, 0], [100, 0]],
+      [UNKNOWN_SEGMENT, [1, 0], [100, 0]],
+    ]);
+  });
+});
+
+describe('parseBreakdown', () => {
+  it('accepts the known dimensions and prop:<name>', () => {
+    expect(parseBreakdown('platform')).toBe('platform');
+    expect(parseBreakdown('prop:store')).toBe('prop:store');
+    expect(parseBreakdown('prop:')).toBeNull();
+    expect(parseBreakdown('device')).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { FIRST_SESSION, UNSET, nextSessionStates, sessionsLeadingTo } from '../chat';
+import { EVENTS } from './fixtures';
+import type { ChatSession } from '../types';
+
+function session(id: string, user_id: string | undefined, created_at: string, state: string | null): ChatSession {
+  return { id, user_id, created_at, state };
+}
+
+// u1 chats three times, u2 once; s5 and s6 have no user
+const SESSIONS: ChatSession[] = [
+  session('s2', 'u1', '2026-10-02T10:01:00.000Z', 'completed'),
+  session('s1', 'u1', '2026-10-01T09:06:00.000Z', 'abandoned'),
+  session('s3', 'u1', '2026-10-08T10:01:00.000Z', null),
+  session('s4', 'u2', '2026-10-01T12:05:00.000Z', 'completed'),
+  session('s5', undefined, '2026-10-01T13:00:00.000Z', 'abandoned'),
+  session('s6', undefined, '2026-10-01T14:00:00.000Z', 'completed'),
+];
+
+describe('nextSessionStates', () => {
+  it("pairs each session's end state with the same user's next session, in time order", () => {
+    const pairs = nextSessionStates(SESSIONS).map(({ from, to, count }) => ({ from, to, count }));
+    expect(pairs).toEqual(expect.arrayContaining([
+      { from: FIRST_SESSION, to: 'abandoned', count: 1 },
+      { from: FIRST_SESSION, to: 'completed', count: 1 },
+      { from: 'abandoned', to: 'completed', count: 1 },
+      { from: 'completed', to: UNSET, count: 1 },
+    ]));
+    expect(pairs).toHaveLength(4);
+  });
+
+  it('leaves out sessions without a user instead of chaining them together', () => {
+    const pairs = nextSessionStates(SESSIONS.filter(s => !s.user_id));
+    expect(pairs).toEqual([]);
+  });
+
+  it('reports the share of sessions leaving each state', () => {
+    const firsts = nextSessionStates(SESSIONS).filter(t => t.from === FIRST_SESSION);
+    expect(firsts.map(t => t.share)).toEqual([50, 50]);
+  });
+});
+
+describe('sessionsLeadingTo', () => {
+  const DAY = 24 * 60 * 60 * 1000;
+
+  it('keeps sessions whose user sent the event after the session started', () => {
+    // u1 launches again 25 hours after s1, and one minute before s2 starts
+    expect([...sessionsLeadingTo(SESSIONS, EVENTS, 'app_launch', 2 * DAY)]).toEqual(['s1']);
+  });
+
+  it('only counts events within the window', () => {
+    // Baskets come 4 minutes after s1 and 25 minutes after s4
+    expect([...sessionsLeadingTo(SESSIONS, EVENTS, 'basket_results_displayed', 60 * 60 * 1000)].sort()).toEqual(['s1', 's4']);
+    expect(sessionsLeadingTo(SESSIONS, EVENTS, 'basket_results_displayed', 3 * 60 * 1000).size).toBe(0);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { cohortMatrix } from '../cohorts';
+import { ANCHORS, EVENTS, NOW } from './fixtures';
+
+describe('cohortMatrix', () => {
+  it('builds a weekly retention triangle from each user\'s anchor week', () => {
+    const rows = cohortMatrix(EVENTS, ANCHORS, 'week', 4, NOW);
+    expect(rows.map(row => row.start.toISOString().slice(0, 10))).toEqual(['2026-09-28', '2026-10-05', '2026-10-12', '2026-10-19']);
+    expect(rows.map(row => row.users)).toEqual([3, 0, 0, 0]);
+    // u1 returns in week 1, u2 in week 2, nobody in week 3
+    expect(rows[0].retention).toEqual([100, 33, 33, 0]);
+    expect(rows[1].retention).toEqual([0, 0, 0, null]);
+    expect(rows[3].retention).toEqual([0, null, null, null]);
+  });
+
+  it('puts users anchored before the first period in no cohort', () => {
+    const rows = cohortMatrix(EVENTS, ANCHORS, 'week', 2, NOW);
+    expect(rows.map(row => row.users)).toEqual([0, 0]);
+  });
+
+  it('splits cohorts by day', () => {
+    const rows = cohortMatrix(EVENTS, ANCHORS, 'day', 20, NOW);
+    expect(rows[0].start.toISOString().slice(0, 10)).toBe('2026-10-01');
+    expect(rows[0].users).toBe(2);
+    expect(rows[0].retention.slice(0, 3)).toEqual([100, 50, 0]);
+    expect(rows[2].users).toBe(1);
+  });
+});
@@ -0,0 +1,34 @@
+import type { AnalyticsEvent, EventProps } from '../types';
+
+export function event(firebase_uid: string, event_name: string, received_at: string, props?: EventProps): AnalyticsEvent {
+  return { firebase_uid, event_name, received_at, props: props ?? null };
+}
+
+// Three users over the first half of October 2026, sorted by received_at:
+// u1 onboards and gets a basket in one go, then comes back on day 1 and day 7.
+// u2 starts onboarding, skips completing it, gets a basket and comes back on day 14.
+// u3 fires onboarding_completed before onboarding_started and never returns.
+export const EVENTS: AnalyticsEvent[] = [
+  event('u1', 'app_launch', '2026-10-01T09:00:00.000Z'),
+  event('u1', 'onboarding_started', '2026-10-01T09:01:00.000Z'),
+  event('u1', 'onboarding_completed', '2026-10-01T09:05:00.000Z'),
+  event('u1', 'basket_results_displayed', '2026-10-01T09:10:00.000Z', { savings_cents: 500 }),
+  event('u2', 'app_launch', '2026-10-01T12:00:00.000Z'),
+  event('u2', 'onboarding_started', '2026-10-01T12:01:00.000Z'),
+  event('u2', 'basket_results_displayed', '2026-10-01T12:30:00.000Z', { savings_cents: 100 }),
+  event('u1', 'app_launch', '2026-10-02T10:00:00.000Z'),
+  event('u3', 'app_launch', '2026-10-03T08:00:00.000Z'),
+  event('u3', 'onboarding_completed', '2026-10-03T08:10:00.000Z'),
+  event('u3', 'onboarding_started', '2026-10-03T08:20:00.000Z'),
+  event('u1', 'app_launch', '2026-10-08T10:00:00.000Z'),
+  event('u2', 'app_launch', '2026-10-15T10:00:00.000Z'),
+];
+
+// Each user's first event
+export const ANCHORS = new Map([
+  ['u1', '2026-10-01T09:00:00.000Z'],
+  ['u2', '2026-10-01T12:00:00.000Z'],
+  ['u3', '2026-10-03T08:00:00.000Z'],
+]);
+
+export const NOW = new Date('2026-10-20T12:00:00.000Z');
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { CONVERSION_WINDOW_MS, completionRate, conversionEnd, funnelSummary, orderedFunnel, parseConversionWindow } from '../funnels';
+import { EVENTS, NOW } from './fixtures';
+
+const STEPS = [
+  { event: 'onboarding_started' },
+  { event: 'onboarding_completed' },
+  { event: 'basket_results_displayed' },
+];
+
+describe('completionRate', () => {
+  it('divides distinct finishers by distinct starters, ignoring order', () => {
+    // u1 and u3 completed, all three started
+    expect(completionRate(EVENTS, 'onboarding_started', 'onboarding_completed')).toBe(67);
+  });
+
+  it('is 0 when nobody started', () => {
+    expect(completionRate(EVENTS, 'never_sent', 'onboarding_completed')).toBe(0);
+  });
+});
+
+describe('orderedFunnel', () => {
+  it('only moves users on when the steps happen in order', () => {
+    const funnel = orderedFunnel(EVENTS, STEPS, CONVERSION_WINDOW_MS['1d']);
+    expect(funnel.map(step => step.users)).toEqual([3, 1, 1]);
+    expect(funnel.map(step => step.dropoff)).toEqual([0, 2, 0]);
+    expect(funnel.map(step => step.count)).toEqual([3, 2, 2]);
+  });
+
+  it('reports the median time from the previous step', () => {
+    const funnel = orderedFunnel(EVENTS, STEPS, CONVERSION_WINDOW_MS['1d']);
+    expect(funnel.map(step => step.medianMs)).toEqual([null, 4 * 60_000, 5 * 60_000]);
+  });
+
+  it('lists users stuck at each step, most recent first', () => {
+    const [started, completed, basket] = orderedFunnel(EVENTS, STEPS, CONVERSION_WINDOW_MS['1d']);
+    expect(started.stuck).toEqual([
+      { user: 'u3', at: '2026-10-03T08:20:00.000Z' },
+      { user: 'u2', at: '2026-10-01T12:01:00.000Z' },
+    ]);
+    expect(completed.stuck).toEqual([]);
+    expect(basket.stuck).toEqual([]);
+  });
+
+  it('drops steps that fall outside the conversion window', () => {
+    // u1's basket comes 9 minutes after starting
+    const funnel = orderedFunnel(EVENTS, STEPS, 6 * 60_000);
+    expect(funnel.map(step => step.users)).toEqual([3, 1, 0]);
+  });
+
+  it('narrows steps down by their prop filters', () => {
+    const funnel = orderedFunnel(EVENTS, [
+      { event: 'app_launch' },
+      { event: 'basket_results_displayed', filters: [{ prop: 'savings_cents', op: '>=', value: 300 }] },
+    ], CONVERSION_WINDOW_MS['1d']);
+    expect(funnel.map(step => step.users)).toEqual([3, 1]);
+  });
+
+  it('ignores starts on or after startsBefore', () => {
+    const funnel = orderedFunnel(EVENTS, STEPS, CONVERSION_WINDOW_MS['1d'], '2026-10-02');
+    expect(funnel.map(step => step.users)).toEqual([2, 1, 1]);
+  });
+});
+
+describe('funnelSummary', () => {
+  const styles = STEPS.map((step, index) => ({ name: step.event, shortName: `Step ${index + 1}`, fill: '#000' }));
+
+  it('reports drop-off against the previous step and names the largest', () => {
+    const { funnelData, biggestDropoff, biggestDropoffPct } = funnelSummary(orderedFunnel(EVENTS, STEPS, CONVERSION_WINDOW_MS['1d']), styles);
+    expect(funnelData.map(step => step.dropoffPct)).toEqual(['', '67%', '0%']);
+    expect(biggestDropoff).toBe('Step 1 → Step 2');
+    expect(biggestDropoffPct).toBe(67);
+  });
+
+  it('keeps the full stuck count while listing a limited number of users', () => {
+    const [started] = funnelSummary(orderedFunnel(EVENTS, STEPS, CONVERSION_WINDOW_MS['1d']), styles).funnelData;
+    expect(started.stuckCount).toBe(2);
+    expect(started.stuck.map(s => s.user)).toEqual(['u3', 'u2']);
+  });
+});
+
+describe('parseConversionWindow', () => {
+  it('keeps a known window and falls back to a day', () => {
+    expect(parseConversionWindow('7d')).toBe('7d');
+    expect(parseConversionWindow('2d')).toBe('1d');
+    expect(parseConversionWindow(null)).toBe('1d');
+  });
+});
+
+describe('conversionEnd', () => {
+  it('extends the period by the window, but not past now', () => {
+    expect(conversionEnd('2026-10-10T00:00:00.000Z', CONVERSION_WINDOW_MS['1d'], NOW)).toBe('2026-10-11T00:00:00.000Z');
+    expect(conversionEnd('2026-10-20T00:00:00.000Z', CONVERSION_WINDOW_MS['1d'], NOW)).toBe(NOW.toISOString());
+  });
+});
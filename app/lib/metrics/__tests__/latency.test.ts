@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SLO, latencyDistribution, latencySeries, parseLatencyInterval, parseSlo } from '../latency';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Ten replies at 09:xx taking 100ms to 1000ms, then ten quick ones at 10:xx
+const MESSAGES = [
+  ...Array.from({ length: 10 }, (_, i) => ({ created_at: `2026-10-01T09:${10 + i}:00.000Z`, processing_ms: (i + 1) * 100 })),
+  ...Array.from({ length: 10 }, (_, i) => ({ created_at: `2026-10-01T10:${10 + i}:00.000Z`, processing_ms: 100 })),
+];
+
+describe('latencySeries', () => {
+  it('computes percentiles per hour, oldest first', () => {
+    const points = latencySeries([...MESSAGES].reverse(), 'hour', DEFAULT_SLO);
+    expect(points.map(p => [p.date, p.count, p.avg, p.p50, p.p95, p.p99])).toEqual([
+      ['Oct 01 09:00', 10, 550, 600, 1000, 1000],
+      ['Oct 01 10:00', 10, 100, 100, 100, 100],
+    ]);
+  });
+
+  it('puts the whole range into one daily point', () => {
+    const points = latencySeries(MESSAGES, 'day', DEFAULT_SLO);
+    expect(points.map(p => [p.date, p.count, p.p50])).toEqual([['Oct 01', 20, 100]]);
+  });
+
+  it('counts breaches of the SLO threshold and burns the budget', () => {
+    // 90% within 900ms over 20 replies allows 2 slow ones; only the 1000ms reply breaches
+    const points = latencySeries(MESSAGES, 'hour', { thresholdMs: 900, target: 90 });
+    expect(points.map(p => [p.slow, p.burnRate, p.budgetRemaining])).toEqual([[1, 1, 50], [0, 0, 50]]);
+  });
+
+  it('goes negative once the budget is overspent', () => {
+    const points = latencySeries(MESSAGES, 'hour', { thresholdMs: 500, target: 90 });
+    expect(points.map(p => [p.slow, p.burnRate, p.budgetRemaining])).toEqual([[5, 5, -150], [0, 0, -150]]);
+  });
+});
+
+describe('latencyDistribution', () => {
+  it('counts each reply into its bucket', () => {
+    expect(latencyDistribution(MESSAGES).map(b => b.count)).toEqual([12, 2, 5, 1, 0, 0, 0]);
+  });
+});
+
+describe('parseLatencyInterval', () => {
+  it('keeps a valid interval', () => {
+    expect(parseLatencyInterval('day', DAY_MS)).toBe('day');
+    expect(parseLatencyInterval('hour', 30 * DAY_MS)).toBe('hour');
+  });
+
+  it('defaults to hourly for two days or less, daily beyond', () => {
+    expect(parseLatencyInterval(null, 2 * DAY_MS)).toBe('hour');
+    expect(parseLatencyInterval('week', 2 * DAY_MS + 1)).toBe('day');
+  });
+});
+
+describe('parseSlo', () => {
+  it('falls back to the default for bad values', () => {
+    expect(parseSlo('1500', '99')).toEqual({ thresholdMs: 1500, target: 99 });
+    expect(parseSlo('0', '42')).toEqual(DEFAULT_SLO);
+    expect(parseSlo('', null)).toEqual(DEFAULT_SLO);
+    expect(parseSlo('60001', '95')).toEqual(DEFAULT_SLO);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { histogram, percentile, rate } from '../math';
+
+describe('percentile', () => {
+  const sorted = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+  it('takes the nearest rank', () => {
+    expect(percentile(sorted, 0.5)).toBe(6);
+    expect(percentile(sorted, 0.95)).toBe(10);
+    expect(percentile(sorted, 0)).toBe(1);
+  });
+
+  it('stays inside the list at p = 1', () => {
+    expect(percentile(sorted, 1)).toBe(10);
+  });
+
+  it('is 0 for an empty list', () => {
+    expect(percentile([], 0.5)).toBe(0);
+  });
+});
+
+describe('rate', () => {
+  it('rounds to a whole percentage and is 0 without a whole', () => {
+    expect(rate(1, 3)).toBe(33);
+    expect(rate(2, 3)).toBe(67);
+    expect(rate(1, 0)).toBe(0);
+  });
+});
+
+describe('histogram', () => {
+  it('counts each value into the last bucket it reaches', () => {
+    const buckets = [{ label: 'low', min: 0 }, { label: 'mid', min: 10 }, { label: 'high', min: 100 }];
+    expect(histogram([0, 9, 10, 99, 100, 5000, -1], buckets)).toEqual([
+      { label: 'low', count: 2 },
+      { label: 'mid', count: 2 },
+      { label: 'high', count: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { CHURN_ANCHOR, MAX_PATH_NODES, OTHER_STEP, parsePathSteps, pathGraph } from '../paths';
+import { EVENTS, event } from './fixtures';
+import type { PathGraph } from '../types';
+
+const WINDOW = {
+  from: '2026-10-01T00:00:00.000Z',
+  to: '2026-10-20T00:00:00.000Z',
+  churnedBefore: '2026-10-13T12:00:00.000Z',
+  labelOf: (name: string) => name,
+};
+
+// Links as "column:name > column:name = users", easier to read than node indexes
+function links(graph: PathGraph) {
+  const node = (i: number) => `${graph.nodes[i].step}:${graph.nodes[i].name}`;
+  return graph.links.map(l => `${node(l.source)} > ${node(l.target)} = ${l.value}`).sort();
+}
+
+describe('pathGraph', () => {
+  it('walks forward from the first anchor event', () => {
+    const graph = pathGraph(EVENTS, { ...WINDOW, anchor: 'onboarding_started', direction: 'after', steps: 2 });
+    expect(graph.users).toBe(3);
+    expect(links(graph)).toEqual([
+      '0:onboarding_started > 1:No more events = 1',
+      '0:onboarding_started > 1:basket_results_displayed = 1',
+      '0:onboarding_started > 1:onboarding_completed = 1',
+      '1:basket_results_displayed > 2:app_launch = 1',
+      '1:onboarding_completed > 2:basket_results_displayed = 1',
+    ]);
+  });
+
+  it('walks backward to what led up to the anchor', () => {
+    const graph = pathGraph(EVENTS, { ...WINDOW, anchor: 'basket_results_displayed', direction: 'before', steps: 2 });
+    expect(links(graph)).toEqual([
+      '-1:onboarding_completed > 0:basket_results_displayed = 1',
+      '-1:onboarding_started > 0:basket_results_displayed = 1',
+      '-2:app_launch > -1:onboarding_started = 1',
+      '-2:onboarding_started > -1:onboarding_completed = 1',
+    ]);
+  });
+
+  it('collapses repeats of the same step', () => {
+    const graph = pathGraph([
+      event('u1', 'basket_viewed', '2026-10-05T10:00:00.000Z'),
+      event('u1', 'item_added', '2026-10-05T10:01:00.000Z'),
+      event('u1', 'item_added', '2026-10-05T10:02:00.000Z'),
+      event('u1', 'shopping_list_saved', '2026-10-05T10:03:00.000Z'),
+    ], { ...WINDOW, anchor: 'basket_viewed', direction: 'after', steps: 2 });
+    expect(links(graph)).toEqual([
+      '0:basket_viewed > 1:item_added = 1',
+      '1:item_added > 2:shopping_list_saved = 1',
+    ]);
+  });
+
+  it('anchors the churn path on the last event of users who went quiet', () => {
+    // u2 was last seen on Oct 15, too recently to count as churned
+    const graph = pathGraph(EVENTS, { ...WINDOW, anchor: CHURN_ANCHOR, direction: 'after', steps: 1 });
+    expect(graph.users).toBe(2);
+    expect(links(graph)).toEqual([
+      '-1:app_launch > 0:Churned = 1',
+      '-1:onboarding_started > 0:Churned = 1',
+    ]);
+  });
+
+  it(`folds all but the ${MAX_PATH_NODES} busiest steps of a column into ${OTHER_STEP}`, () => {
+    // Two users each for the first MAX_PATH_NODES next steps, one each for two more
+    const users = Array.from({ length: MAX_PATH_NODES + 2 }, (_, n) => (n < MAX_PATH_NODES ? [`a${n}`, `b${n}`] : [`a${n}`]));
+    const events = users.flatMap((names, n) => names.flatMap(user => [
+      event(user, 'basket_viewed', '2026-10-05T10:00:00.000Z'),
+      event(user, `event_${n}`, '2026-10-05T10:01:00.000Z'),
+    ]));
+    const graph = pathGraph(events, { ...WINDOW, anchor: 'basket_viewed', direction: 'after', steps: 1 });
+    const firstStep = graph.nodes.filter(n => n.step === 1).map(n => n.name);
+    expect(firstStep).toHaveLength(MAX_PATH_NODES + 1);
+    expect(firstStep).toContain(OTHER_STEP);
+    expect(links(graph)).toContain(`0:basket_viewed > 1:${OTHER_STEP} = 2`);
+  });
+});
+
+describe('parsePathSteps', () => {
+  it('falls back to the default outside 1 to MAX_PATH_STEPS', () => {
+    expect(parsePathSteps('5')).toBe(5);
+    expect(parsePathSteps('6')).toBe(3);
+    expect(parsePathSteps(null)).toBe(3);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { promotionExpiry, quietStores, weeklyArrivals } from '../promotions';
+import { NOW } from './fixtures';
+
+describe('promotionExpiry', () => {
+  const promos = [
+    { store_id: 1, valid_until: '2026-10-20' },
+    { store_id: 1, valid_until: '2026-10-19' },
+    { store_id: 1, valid_until: '2026-10-22' },
+    { store_id: 1, valid_until: '2026-10-26T10:00:00.000Z' },
+    { store_id: 1, valid_until: null },
+    { store_id: 2, valid_until: null },
+  ];
+
+  it('counts a promotion ending today as expiring, not stale', () => {
+    expect(promotionExpiry(promos, NOW).get(1)).toEqual({ expiring: [1, 2, 3], stale: 1 });
+  });
+
+  it('goes stale once its last day is over', () => {
+    const expiry = promotionExpiry([{ store_id: 1, valid_until: '2026-10-20' }], new Date('2026-10-21T00:00:00.000Z'));
+    expect(expiry.get(1)).toEqual({ expiring: [0, 0, 0], stale: 1 });
+  });
+
+  it('skips promotions without an end date', () => {
+    expect(promotionExpiry(promos, NOW).has(2)).toBe(false);
+  });
+});
+
+describe('weeklyArrivals', () => {
+  it('counts promotions into the last eight Monday-based weeks', () => {
+    const arrivals = weeklyArrivals([
+      { store_id: 1, created_at: '2026-08-30T23:00:00.000Z' },
+      { store_id: 1, created_at: '2026-08-31T00:00:00.000Z' },
+      { store_id: 1, created_at: '2026-10-19T08:00:00.000Z' },
+      { store_id: 1, created_at: '2026-10-20T09:00:00.000Z' },
+      { store_id: 2, created_at: '2026-10-12T09:00:00.000Z' },
+    ], NOW);
+    expect(arrivals.get(1)).toEqual([1, 0, 0, 0, 0, 0, 0, 2]);
+    expect(arrivals.get(2)).toEqual([0, 0, 0, 0, 0, 0, 1, 0]);
+  });
+});
+
+describe('quietStores', () => {
+  it('lists stores whose promotions stopped arriving in the last week', () => {
+    const quiet = quietStores([
+      { store_id: 1, created_at: '2026-10-01T09:00:00.000Z' },
+      { store_id: 1, created_at: '2026-10-15T09:00:00.000Z' },
+      { store_id: 2, created_at: '2026-10-01T09:00:00.000Z' },
+      { store_id: 2, created_at: '2026-09-20T09:00:00.000Z' },
+      // Nothing inside the lookback: not a missed refresh, just an inactive store
+      { store_id: 3, created_at: '2026-09-10T09:00:00.000Z' },
+    ], NOW);
+    expect([...quiet]).toEqual([[2, '2026-10-01T09:00:00.000Z']]);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { retentionCurve, retentionRate } from '../retention';
+import { ANCHORS, EVENTS, NOW } from './fixtures';
+
+describe('retentionRate', () => {
+  it('is the share of the cohort active again in the window', () => {
+    expect(retentionRate(EVENTS, new Set(['u1', 'u2']), '2026-10-08')).toBe(100);
+    expect(retentionRate(EVENTS, new Set(['u1', 'u2', 'u3']), '2026-10-08')).toBe(67);
+    expect(retentionRate(EVENTS, new Set(['u1', 'u2', 'u3']), '2026-10-02', '2026-10-03')).toBe(33);
+  });
+
+  it('is 0 for an empty cohort', () => {
+    expect(retentionRate(EVENTS, new Set(), '2026-10-01')).toBe(0);
+  });
+});
+
+describe('retentionCurve', () => {
+  it('counts users active on exactly day N in classic mode', () => {
+    expect(retentionCurve(EVENTS, ANCHORS, 'classic', NOW)).toEqual([
+      { day: 1, eligible: 3, retained: 1, rate: 33 },
+      { day: 7, eligible: 3, retained: 1, rate: 33 },
+      { day: 14, eligible: 3, retained: 1, rate: 33 },
+      { day: 30, eligible: 0, retained: 0, rate: null },
+    ]);
+  });
+
+  it('counts users active on day N or later in rolling mode', () => {
+    expect(retentionCurve(EVENTS, ANCHORS, 'rolling', NOW).map(point => point.rate)).toEqual([67, 67, 33, null]);
+  });
+
+  it('leaves out users whose day N is not over yet', () => {
+    // u3 joined on the 3rd, so their day 14 ends on the 18th
+    const early = new Date('2026-10-16T12:00:00.000Z');
+    expect(retentionCurve(EVENTS, ANCHORS, 'classic', early, [14])).toEqual([
+      { day: 14, eligible: 2, retained: 1, rate: 50 },
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { RETRY_WINDOW_MS, dedupeRetries, savingsBy, savingsEvents } from '../savings';
+import { event } from './fixtures';
+
+const BASKETS = [
+  event('u1', 'basket_results_displayed', '2026-10-01T09:00:00.000Z', { savings_cents: 500 }),
+  // The same upload sent again 30 seconds later
+  event('u1', 'basket_results_displayed', '2026-10-01T09:00:30.000Z', { savings_cents: 500 }),
+  event('u1', 'basket_results_displayed', '2026-10-01T09:10:00.000Z', { savings_cents: 500 }),
+  event('u2', 'basket_results_displayed', '2026-10-01T09:00:10.000Z', { savings_cents: 500 }),
+  event('u2', 'basket_results_displayed', '2026-10-01T09:00:20.000Z', { savings_cents: 200 }),
+  event('u3', 'basket_results_displayed', '2026-10-01T10:00:00.000Z'),
+];
+
+const OTHER = [
+  event('u1', 'shopping_list_saved', '2026-10-01T09:11:00.000Z', { savings_cents: 400 }),
+  event('u1', 'shopping_list_saved', '2026-10-01T09:11:05.000Z', { savings_cents: 400 }),
+  event('u2', 'shopping_list_saved', '2026-10-01T09:20:00.000Z', { savings_cents: 150 }),
+  // Carries the prop but is not a savings event
+  event('u1', 'swap_accepted', '2026-10-01T09:12:00.000Z', { savings_cents: 9999 }),
+];
+
+describe('dedupeRetries', () => {
+  it('drops a repeat of the same user, event and props within the retry window', () => {
+    const kept = dedupeRetries(BASKETS);
+    expect(kept).toHaveLength(5);
+    expect(kept).not.toContain(BASKETS[1]);
+  });
+
+  it('keeps repeats outside the window, from other users or with other props', () => {
+    const kept = dedupeRetries(BASKETS);
+    expect(kept).toContain(BASKETS[2]);
+    expect(kept).toContain(BASKETS[3]);
+    expect(kept).toContain(BASKETS[4]);
+  });
+
+  it('measures the window from the previous copy, so a chain of retries collapses to one', () => {
+    const at = (ms: number) => new Date(Date.parse('2026-10-01T09:00:00.000Z') + ms).toISOString();
+    const chain = [0, RETRY_WINDOW_MS, 2 * RETRY_WINDOW_MS].map(ms => event('u1', 'basket_results_displayed', at(ms), { savings_cents: 500 }));
+    expect(dedupeRetries(chain)).toEqual([chain[0]]);
+  });
+
+  it('keeps the input order', () => {
+    const shuffled = [BASKETS[4], BASKETS[1], BASKETS[0]];
+    expect(dedupeRetries(shuffled)).toEqual([BASKETS[4], BASKETS[0]]);
+  });
+});
+
+describe('savingsEvents', () => {
+  it('reads only the definition\'s event', () => {
+    const shown = savingsEvents([...BASKETS, ...OTHER], 'shown');
+    expect(shown.every(e => e.event_name === 'basket_results_displayed')).toBe(true);
+    expect(shown).toHaveLength(5);
+  });
+});
+
+describe('savingsBy', () => {
+  const events = [...BASKETS, ...OTHER];
+
+  it('sums shown savings over unique baskets, leaving out other events with savings_cents', () => {
+    // 500 + 500 + 500 + 200 + 0; the retry and swap_accepted's 9999 are left out
+    expect(savingsBy(events, 'shown')).toBe(1700);
+  });
+
+  it('sums saved lists on their own, retries removed', () => {
+    expect(savingsBy(events, 'saved_lists')).toBe(550);
+  });
+
+  it('averages shown savings per unique basket, counting baskets without savings as 0', () => {
+    expect(savingsBy(events, 'per_basket')).toBe(Math.round(savingsBy(events, 'shown') / 5));
+    expect(savingsBy(events, 'per_basket')).toBe(340);
+  });
+
+  it('is 0 without events', () => {
+    expect(savingsBy([], 'shown')).toBe(0);
+    expect(savingsBy([], 'per_basket')).toBe(0);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { diffSchema, inferSchema, valueType } from '../schema';
+import { EVENTS, event } from './fixtures';
+
+describe('inferSchema', () => {
+  it('counts value types per prop, most frequent event first', () => {
+    const schema = inferSchema([
+      ...EVENTS,
+      event('u1', 'basket_results_displayed', '2026-10-09T10:00:00.000Z', { savings_cents: null, store: 'Lidl' }),
+    ]);
+    expect(schema[0]).toEqual({ event: 'app_launch', count: 6, props: {} });
+    expect(schema.find(s => s.event === 'basket_results_displayed')?.props).toEqual({
+      savings_cents: { number: 2, null: 1 },
+      store: { string: 1 },
+    });
+  });
+
+  it('names arrays and objects apart from other values', () => {
+    expect([[], {}, 'a', 1, true, null].map(valueType)).toEqual(['array', 'object', 'string', 'number', 'boolean', 'null']);
+  });
+});
+
+describe('diffSchema', () => {
+  const previous = inferSchema([
+    event('u1', 'basket_results_displayed', '2026-09-20T10:00:00.000Z', { savings_cents: 100, store: 'Lidl' }),
+    event('u1', 'shopping_list_viewed', '2026-09-20T10:05:00.000Z'),
+  ]);
+
+  it('flags new and removed events and props, and props that changed type', () => {
+    const drift = diffSchema(inferSchema([
+      event('u1', 'basket_results_displayed', '2026-10-05T10:00:00.000Z', { savings_cents: '100', currency: 'EUR' }),
+      event('u1', 'item_added', '2026-10-05T10:05:00.000Z'),
+    ]), previous);
+    const byEvent = new Map(drift.map(d => [d.event, d]));
+    expect(byEvent.get('item_added')?.status).toBe('new');
+    expect(byEvent.get('shopping_list_viewed')?.status).toBe('removed');
+    expect(byEvent.get('basket_results_displayed')?.status).toBe('changed');
+    expect(byEvent.get('basket_results_displayed')?.props.map(p => [p.prop, p.status])).toEqual([
+      ['currency', 'new'],
+      ['savings_cents', 'changed'],
+      ['store', 'removed'],
+    ]);
+  });
+
+  it('does not flag a prop that only gained null values', () => {
+    const drift = diffSchema(inferSchema([
+      event('u1', 'basket_results_displayed', '2026-10-05T10:00:00.000Z', { savings_cents: 100, store: 'Lidl' }),
+      event('u2', 'basket_results_displayed', '2026-10-05T11:00:00.000Z', { savings_cents: null, store: 'Aldi' }),
+      event('u1', 'shopping_list_viewed', '2026-10-05T10:05:00.000Z'),
+    ]), previous);
+    const basket = drift.find(d => d.event === 'basket_results_displayed')!;
+    expect(basket.status).toBe('unchanged');
+    expect(basket.props.find(p => p.prop === 'savings_cents')).toMatchObject({ status: 'unchanged', types: ['null', 'number'] });
+  });
+
+  it('still flags a prop that was only ever null and now has values', () => {
+    const before = inferSchema([event('u1', 'item_added', '2026-09-20T10:00:00.000Z', { quantity: null })]);
+    const now = inferSchema([event('u1', 'item_added', '2026-10-05T10:00:00.000Z', { quantity: 2 })]);
+    expect(diffSchema(now, before)[0].props[0].status).toBe('changed');
+  });
+});
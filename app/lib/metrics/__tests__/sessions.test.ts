@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { parseSessionGap, sessionLengthMs, sessionize } from '../sessions';
+import { EVENTS, event } from './fixtures';
+
+describe('sessionize', () => {
+  it('opens a session at every app_launch', () => {
+    const u1 = sessionize(EVENTS).filter(s => s.user === 'u1');
+    expect(u1.map(s => [s.start, s.events, s.launched])).toEqual([
+      ['2026-10-01T09:00:00.000Z', 4, true],
+      ['2026-10-02T10:00:00.000Z', 1, true],
+      ['2026-10-08T10:00:00.000Z', 1, true],
+    ]);
+  });
+
+  it('opens a session after more than the idle gap', () => {
+    // u2 is silent for 29 minutes between starting onboarding and getting a basket
+    const [first] = sessionize(EVENTS).filter(s => s.user === 'u2');
+    expect(first.events).toBe(3);
+
+    const split = sessionize(EVENTS, 15).filter(s => s.user === 'u2' && s.start < '2026-10-02');
+    expect(split.map(s => [s.start, s.end, s.launched])).toEqual([
+      ['2026-10-01T12:00:00.000Z', '2026-10-01T12:01:00.000Z', true],
+      ['2026-10-01T12:30:00.000Z', '2026-10-01T12:30:00.000Z', false],
+    ]);
+  });
+
+  it('opens a session without a launch for users whose launch is missing', () => {
+    const [session] = sessionize([event('u4', 'basket_viewed', '2026-10-05T10:00:00.000Z')]);
+    expect(session).toMatchObject({ user: 'u4', events: 1, launched: false });
+  });
+
+  it('orders events per user and sessions by start, whatever the input order', () => {
+    const sessions = sessionize([...EVENTS].reverse());
+    expect(sessions).toEqual(sessionize(EVENTS));
+    expect(sessions.map(s => s.start)).toEqual([...sessions.map(s => s.start)].sort());
+    expect(sessions).toHaveLength(6);
+    expect(sessionLengthMs(sessions[0])).toBe(10 * 60_000);
+  });
+});
+
+describe('parseSessionGap', () => {
+  it('falls back to the default for anything but whole minutes up to a day', () => {
+    expect(parseSessionGap('15')).toBe(15);
+    expect(parseSessionGap('0')).toBe(30);
+    expect(parseSessionGap('2.5')).toBe(30);
+    expect(parseSessionGap(null)).toBe(30);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { catalogueDrops, emptyStores } from '../stores';
+import type { StoreCount } from '../types';
+
+function store(id: number, products: number, promos: number, active = true): StoreCount {
+  return { id, name: `Store ${id}`, active, products, promos };
+}
+
+function snapshot(day: string, stores: StoreCount[]) {
+  return { day, at: `${day}T06:00:00.000Z`, stores };
+}
+
+describe('catalogueDrops', () => {
+  const snapshots = [
+    snapshot('2026-10-01', [store(1, 100, 30), store(2, 10, 0)]),
+    // Store 1 loses two thirds of its promos but only 40% of its products; store 2 is too small to count
+    snapshot('2026-10-02', [store(1, 60, 10), store(2, 2, 0)]),
+    // Store 1 is missing from this snapshot
+    snapshot('2026-10-03', [store(2, 3, 0)]),
+    snapshot('2026-10-04', [store(1, 30, 10), store(2, 3, 0)]),
+  ];
+
+  it('flags falls of half or more against the previous snapshot, newest first', () => {
+    expect(catalogueDrops(snapshots)).toEqual([
+      { storeId: 1, store: 'Store 1', metric: 'products', day: '2026-10-04', before: 60, after: 30, change: -50 },
+      { storeId: 1, store: 'Store 1', metric: 'promos', day: '2026-10-02', before: 30, after: 10, change: -67 },
+    ]);
+  });
+
+  it('does not read a store missing from a snapshot as a drop to zero', () => {
+    expect(catalogueDrops(snapshots).filter(d => d.day === '2026-10-03')).toEqual([]);
+  });
+
+  it('needs two snapshots to compare', () => {
+    expect(catalogueDrops(snapshots.slice(0, 1))).toEqual([]);
+    expect(catalogueDrops([])).toEqual([]);
+  });
+});
+
+describe('emptyStores', () => {
+  it('lists active stores without products', () => {
+    expect(emptyStores([store(1, 0, 0), store(2, 0, 0, false), store(3, 5, 0)]).map(s => s.id)).toEqual([1]);
+  });
+});
@@ -0,0 +1,43 @@
+import { format, startOfWeek } from 'date-fns';
+import type { ActivityBucket, AnalyticsEvent } from './types';
+
+export function uniqueUsers(events: AnalyticsEvent[]) {
+  return new Set(events.map(e => e.firebase_uid));
+}
+
+export function usersWithEvent(events: AnalyticsEvent[], eventName: string) {
+  return uniqueUsers(events.filter(e => e.event_name === eventName));
+}
+
+// Users active in [start, end). Timestamps are ISO strings, so they compare as text.
+export function activeUsersBetween(events: AnalyticsEvent[], start: string, end?: string) {
+  return uniqueUsers(events.filter(e => e.received_at >= start && (end === undefined || e.received_at < end)));
+}
+
+// Distinct users and event count per key, sorted by key.
+export function activityBy(events: AnalyticsEvent[], keyOf: (e: AnalyticsEvent) => string): ActivityBucket[] {
+  const buckets = new Map<string, { users: Set<string>; events: number }>();
+  events.forEach(e => {
+    const key = keyOf(e);
+    if (!buckets.has(key)) {
+      buckets.set(key, { users: new Set(), events: 0 });
+    }
+    const bucket = buckets.get(key)!;
+    bucket.users.add(e.firebase_uid);
+    bucket.events++;
+  });
+
+  return Array.from(buckets.entries())
+    .map(([key, data]) => ({ key, users: data.users.size, events: data.events }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+// Buckets on the UTC date of received_at.
+export function dailyActivity(events: AnalyticsEvent[]) {
+  return activityBy(events, e => e.received_at.split('T')[0]);
+}
+
+// Buckets on the Monday the event's week starts.
+export function weeklyActivity(events: AnalyticsEvent[]) {
+  return activityBy(events, e => format(startOfWeek(new Date(e.received_at), { weekStartsOn: 1 }), 'yyyy-MM-dd'));
+}
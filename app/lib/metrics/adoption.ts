@@ -0,0 +1,46 @@
+import { rate } from './math';
+import type { AnalyticsEvent, FeatureUsage } from './types';
+
+// Users and events per feature, with adoption as a share of all active users.
+// Events `featureOf` maps to null still count towards the active users.
+export function featureAdoption(events: AnalyticsEvent[], featureOf: (eventName: string) => string | null): FeatureUsage[] {
+  const allUsers = new Set<string>();
+  const featureMap = new Map<string, { users: Set<string>; events: number }>();
+  events.forEach(e => {
+    allUsers.add(e.firebase_uid);
+    const feature = featureOf(e.event_name);
+    if (!feature) return;
+    if (!featureMap.has(feature)) {
+      featureMap.set(feature, { users: new Set(), events: 0 });
+    }
+    const f = featureMap.get(feature)!;
+    f.users.add(e.firebase_uid);
+    f.events++;
+  });
+
+  return Array.from(featureMap.entries())
+    .map(([feature, data]) => ({
+      feature,
+      users: data.users.size,
+      events: data.events,
+      adoption_rate: rate(data.users.size, allUsers.size),
+    }))
+    .sort((a, b) => b.users - a.users);
+}
+
+// Event count and distinct users per event name, most frequent first.
+export function eventCounts(events: AnalyticsEvent[]) {
+  const eventMap = new Map<string, { count: number; users: Set<string> }>();
+  events.forEach(e => {
+    if (!eventMap.has(e.event_name)) {
+      eventMap.set(e.event_name, { count: 0, users: new Set() });
+    }
+    const ev = eventMap.get(e.event_name)!;
+    ev.count++;
+    ev.users.add(e.firebase_uid);
+  });
+
+  return Array.from(eventMap.entries())
+    .map(([event_name, data]) => ({ event_name, count: data.count, users: data.users.size }))
+    .sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,66 @@
+import type { AnalyticsEvent } from './types';
+
+// What users can be split by: a column, a known prop, or any prop as `prop:<name>`.
+export type BreakdownDimension = 'platform' | 'language' | 'app_version' | `prop:${string}`;
+
+export const BREAKDOWN_DIMENSIONS: BreakdownDimension[] = ['platform', 'language', 'app_version'];
+
+// Beyond this many segments the smallest ones are folded into OTHER_SEGMENT.
+export const MAX_SEGMENTS = 6;
+
+export const OTHER_SEGMENT = 'other';
+
+export const UNKNOWN_SEGMENT = 'unknown';
+
+export function parseBreakdown(value: string | null): BreakdownDimension | null {
+  if (!value) return null;
+  if (BREAKDOWN_DIMENSIONS.includes(value as BreakdownDimension)) return value as BreakdownDimension;
+  return /^prop:[\w.]+$/.test(value) ? value as BreakdownDimension : null;
+}
+
+// Events a dimension reads beyond the ones a view already fetched.
+export function breakdownEvents(dimension: BreakdownDimension) {
+  return dimension === 'language' ? ['language_selected'] : [];
+}
+
+// Segment per user, from events sorted ascending. Platform, app version and props come from the
+// first event that carries them; language is the last language_selected value, since that is the
+// language the user ended up with.
+export function segmentUsers(events: Pick<AnalyticsEvent, 'firebase_uid' | 'event_name' | 'platform' | 'props'>[], dimension: BreakdownDimension) {
+  const segments = new Map<string, string>();
+  events.forEach(e => {
+    if (!segments.has(e.firebase_uid)) segments.set(e.firebase_uid, UNKNOWN_SEGMENT);
+    const current = segments.get(e.firebase_uid);
+    let value: unknown;
+    if (dimension === 'platform') {
+      value = current === UNKNOWN_SEGMENT ? e.platform : undefined;
+    } else if (dimension === 'language') {
+      value = e.event_name === 'language_selected' ? e.props?.language : undefined;
+    } else {
+      const prop = dimension === 'app_version' ? 'app_version' : dimension.slice('prop:'.length);
+      value = current === UNKNOWN_SEGMENT ? e.props?.[prop] : undefined;
+    }
+    if (value !== undefined && value !== null && value !== '') segments.set(e.firebase_uid, String(value));
+  });
+  return segments;
+}
+
+// Keeps the MAX_SEGMENTS - 1 largest segments and folds the rest into OTHER_SEGMENT.
+export function topSegments(segments: Map<string, string>, max = MAX_SEGMENTS) {
+  const sizes = new Map<string, number>();
+  segments.forEach(segment => sizes.set(segment, (sizes.get(segment) || 0) + 1));
+  if (sizes.size <= max) return segments;
+
+  const kept = new Set([...sizes.entries()].sort((a, b) => b[1] - a[1]).slice(0, max - 1).map(([segment]) => segment));
+  return new Map([...segments].map(([user, segment]) => [user, kept.has(segment) ? segment : OTHER_SEGMENT]));
+}
+
+// Users per segment, largest first.
+export function groupBySegment(segments: Map<string, string>) {
+  const groups = new Map<string, Set<string>>();
+  segments.forEach((segment, user) => {
+    if (!groups.has(segment)) groups.set(segment, new Set());
+    groups.get(segment)!.add(user);
+  });
+  return [...groups.entries()].sort((a, b) => b[1].size - a[1].size);
+}
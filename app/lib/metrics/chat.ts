@@ -0,0 +1,120 @@
+import type { AnalyticsEvent, ChatMessage, ChatSession } from './types';
+
+export const MESSAGES_PER_SESSION_BUCKETS = [
+  { label: '0', min: 0 },
+  { label: '1', min: 1 },
+  { label: '2', min: 2 },
+  { label: '3-5', min: 3 },
+  { label: '6-10', min: 6 },
+  { label: '11-20', min: 11 },
+  { label: '21+', min: 21 },
+];
+
+// Stands in for a null scenario, state or response_type.
+export const UNSET = '(none)';
+
+// Stands in for the session before a user's first one in the range, in nextSessionStates.
+export const FIRST_SESSION = 'first session';
+
+export function messagesBySession(messages: ChatMessage[]) {
+  const bySession = new Map<string, ChatMessage[]>();
+  messages.forEach(m => {
+    if (!bySession.has(m.session_id)) {
+      bySession.set(m.session_id, []);
+    }
+    bySession.get(m.session_id)!.push(m);
+  });
+  return bySession;
+}
+
+// A session the assistant never answered: no assistant message at all.
+export function isUnanswered(messages: ChatMessage[] | undefined) {
+  return !messages?.some(m => m.role === 'assistant');
+}
+
+// response_type counts of assistant messages per scenario, busiest scenario first.
+export function responseMix(messages: ChatMessage[]) {
+  const scenarios = new Map<string, Map<string, number>>();
+  messages.filter(m => m.role === 'assistant').forEach(m => {
+    const scenario = m.scenario || UNSET;
+    if (!scenarios.has(scenario)) {
+      scenarios.set(scenario, new Map());
+    }
+    const types = scenarios.get(scenario)!;
+    const type = m.response_type || UNSET;
+    types.set(type, (types.get(type) || 0) + 1);
+  });
+
+  return [...scenarios.entries()]
+    .map(([scenario, types]) => ({
+      scenario,
+      total: [...types.values()].reduce((sum, count) => sum + count, 0),
+      types: Object.fromEntries(types),
+    }))
+    .sort((a, b) => b.total - a.total);
+}
+
+// How a user's next session ended, given how their previous one ended. These are not transitions
+// within a session: chat_sessions only keeps a session's latest state, so those cannot be derived.
+// `share` is the percent of sessions after a `from` session that ended in `to`.
+export function nextSessionStates(sessions: ChatSession[]) {
+  const byUser = new Map<string, ChatSession[]>();
+  sessions.forEach(s => {
+    // Without a user there is no next session to pair with
+    const user = s.user_id;
+    if (!user) return;
+    if (!byUser.has(user)) {
+      byUser.set(user, []);
+    }
+    byUser.get(user)!.push(s);
+  });
+
+  const counts = new Map<string, Map<string, number>>();
+  const add = (from: string, to: string) => {
+    if (!counts.has(from)) counts.set(from, new Map());
+    counts.get(from)!.set(to, (counts.get(from)!.get(to) || 0) + 1);
+  };
+  byUser.forEach(userSessions => {
+    let previous = FIRST_SESSION;
+    [...userSessions]
+      .sort((a, b) => a.created_at.localeCompare(b.created_at))
+      .forEach(s => {
+        const state = s.state || UNSET;
+        add(previous, state);
+        previous = state;
+      });
+  });
+
+  return [...counts.entries()]
+    .flatMap(([from, targets]) => {
+      const total = [...targets.values()].reduce((sum, count) => sum + count, 0);
+      return [...targets.entries()].map(([to, count]) => ({ from, to, count, share: Math.round((count / total) * 100) }));
+    })
+    .sort((a, b) => b.count - a.count);
+}
+
+// Ids of sessions whose user sent `eventName` within `windowMs` after the session started.
+export function sessionsLeadingTo(
+  sessions: ChatSession[],
+  events: Pick<AnalyticsEvent, 'firebase_uid' | 'received_at' | 'event_name'>[],
+  eventName: string,
+  windowMs: number,
+) {
+  const times = new Map<string, number[]>();
+  events.filter(e => e.event_name === eventName).forEach(e => {
+    if (!times.has(e.firebase_uid)) {
+      times.set(e.firebase_uid, []);
+    }
+    times.get(e.firebase_uid)!.push(new Date(e.received_at).getTime());
+  });
+
+  const converted = new Set<string>();
+  sessions.forEach(s => {
+    if (!s.user_id) return;
+    const start = new Date(s.created_at).getTime();
+    if (times.get(s.user_id)?.some(t => t >= start && t - start <= windowMs)) {
+      converted.add(s.id);
+    }
+  });
+  return converted;
+}
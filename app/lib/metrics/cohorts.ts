@@ -0,0 +1,87 @@
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { rate } from './math';
+import type { AnalyticsEvent, CohortRow } from './types';
+
+export type Granularity = 'day' | 'week' | 'month';
+
+export const GRANULARITIES: Granularity[] = ['day', 'week', 'month'];
+
+export const MAX_COHORT_PERIODS = 12;
+
+// first_event: a user's first event ever. new_user: their auth_anonymous_selected with is_new_user.
+export type CohortAnchor = 'first_event' | 'new_user';
+
+export const COHORT_ANCHORS: CohortAnchor[] = ['first_event', 'new_user'];
+
+export function periodStart(date: Date, granularity: Granularity) {
+  switch (granularity) {
+    case 'day': return startOfDay(date);
+    case 'week': return startOfWeek(date, { weekStartsOn: 1 });
+    case 'month': return startOfMonth(date);
+  }
+}
+
+export function addPeriods(date: Date, amount: number, granularity: Granularity) {
+  switch (granularity) {
+    case 'day': return addDays(date, amount);
+    case 'week': return addWeeks(date, amount);
+    case 'month': return addMonths(date, amount);
+  }
+}
+
+// Whole periods from `start` to `date`; 0 when both fall in the same period.
+export function periodsBetween(start: Date, date: Date, granularity: Granularity) {
+  switch (granularity) {
+    case 'day': return differenceInCalendarDays(date, start);
+    case 'week': return differenceInCalendarWeeks(date, start, { weekStartsOn: 1 });
+    case 'month': return differenceInCalendarMonths(date, start);
+  }
+}
+
+// Retention triangle over the last `periods` periods up to `now`. Each user belongs to the
+// cohort of the period their anchor timestamp falls in; column k is the share of that cohort
+// active k periods later. Columns that lie in the future are null.
+export function cohortMatrix(
+  events: Pick<AnalyticsEvent, 'firebase_uid' | 'received_at'>[],
+  anchors: Map<string, string>,
+  granularity: Granularity,
+  periods: number,
+  now: Date,
+): CohortRow[] {
+  const first = addPeriods(periodStart(now, granularity), -(periods - 1), granularity);
+  const indexOf = (timestamp: string) => periodsBetween(first, new Date(timestamp), granularity);
+
+  const cohorts: Set<string>[] = Array.from({ length: periods }, () => new Set());
+  anchors.forEach((anchor, user) => {
+    const index = indexOf(anchor);
+    if (index >= 0 && index < periods) cohorts[index].add(user);
+  });
+
+  const activePeriods = new Map<string, Set<number>>();
+  events.forEach(e => {
+    if (!activePeriods.has(e.firebase_uid)) {
+      activePeriods.set(e.firebase_uid, new Set());
+    }
+    activePeriods.get(e.firebase_uid)!.add(indexOf(e.received_at));
+  });
+
+  return cohorts.map((users, index) => ({
+    start: addPeriods(first, index, granularity),
+    users: users.size,
+    retention: Array.from({ length: periods }, (_, offset) => {
+      if (index + offset >= periods) return null;
+      const retained = [...users].filter(u => activePeriods.get(u)?.has(index + offset)).length;
+      return rate(retained, users.size);
+    }),
+  }));
+}
@@ -0,0 +1,79 @@
+import type { AnalyticsEvent } from './types';
+
+export type FilterOperator = '=' | '!=' | '>' | '>=' | '<' | '<=';
+
+export const FILTER_OPERATORS: FilterOperator[] = ['=', '!=', '>', '>=', '<', '<='];
+
+export interface PropFilter {
+  prop: string;
+  op: FilterOperator;
+  value: string | number | boolean;
+}
+
+// One step of a funnel: an event name, optionally narrowed down by its props.
+export interface FunnelStepDefinition {
+  event: string;
+  filters?: PropFilter[];
+}
+
+// `true`/`false` and numbers keep their type, since props are compared with their JSON type.
+export function parseFilterValue(raw: string): PropFilter['value'] {
+  if (raw === 'true' || raw === 'false') return raw === 'true';
+  return raw.trim() !== '' && !Number.isNaN(Number(raw)) ? Number(raw) : raw;
+}
+
+// Ordering operators only hold between numbers; equality compares value and type.
+export function matchesFilter(event: Pick<AnalyticsEvent, 'props'>, filter: PropFilter) {
+  const actual = event.props?.[filter.prop];
+  switch (filter.op) {
+    case '=': return actual === filter.value;
+    case '!=': return actual !== undefined && actual !== filter.value;
+    case '>': return typeof actual === 'number' && typeof filter.value === 'number' && actual > filter.value;
+    case '>=': return typeof actual === 'number' && typeof filter.value === 'number' && actual >= filter.value;
+    case '<': return typeof actual === 'number' && typeof filter.value === 'number' && actual < filter.value;
+    case '<=': return typeof actual === 'number' && typeof filter.value === 'number' && actual <= filter.value;
+  }
+}
+
+export function matchesStep(event: Pick<AnalyticsEvent, 'event_name' | 'props'>, step: FunnelStepDefinition) {
+  return event.event_name === step.event && (step.filters ?? []).every(filter => matchesFilter(event, filter));
+}
+
+export function formatFilter(filter: PropFilter) {
+  return `${filter.prop}${filter.op}${filter.value}`;
+}
+
+export function parseFilter(value: string): PropFilter | null {
+  // Two-character operators first, so `>=300` is not read as `>` with the value `=300`
+  const match = value.match(/^([\w.]+)(>=|<=|!=|=|>|<)(.*)$/);
+  return match ? { prop: match[1], op: match[2] as FilterOperator, value: parseFilterValue(match[3]) } : null;
+}
+
+// Human-readable step, e.g. `basket results displayed (savings_cents >= 300)`.
+export function stepLabel(step: FunnelStepDefinition) {
+  const name = step.event.replace(/_/g, ' ');
+  const filters = (step.filters ?? []).map(f => `${f.prop} ${f.op} ${f.value}`);
+  return filters.length > 0 ? `${name} (${filters.join(', ')})` : name;
+}
+
+// A step travels in URLs as `event` or `event;prop>=300;other=true`.
+export function formatStep(step: FunnelStepDefinition) {
+  return [step.event, ...(step.filters ?? []).map(formatFilter)].join(';');
+}
+
+export function parseStep(value: string): FunnelStepDefinition | null {
+  const [event, ...rest] = value.split(';');
+  if (!event) return null;
+  const filters = rest.map(parseFilter);
+  if (filters.some(filter => filter === null)) return null;
+  return filters.length > 0 ? { event, filters: filters as PropFilter[] } : { event };
+}
+
+// A whole funnel is its steps joined by `|`; unreadable steps come back as null.
+export function formatSteps(steps: FunnelStepDefinition[]) {
+  return steps.map(formatStep).join('|');
+}
+
+export function parseSteps(value: string) {
+  return value.split('|').filter(Boolean).map(parseStep);
+}
@@ -0,0 +1,168 @@
+import { usersWithEvent } from './activeUsers';
+import { groupBySegment, segmentUsers, topSegments } from './breakdown';
+import { matchesStep } from './filters';
+import { percentile, rate } from './math';
+import type { BreakdownDimension } from './breakdown';
+import type { FunnelStepDefinition } from './filters';
+import type { AnalyticsEvent, FunnelSegment, FunnelStepCount } from './types';
+
+// How long after its first step a user may take to finish a funnel.
+export type ConversionWindow = '1h' | '1d' | '7d' | '30d';
+
+export const CONVERSION_WINDOWS: ConversionWindow[] = ['1h', '1d', '7d', '30d'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const CONVERSION_WINDOW_MS: Record<ConversionWindow, number> = {
+  '1h': HOUR_MS,
+  '1d': 24 * HOUR_MS,
+  '7d': 7 * 24 * HOUR_MS,
+  '30d': 30 * 24 * HOUR_MS,
+};
+
+export const DEFAULT_CONVERSION_WINDOW: ConversionWindow = '1d';
+
+export function parseConversionWindow(value: string | null): ConversionWindow {
+  return CONVERSION_WINDOWS.includes(value as ConversionWindow) ? value as ConversionWindow : DEFAULT_CONVERSION_WINDOW;
+}
+
+// How far past the period to read events: users who start late in the period get the whole
+// conversion window to finish, but nothing is read from the future.
+export function conversionEnd(periodEnd: string, windowMs: number, now = new Date()) {
+  return new Date(Math.min(now.getTime(), new Date(periodEnd).getTime() + windowMs)).toISOString();
+}
+
+// Fewer steps than this is a count, not a funnel.
+export const MIN_FUNNEL_STEPS = 2;
+
+// Share of users who fired startEvent that also fired endEvent, by distinct user.
+export function completionRate(events: AnalyticsEvent[], startEvent: string, endEvent: string) {
+  return rate(usersWithEvent(events, endEvent).size, usersWithEvent(events, startEvent).size);
+}
+
+// Furthest run through `steps` for one user's events (sorted ascending): each step has to come
+// after the previous one and within windowMs of the first. Returns the step timestamps in ms.
+function furthestPath(userEvents: AnalyticsEvent[], steps: FunnelStepDefinition[], windowMs: number, startsBefore?: string) {
+  let best: number[] = [];
+  userEvents.forEach((start, i) => {
+    if (!matchesStep(start, steps[0]) || best.length === steps.length) return;
+    if (startsBefore !== undefined && start.received_at >= startsBefore) return;
+    const startAt = Date.parse(start.received_at);
+    const path = [startAt];
+    for (let j = i + 1; j < userEvents.length && path.length < steps.length; j++) {
+      const at = Date.parse(userEvents[j].received_at);
+      if (at - startAt > windowMs) break;
+      if (matchesStep(userEvents[j], steps[path.length])) path.push(at);
+    }
+    if (path.length > best.length) best = path;
+  });
+  return best;
+}
+
+// Strict funnel: a user is in step k only if they went through steps 0..k in order, within
+// the conversion window. Users therefore never grow from one step to the next. Pass
+// `startsBefore` when `events` run past the period so late steps of late starters still count.
+export function orderedFunnel(
+  events: AnalyticsEvent[],
+  steps: FunnelStepDefinition[],
+  windowMs: number,
+  startsBefore?: string,
+): FunnelStepCount[] {
+  const byUser = new Map<string, AnalyticsEvent[]>();
+  events.forEach(e => {
+    if (!steps.some(step => matchesStep(e, step))) return;
+    if (!byUser.has(e.firebase_uid)) {
+      byUser.set(e.firebase_uid, []);
+    }
+    byUser.get(e.firebase_uid)!.push(e);
+  });
+
+  const paths = new Map<string, number[]>();
+  byUser.forEach((userEvents, user) => {
+    const path = furthestPath(userEvents, steps, windowMs, startsBefore);
+    if (path.length > 0) paths.set(user, path);
+  });
+
+  let previousUsers: number | null = null;
+  return steps.map((step, index) => {
+    const reached = [...paths.values()].filter(path => path.length > index);
+    const durations = index > 0 ? reached.map(path => path[index] - path[index - 1]).sort((a, b) => a - b) : [];
+    const stuck = index < steps.length - 1
+      ? [...paths.entries()]
+        .filter(([, path]) => path.length === index + 1)
+        .map(([user, path]) => ({ user, at: new Date(path[index]).toISOString() }))
+        .sort((a, b) => b.at.localeCompare(a.at))
+      : [];
+    const dropoff = previousUsers === null ? 0 : previousUsers - reached.length;
+    previousUsers = reached.length;
+    return {
+      event: step.event,
+      count: events.filter(e => matchesStep(e, step) && (startsBefore === undefined || e.received_at < startsBefore)).length,
+      users: reached.length,
+      dropoff,
+      medianMs: durations.length > 0 ? percentile(durations, 0.5) : null,
+      stuck,
+    };
+  });
+}
+
+// Stuck users listed per step; the step still reports how many there are in total.
+export const STUCK_LIMIT = 20;
+
+// How a funnel step is labelled and coloured in the charts.
+export interface FunnelStepStyle {
+  name: string;
+  shortName: string;
+  fill: string;
+}
+
+// orderedFunnel counts in the form the funnel charts take, plus the step with the largest share of
+// users lost since the step before it.
+export function funnelSummary(counts: FunnelStepCount[], styles: FunnelStepStyle[]) {
+  const funnelData = counts.map(({ count, users, dropoff, medianMs, stuck }, index) => {
+    const prevUsers = index > 0 ? counts[index - 1].users : 0;
+    return {
+      ...styles[index],
+      value: count,
+      users,
+      dropoff,
+      dropoffPct: prevUsers > 0 ? ((dropoff / prevUsers) * 100).toFixed(0) + '%' : '',
+      medianMs,
+      stuck: stuck.slice(0, STUCK_LIMIT),
+      stuckCount: stuck.length,
+    };
+  });
+
+  let biggestDropoff = '';
+  let biggestDropoffPct = 0;
+  funnelData.forEach((step, i) => {
+    if (i > 0 && step.dropoff && funnelData[i - 1].users > 0) {
+      const pct = (step.dropoff / funnelData[i - 1].users) * 100;
+      if (pct > biggestDropoffPct) {
+        biggestDropoffPct = pct;
+        biggestDropoff = `${funnelData[i - 1].shortName} → ${step.shortName}`;
+      }
+    }
+  });
+
+  return { funnelData, biggestDropoff, biggestDropoffPct: Math.round(biggestDropoffPct) };
+}
+
+// The same ordered funnel run separately for each segment of `dimension`.
+export function funnelBreakdown(
+  events: AnalyticsEvent[],
+  steps: FunnelStepDefinition[],
+  windowMs: number,
+  dimension: BreakdownDimension,
+  startsBefore?: string,
+): FunnelSegment[] {
+  const segments = topSegments(segmentUsers(events, dimension));
+  return groupBySegment(segments).map(([segment, users]) => {
+    const counts = orderedFunnel(events.filter(e => users.has(e.firebase_uid)), steps, windowMs, startsBefore);
+    return {
+      segment,
+      users: counts.map(step => step.users),
+      conversion: counts.map(step => rate(step.users, counts[0].users)),
+    };
+  }).filter(segment => segment.users[0] > 0);
+}
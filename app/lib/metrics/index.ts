@@ -0,0 +1,17 @@
+export * from './types';
+export * from './math';
+export * from './activeUsers';
+export * from './breakdown';
+export * from './chat';
+export * from './filters';
+export * from './funnels';
+export * from './latency';
+export * from './paths';
+export * from './promotions';
+export * from './retention';
+export * from './savings';
+export * from './sessions';
+export * from './stores';
+export * from './cohorts';
+export * from './adoption';
+export * from './schema';
@@ -0,0 +1,90 @@
+import { format, startOfDay, startOfHour } from 'date-fns';
+import { histogram, latencySummary } from './math';
+import type { ChatMessage, LatencySummary } from './types';
+
+export type LatencyInterval = 'hour' | 'day';
+
+export const LATENCY_INTERVALS: LatencyInterval[] = ['hour', 'day'];
+
+// The SLO: at least `target` percent of responses finish within `thresholdMs`.
+export interface LatencySlo {
+  thresholdMs: number;
+  target: number;
+}
+
+export const DEFAULT_SLO: LatencySlo = { thresholdMs: 2000, target: 95 };
+
+export const SLO_TARGETS = [90, 95, 99, 99.9];
+
+const MAX_SLO_MS = 60_000;
+
+// Response times in ms
+export const LATENCY_BUCKETS = [
+  { label: '<250ms', min: -Infinity },
+  { label: '250-500ms', min: 250 },
+  { label: '0.5-1s', min: 500 },
+  { label: '1-2s', min: 1000 },
+  { label: '2-5s', min: 2000 },
+  { label: '5-10s', min: 5000 },
+  { label: '10s+', min: 10000 },
+];
+
+export function parseSlo(threshold: string | null, target: string | null): LatencySlo {
+  const ms = Number(threshold);
+  const percent = Number(target);
+  return {
+    thresholdMs: threshold !== null && threshold !== '' && Number.isInteger(ms) && ms > 0 && ms <= MAX_SLO_MS
+      ? ms
+      : DEFAULT_SLO.thresholdMs,
+    target: SLO_TARGETS.includes(percent) ? percent : DEFAULT_SLO.target,
+  };
+}
+
+// Hourly points only make sense for a few days; anything longer defaults to daily.
+export function parseLatencyInterval(value: string | null, spanMs: number): LatencyInterval {
+  if (LATENCY_INTERVALS.includes(value as LatencyInterval)) return value as LatencyInterval;
+  return spanMs <= 2 * 24 * 60 * 60 * 1000 ? 'hour' : 'day';
+}
+
+type TimedMessage = Pick<ChatMessage, 'created_at' | 'processing_ms'>;
+
+export interface LatencyPoint extends LatencySummary {
+  date: string;
+  slow: number;
+  // Slow share over the share the SLO allows: above 1 the budget is burning faster than it refills.
+  burnRate: number;
+  // Percent of the whole range's error budget left after this point; negative once overspent.
+  budgetRemaining: number;
+}
+
+// p50/p95/p99 and error-budget burn per hour or day, oldest first. Messages must carry processing_ms.
+export function latencySeries(messages: TimedMessage[], interval: LatencyInterval, slo: LatencySlo): LatencyPoint[] {
+  const buckets = new Map<number, number[]>();
+  messages.forEach(m => {
+    const date = new Date(m.created_at);
+    const start = (interval === 'hour' ? startOfHour(date) : startOfDay(date)).getTime();
+    if (!buckets.has(start)) buckets.set(start, []);
+    buckets.get(start)!.push(m.processing_ms!);
+  });
+
+  const allowed = 1 - slo.target / 100;
+  const budget = messages.length * allowed;
+  let spent = 0;
+  return [...buckets.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([start, times]) => {
+      const slow = times.filter(ms => ms > slo.thresholdMs).length;
+      spent += slow;
+      return {
+        date: format(new Date(start), interval === 'hour' ? 'MMM dd HH:00' : 'MMM dd'),
+        ...latencySummary(times),
+        slow,
+        burnRate: Math.round((slow / times.length / allowed) * 100) / 100,
+        budgetRemaining: budget > 0 ? Math.round((1 - spent / budget) * 100) : 0,
+      };
+    });
+}
+
+export function latencyDistribution(messages: TimedMessage[]) {
+  return histogram(messages.map(m => m.processing_ms!), LATENCY_BUCKETS);
+}
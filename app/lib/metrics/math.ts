@@ -0,0 +1,48 @@
+import type { HistogramBucket, LatencySummary } from './types';
+
+// Whole-number percentage, 0 when there is nothing to divide by.
+export function rate(part: number, whole: number) {
+  return whole > 0 ? Math.round((part / whole) * 100) : 0;
+}
+
+export function average(values: number[]) {
+  return values.length > 0 ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : 0;
+}
+
+// Nearest-rank percentile on an ascending list.
+export function percentile(sorted: number[], p: number) {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(Math.floor(sorted.length * p), sorted.length - 1)];
+}
+
+// Rounded to the largest unit that fits: 45s, 12m, 5h, 3d.
+export function formatDuration(ms: number) {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.round(hours / 24)}d`;
+}
+
+export function latencySummary(values: number[]): LatencySummary {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: values.length,
+    avg: average(values),
+    p50: percentile(sorted, 0.5),
+    p95: percentile(sorted, 0.95),
+    p99: percentile(sorted, 0.99),
+  };
+}
+
+// Counts each value into the last bucket whose lower bound it reaches; bounds are ascending.
+export function histogram(values: number[], buckets: { label: string; min: number }[]): HistogramBucket[] {
+  const counts = buckets.map(bucket => ({ label: bucket.label, count: 0 }));
+  values.forEach(value => {
+    const i = buckets.findLastIndex(bucket => value >= bucket.min);
+    if (i >= 0) counts[i].count++;
+  });
+  return counts;
+}
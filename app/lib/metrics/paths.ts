@@ -0,0 +1,140 @@
+import type { AnalyticsEvent, PathGraph } from './types';
+
+// after: what users did following the anchor event. before: what led up to it.
+export type PathDirection = 'after' | 'before';
+
+export const PATH_DIRECTIONS: PathDirection[] = ['after', 'before'];
+
+export const MAX_PATH_STEPS = 5;
+
+export const DEFAULT_PATH_STEPS = 3;
+
+// Node names beyond this many per step are folded into OTHER_STEP.
+export const MAX_PATH_NODES = 8;
+
+// Anchors each user's path on their last event instead of a named one, for users that went
+// quiet for CHURN_DAYS afterwards.
+export const CHURN_ANCHOR = '$churn';
+
+export const CHURN_DAYS = 7;
+
+export const OTHER_STEP = 'Other';
+
+const CHURN_STEP = 'Churned';
+const END_STEP: Record<PathDirection, string> = { after: 'No more events', before: 'No earlier events' };
+
+export function parsePathSteps(value: string | null) {
+  const steps = Number(value);
+  return Number.isInteger(steps) && steps >= 1 && steps <= MAX_PATH_STEPS ? steps : DEFAULT_PATH_STEPS;
+}
+
+// Names of the steps on one side of `index`, walking away from it. Repeats of the same
+// name are collapsed so a burst of item_added reads as a single step.
+function walk(names: string[], index: number, direction: PathDirection, steps: number) {
+  const path: string[] = [];
+  const delta = direction === 'after' ? 1 : -1;
+  let last = names[index];
+  for (let i = index + delta; i >= 0 && i < names.length && path.length < steps; i += delta) {
+    if (names[i] === last) continue;
+    path.push(names[i]);
+    last = names[i];
+  }
+  if (path.length < steps) path.push(END_STEP[direction]);
+  return path;
+}
+
+// Aggregates one path per user, from their first `anchor` event in [from, to), into a graph
+// of users moving between steps. `labelOf` names a step, e.g. by feature or by raw event.
+// For CHURN_ANCHOR the path ends at a Churned node after the user's last event, if that event
+// is in the period and before `churnedBefore`; `events` should then reach CHURN_DAYS past `to`.
+export function pathGraph(
+  events: Pick<AnalyticsEvent, 'firebase_uid' | 'received_at' | 'event_name'>[],
+  options: {
+    anchor: string;
+    direction: PathDirection;
+    steps: number;
+    from: string;
+    to: string;
+    churnedBefore: string;
+    labelOf: (eventName: string) => string;
+  },
+): PathGraph {
+  const { anchor, steps, from, to, churnedBefore, labelOf } = options;
+  const direction = anchor === CHURN_ANCHOR ? 'before' : options.direction;
+
+  const byUser = new Map<string, typeof events>();
+  events.forEach(e => {
+    if (!byUser.has(e.firebase_uid)) {
+      byUser.set(e.firebase_uid, []);
+    }
+    byUser.get(e.firebase_uid)!.push(e);
+  });
+
+  // Each path runs left to right, with the anchor at column 0
+  const paths: { start: number; names: string[] }[] = [];
+  byUser.forEach(userEvents => {
+    const sorted = [...userEvents].sort((a, b) => a.received_at.localeCompare(b.received_at));
+    const names = sorted.map(e => labelOf(e.event_name));
+
+    let index: number;
+    let anchorName: string;
+    if (anchor === CHURN_ANCHOR) {
+      const last = sorted[sorted.length - 1];
+      if (last.received_at < from || last.received_at >= to || last.received_at >= churnedBefore) return;
+      names.push(CHURN_STEP);
+      index = names.length - 1;
+      anchorName = CHURN_STEP;
+    } else {
+      index = sorted.findIndex(e => e.event_name === anchor && e.received_at >= from && e.received_at < to);
+      if (index < 0) return;
+      anchorName = names[index];
+    }
+
+    const walked = walk(names, index, direction, steps);
+    paths.push(direction === 'after'
+      ? { start: 0, names: [anchorName, ...walked] }
+      : { start: -walked.length, names: [...walked.reverse(), anchorName] });
+  });
+
+  // Keep the busiest names per column
+  const columnCounts = new Map<number, Map<string, number>>();
+  paths.forEach(({ start, names }) => names.forEach((name, i) => {
+    if (!columnCounts.has(start + i)) columnCounts.set(start + i, new Map());
+    const counts = columnCounts.get(start + i)!;
+    counts.set(name, (counts.get(name) || 0) + 1);
+  }));
+  const kept = new Map<number, Set<string>>();
+  columnCounts.forEach((counts, column) => {
+    kept.set(column, new Set([...counts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_PATH_NODES)
+      .map(([name]) => name)));
+  });
+
+  const nodes: PathGraph['nodes'] = [];
+  const nodeIndex = new Map<string, number>();
+  const nodeOf = (column: number, name: string) => {
+    const label = kept.get(column)!.has(name) ? name : OTHER_STEP;
+    const key = `${column}:${label}`;
+    if (!nodeIndex.has(key)) {
+      nodeIndex.set(key, nodes.length);
+      nodes.push({ name: label, step: column });
+    }
+    return nodeIndex.get(key)!;
+  };
+
+  const linkValues = new Map<string, number>();
+  paths.forEach(({ start, names }) => {
+    for (let i = 0; i < names.length - 1; i++) {
+      const key = `${nodeOf(start + i, names[i])}>${nodeOf(start + i + 1, names[i + 1])}`;
+      linkValues.set(key, (linkValues.get(key) || 0) + 1);
+    }
+  });
+
+  const links = [...linkValues.entries()].map(([key, value]) => {
+    const [source, target] = key.split('>').map(Number);
+    return { source, target, value };
+  });
+
+  return { users: paths.length, nodes, links };
+}
@@ -0,0 +1,78 @@
+import { addWeeks, subDays } from 'date-fns';
+import { periodStart, periodsBetween } from './cohorts';
+import type { PromotionRow } from './types';
+
+// Days ahead the expiry columns look; counts are cumulative, so 7 includes the 1- and 3-day ones.
+export const EXPIRY_HORIZONS = [1, 3, 7];
+
+export const ARRIVAL_WEEKS = 8;
+
+// Folders refresh weekly: a store that got promotions in the four weeks before the last
+// seven days, but none since, most likely missed its refresh.
+const QUIET_DAYS = 7;
+const QUIET_LOOKBACK_DAYS = 28;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A date-only valid_until runs through the whole of that (UTC) day.
+function promotionEnd(validUntil: string) {
+  const end = new Date(validUntil).getTime();
+  return /^\d{4}-\d{2}-\d{2}$/.test(validUntil) ? end + DAY_MS : end;
+}
+
+// Active promotions per store that end within each horizon, and those already past their end.
+// Promotions without an end date are neither.
+export function promotionExpiry(promos: Pick<PromotionRow, 'store_id' | 'valid_until'>[], now: Date) {
+  const byStore = new Map<number, { expiring: number[]; stale: number }>();
+  promos.forEach(p => {
+    if (!p.valid_until) return;
+    if (!byStore.has(p.store_id)) {
+      byStore.set(p.store_id, { expiring: EXPIRY_HORIZONS.map(() => 0), stale: 0 });
+    }
+    const entry = byStore.get(p.store_id)!;
+    const left = promotionEnd(p.valid_until) - now.getTime();
+    if (left <= 0) {
+      entry.stale++;
+    } else {
+      EXPIRY_HORIZONS.forEach((days, i) => {
+        if (left < days * DAY_MS) entry.expiring[i]++;
+      });
+    }
+  });
+  return byStore;
+}
+
+// Monday-based weeks, oldest first, ending with the current (partial) week.
+export function arrivalWeeks(now: Date) {
+  const current = periodStart(now, 'week');
+  return Array.from({ length: ARRIVAL_WEEKS }, (_, i) => addWeeks(current, i - ARRIVAL_WEEKS + 1));
+}
+
+// New promotions per store per week of arrivalWeeks, by created_at.
+export function weeklyArrivals(promos: Pick<PromotionRow, 'store_id' | 'created_at'>[], now: Date) {
+  const first = arrivalWeeks(now)[0];
+  const byStore = new Map<number, number[]>();
+  promos.forEach(p => {
+    const week = periodsBetween(first, new Date(p.created_at), 'week');
+    if (week < 0 || week >= ARRIVAL_WEEKS) return;
+    if (!byStore.has(p.store_id)) {
+      byStore.set(p.store_id, Array(ARRIVAL_WEEKS).fill(0));
+    }
+    byStore.get(p.store_id)![week]++;
+  });
+  return byStore;
+}
+
+// Store ids whose weekly refresh looks overdue, with each one's latest arrival.
+export function quietStores(promos: Pick<PromotionRow, 'store_id' | 'created_at'>[], now: Date) {
+  const recent = subDays(now, QUIET_DAYS).toISOString();
+  const lookback = subDays(now, QUIET_DAYS + QUIET_LOOKBACK_DAYS).toISOString();
+  const latest = new Map<number, string>();
+  promos.forEach(p => {
+    if (p.created_at < lookback) return;
+    if (!latest.has(p.store_id) || p.created_at > latest.get(p.store_id)!) {
+      latest.set(p.store_id, p.created_at);
+    }
+  });
+  return new Map([...latest.entries()].filter(([, at]) => at < recent));
+}
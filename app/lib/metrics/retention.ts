@@ -0,0 +1,51 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { activeUsersBetween } from './activeUsers';
+import { rate } from './math';
+import type { AnalyticsEvent, RetentionPoint } from './types';
+
+// Days after first use that the retention curves report on.
+export const RETENTION_DAYS = [1, 7, 14, 30];
+
+// classic: active on exactly day N. rolling: active on day N or any day after it.
+export type RetentionMode = 'classic' | 'rolling';
+
+export const RETENTION_MODES: RetentionMode[] = ['classic', 'rolling'];
+
+// Share of cohort users that were active again in [start, end).
+export function retentionRate(events: AnalyticsEvent[], cohort: Set<string>, start: string, end?: string) {
+  const returned = activeUsersBetween(events, start, end);
+  return rate([...cohort].filter(u => returned.has(u)).length, cohort.size);
+}
+
+// N-day retention for the users in `anchors` (uid -> first-use timestamp), counted in calendar
+// days. A user only counts towards day N once that day is over, so young cohorts don't drag
+// the curve down; `eligible` is 0 and `rate` null where nobody is old enough yet.
+export function retentionCurve(
+  events: Pick<AnalyticsEvent, 'firebase_uid' | 'received_at'>[],
+  anchors: Map<string, string>,
+  mode: RetentionMode,
+  now: Date,
+  days: number[] = RETENTION_DAYS,
+): RetentionPoint[] {
+  const activeDays = new Map<string, Set<number>>();
+  events.forEach(e => {
+    const anchor = anchors.get(e.firebase_uid);
+    if (!anchor) return;
+    if (!activeDays.has(e.firebase_uid)) {
+      activeDays.set(e.firebase_uid, new Set());
+    }
+    activeDays.get(e.firebase_uid)!.add(differenceInCalendarDays(new Date(e.received_at), new Date(anchor)));
+  });
+
+  return days.map(day => {
+    let eligible = 0;
+    let retained = 0;
+    anchors.forEach((anchor, user) => {
+      if (differenceInCalendarDays(now, new Date(anchor)) <= day) return;
+      eligible++;
+      const active = [...(activeDays.get(user) ?? [])];
+      if (mode === 'classic' ? active.includes(day) : active.some(d => d >= day)) retained++;
+    });
+    return { day, eligible, retained, rate: eligible > 0 ? rate(retained, eligible) : null };
+  });
+}
@@ -0,0 +1,114 @@
+import type { AnalyticsEvent } from './types';
+
+// A basket showing at least this much savings is the "aha" moment.
+export const DEFAULT_AHA_CENTS = 300;
+
+const MAX_AHA_CENTS = 100_000;
+
+// Thresholds the aha curve is drawn at, to see where the share of users falls off.
+export const AHA_CURVE_CENTS = [0, 50, 100, 150, 200, 300, 400, 500, 750, 1000, 1500, 2000];
+
+export const SAVINGS_PERCENTILES = [0.25, 0.5, 0.75, 0.9, 0.99];
+
+// Savings per basket, in cents
+export const BASKET_SAVINGS_BUCKETS = [
+  { label: '€0', min: -Infinity },
+  { label: '€0-1', min: 1 },
+  { label: '€1-2', min: 100 },
+  { label: '€2-3', min: 200 },
+  { label: '€3-5', min: 300 },
+  { label: '€5-10', min: 500 },
+  { label: '€10-20', min: 1000 },
+  { label: '€20+', min: 2000 },
+];
+
+// Savings per user summed over all their baskets, in cents
+export const LIFETIME_SAVINGS_BUCKETS = [
+  { label: '€0', min: -Infinity },
+  { label: '€0-5', min: 1 },
+  { label: '€5-10', min: 500 },
+  { label: '€10-25', min: 1000 },
+  { label: '€25-50', min: 2500 },
+  { label: '€50-100', min: 5000 },
+  { label: '€100+', min: 10000 },
+];
+
+export function parseAhaThreshold(value: string | null) {
+  const cents = Number(value);
+  return value !== null && value !== '' && Number.isInteger(cents) && cents >= 0 && cents <= MAX_AHA_CENTS
+    ? cents
+    : DEFAULT_AHA_CENTS;
+}
+
+// props.savings_cents when the event carries a number there, otherwise null.
+export function savingsCents(e: Pick<AnalyticsEvent, 'props'>) {
+  const cents = e.props?.savings_cents;
+  return typeof cents === 'number' ? cents : null;
+}
+
+// Users with at least one event showing `threshold` cents or more.
+export function ahaUsers(events: Pick<AnalyticsEvent, 'firebase_uid' | 'props'>[], threshold: number) {
+  return new Set(events.filter(e => (savingsCents(e) ?? -Infinity) >= threshold).map(e => e.firebase_uid));
+}
+
+// The app resends an event when the upload fails, so the same basket can arrive twice.
+export const RETRY_WINDOW_MS = 60_000;
+
+type SavingsEvent = Pick<AnalyticsEvent, 'firebase_uid' | 'received_at' | 'event_name' | 'props'>;
+
+// Drops events that repeat an earlier one from the same user, with the same name and props,
+// within RETRY_WINDOW_MS of it. Keeps the input order.
+export function dedupeRetries<T extends SavingsEvent>(events: T[]): T[] {
+  const lastSeen = new Map<string, number>();
+  const retries = new Set<T>();
+  [...events]
+    .sort((a, b) => a.received_at.localeCompare(b.received_at))
+    .forEach(e => {
+      const key = `${e.firebase_uid}\u0000${e.event_name}\u0000${JSON.stringify(e.props ?? null)}`;
+      const at = new Date(e.received_at).getTime();
+      const previous = lastSeen.get(key);
+      if (previous !== undefined && at - previous <= RETRY_WINDOW_MS) retries.add(e);
+      lastSeen.set(key, at);
+    });
+  return retries.size > 0 ? events.filter(e => !retries.has(e)) : events;
+}
+
+// Every savings number on the dashboard is one of these. Each reads savings_cents from a single
+// event type, after dropping retries, so events that merely carry the prop can't add to it.
+export type SavingsDefinition = 'shown' | 'saved_lists' | 'per_basket';
+
+export const SAVINGS_DEFINITIONS: Record<SavingsDefinition, { label: string; event: string; description: string }> = {
+  shown: {
+    label: 'savings shown',
+    event: 'basket_results_displayed',
+    description: 'Sum of savings_cents over basket results shown, retries removed.',
+  },
+  saved_lists: {
+    label: 'savings on saved lists',
+    event: 'shopping_list_saved',
+    description: 'Sum of savings_cents over shopping lists saved, retries removed.',
+  },
+  per_basket: {
+    label: 'savings per unique basket',
+    event: 'basket_results_displayed',
+    description: 'Savings shown divided by the number of baskets shown, retries removed. Baskets without savings count as €0.',
+  },
+};
+
+// The events a definition reads, retries removed.
+export function savingsEvents<T extends SavingsEvent>(events: T[], definition: SavingsDefinition): T[] {
+  return dedupeRetries(events.filter(e => e.event_name === SAVINGS_DEFINITIONS[definition].event));
+}
+
+// Total for `shown` and `saved_lists`, rounded average for `per_basket`.
+export function savingsBy(events: SavingsEvent[], definition: SavingsDefinition) {
+  const amounts = savingsEvents(events, definition).map(e => savingsCents(e) ?? 0);
+  const total = amounts.reduce((sum, cents) => sum + cents, 0);
+  if (definition !== 'per_basket') return total;
+  return amounts.length > 0 ? Math.round(total / amounts.length) : 0;
+}
+
+// €3 for whole euros, €2.50 otherwise.
+export function formatEuros(cents: number) {
+  return `€${(cents / 100).toFixed(cents % 100 === 0 ? 0 : 2)}`;
+}
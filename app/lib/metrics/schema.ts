@@ -0,0 +1,72 @@
+import type { AnalyticsEvent, DriftStatus, EventDrift, EventSchema, PropDrift, ValueType } from './types';
+
+export function valueType(value: unknown): ValueType {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  return type === 'string' || type === 'number' || type === 'boolean' ? type : 'object';
+}
+
+// Observed prop names and value types per event name, most frequent event first.
+export function inferSchema(events: Pick<AnalyticsEvent, 'event_name' | 'props'>[]): EventSchema[] {
+  const schemas = new Map<string, EventSchema>();
+  events.forEach(e => {
+    if (!schemas.has(e.event_name)) {
+      schemas.set(e.event_name, { event: e.event_name, count: 0, props: {} });
+    }
+    const schema = schemas.get(e.event_name)!;
+    schema.count++;
+    Object.entries(e.props ?? {}).forEach(([prop, value]) => {
+      const types = schema.props[prop] ??= {};
+      const type = valueType(value);
+      types[type] = (types[type] || 0) + 1;
+    });
+  });
+
+  return Array.from(schemas.values()).sort((a, b) => b.count - a.count);
+}
+
+function typesOf(schema: EventSchema | undefined, prop: string) {
+  return Object.keys(schema?.props[prop] ?? {}).sort() as ValueType[];
+}
+
+function propCount(schema: EventSchema | undefined, prop: string) {
+  return Object.values(schema?.props[prop] ?? {}).reduce((sum, n) => sum + n, 0);
+}
+
+// A prop that is sometimes null in one period only has not changed type.
+function sameTypes(types: ValueType[], previousTypes: ValueType[]) {
+  const nonNull = (list: ValueType[]) => list.filter(type => type !== 'null').join();
+  return nonNull(types) === nonNull(previousTypes);
+}
+
+// Compares two inferred schemas: events and props that appeared, disappeared or changed type.
+export function diffSchema(current: EventSchema[], previous: EventSchema[]): EventDrift[] {
+  const currentMap = new Map(current.map(s => [s.event, s]));
+  const previousMap = new Map(previous.map(s => [s.event, s]));
+  const eventNames = new Set([...currentMap.keys(), ...previousMap.keys()]);
+
+  return Array.from(eventNames).map(event => {
+    const now = currentMap.get(event);
+    const before = previousMap.get(event);
+    const propNames = new Set([...Object.keys(now?.props ?? {}), ...Object.keys(before?.props ?? {})]);
+
+    const props: PropDrift[] = Array.from(propNames).sort().map(prop => {
+      const types = typesOf(now, prop);
+      const previousTypes = typesOf(before, prop);
+      let status: DriftStatus = 'unchanged';
+      if (!now || !before) status = now ? 'new' : 'removed';
+      else if (types.length === 0) status = 'removed';
+      else if (previousTypes.length === 0) status = 'new';
+      else if (!sameTypes(types, previousTypes)) status = 'changed';
+      return { prop, status, types, previousTypes, count: propCount(now, prop) };
+    });
+
+    let status: DriftStatus = 'unchanged';
+    if (!before) status = 'new';
+    else if (!now) status = 'removed';
+    else if (props.some(p => p.status !== 'unchanged')) status = 'changed';
+
+    return { event, status, count: now?.count ?? 0, previousCount: before?.count ?? 0, props };
+  }).sort((a, b) => b.count - a.count || b.previousCount - a.previousCount);
+}
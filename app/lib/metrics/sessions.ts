@@ -0,0 +1,79 @@
+import type { AnalyticsEvent, AppSession } from './types';
+
+// Minutes of inactivity after which a user's next event opens a new app session.
+export const SESSION_GAPS = [5, 15, 30, 60];
+
+export const DEFAULT_SESSION_GAP = 30;
+
+const MAX_SESSION_GAP = 24 * 60;
+
+export function parseSessionGap(value: string | null) {
+  const gap = Number(value);
+  return Number.isInteger(gap) && gap > 0 && gap <= MAX_SESSION_GAP ? gap : DEFAULT_SESSION_GAP;
+}
+
+export const SESSION_LENGTH_BUCKETS = [
+  { label: '<1m', min: 0 },
+  { label: '1-5m', min: 60_000 },
+  { label: '5-15m', min: 5 * 60_000 },
+  { label: '15-30m', min: 15 * 60_000 },
+  { label: '30-60m', min: 30 * 60_000 },
+  { label: '60m+', min: 60 * 60_000 },
+];
+
+export const SESSION_EVENT_BUCKETS = [
+  { label: '1', min: 1 },
+  { label: '2-5', min: 2 },
+  { label: '6-10', min: 6 },
+  { label: '11-20', min: 11 },
+  { label: '21-50', min: 21 },
+  { label: '51+', min: 51 },
+];
+
+export const SESSIONS_PER_USER_BUCKETS = [
+  { label: '1', min: 1 },
+  { label: '2', min: 2 },
+  { label: '3-5', min: 3 },
+  { label: '6-10', min: 6 },
+  { label: '11-20', min: 11 },
+  { label: '21+', min: 21 },
+];
+
+export function sessionLengthMs(session: AppSession) {
+  return new Date(session.end).getTime() - new Date(session.start).getTime();
+}
+
+// Splits each user's events into app sessions, ordered by start. A session opens at an
+// app_launch, or at any event that follows more than `gapMinutes` of silence, so users
+// whose launch fell before the period (or was never sent) still get sessions.
+export function sessionize(
+  events: Pick<AnalyticsEvent, 'firebase_uid' | 'received_at' | 'event_name'>[],
+  gapMinutes = DEFAULT_SESSION_GAP,
+): AppSession[] {
+  const gapMs = gapMinutes * 60_000;
+  const byUser = new Map<string, typeof events>();
+  events.forEach(e => {
+    if (!byUser.has(e.firebase_uid)) {
+      byUser.set(e.firebase_uid, []);
+    }
+    byUser.get(e.firebase_uid)!.push(e);
+  });
+
+  const sessions: AppSession[] = [];
+  byUser.forEach((userEvents, user) => {
+    let current: AppSession | null = null;
+    [...userEvents]
+      .sort((a, b) => a.received_at.localeCompare(b.received_at))
+      .forEach(e => {
+        const idleMs = current ? new Date(e.received_at).getTime() - new Date(current.end).getTime() : 0;
+        if (!current || e.event_name === 'app_launch' || idleMs > gapMs) {
+          current = { user, start: e.received_at, end: e.received_at, events: 0, launched: e.event_name === 'app_launch' };
+          sessions.push(current);
+        }
+        current.end = e.received_at;
+        current.events++;
+      });
+  });
+
+  return sessions.sort((a, b) => a.start.localeCompare(b.start));
+}
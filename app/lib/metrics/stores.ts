@@ -0,0 +1,56 @@
+import type { StoreCount, StoreSnapshot } from './types';
+
+export type CatalogueMetric = 'products' | 'promos';
+
+export const CATALOGUE_METRICS: CatalogueMetric[] = ['products', 'promos'];
+
+// A count that falls by at least this share between two snapshots is flagged as a drop.
+export const DROP_SHARE = 0.5;
+
+// Below this many rows a store's counts swing too much for a drop to mean anything.
+export const MIN_DROP_BASE = 20;
+
+export interface CatalogueDrop {
+  storeId: number;
+  store: string;
+  metric: CatalogueMetric;
+  day: string;
+  before: number;
+  after: number;
+  // Negative percent change from the previous snapshot
+  change: number;
+}
+
+// Every sharp fall between consecutive snapshots (sorted oldest first), newest first.
+// A store missing from a snapshot is skipped rather than read as zero.
+export function catalogueDrops(snapshots: StoreSnapshot[]): CatalogueDrop[] {
+  const drops: CatalogueDrop[] = [];
+  const last = new Map<number, StoreCount>();
+  snapshots.forEach(snapshot => {
+    snapshot.stores.forEach(store => {
+      const before = last.get(store.id);
+      if (before) {
+        CATALOGUE_METRICS.forEach(metric => {
+          if (before[metric] >= MIN_DROP_BASE && store[metric] <= before[metric] * (1 - DROP_SHARE)) {
+            drops.push({
+              storeId: store.id,
+              store: store.name,
+              metric,
+              day: snapshot.day,
+              before: before[metric],
+              after: store[metric],
+              change: Math.round(((store[metric] - before[metric]) / before[metric]) * 100),
+            });
+          }
+        });
+      }
+      last.set(store.id, store);
+    });
+  });
+  return drops.reverse();
+}
+
+// Active stores that have nothing in store_offerings.
+export function emptyStores(stores: StoreCount[]) {
+  return stores.filter(s => s.active && s.products === 0);
+}
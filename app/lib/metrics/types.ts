@@ -0,0 +1,164 @@
+export type EventProps = Record<string, unknown>;
+
+export interface AnalyticsEvent {
+  received_at: string;
+  firebase_uid: string;
+  event_name: string;
+  platform?: string | null;
+  props?: EventProps | null;
+}
+
+export interface PromotionRow {
+  store_id: number;
+  created_at: string;
+  valid_until: string | null;
+  is_active: boolean;
+}
+
+// One store's catalogue size at the moment a StoreSnapshot was taken.
+export interface StoreCount {
+  id: number;
+  name: string;
+  active: boolean;
+  products: number;
+  promos: number;
+}
+
+// Live counts for every store, taken at most once per day (yyyy-MM-dd).
+export interface StoreSnapshot {
+  day: string;
+  at: string;
+  stores: StoreCount[];
+}
+
+export interface ChatSession {
+  id: string;
+  user_id?: string;
+  created_at: string;
+  state: string | null;
+}
+
+export interface ChatMessage {
+  session_id: string;
+  created_at: string;
+  role: string;
+  response_type: string | null;
+  processing_ms: number | null;
+  scenario: string | null;
+}
+
+export interface ActivityBucket {
+  key: string;
+  users: number;
+  events: number;
+}
+
+export interface LatencySummary {
+  count: number;
+  avg: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface FeatureUsage {
+  feature: string;
+  users: number;
+  events: number;
+  adoption_rate: number;
+}
+
+export interface CohortRow {
+  start: Date;
+  users: number;
+  // Percent of the cohort active k periods after joining; null where that period is still ahead
+  retention: (number | null)[];
+}
+
+export interface RetentionPoint {
+  day: number;
+  // Users whose day N is already over
+  eligible: number;
+  retained: number;
+  rate: number | null;
+}
+
+export interface StuckUser {
+  user: string;
+  // When they reached the step they stopped at
+  at: string;
+}
+
+export interface FunnelStepCount {
+  event: string;
+  count: number;
+  users: number;
+  dropoff: number;
+  // Median time from the previous step to this one; null for the first step
+  medianMs: number | null;
+  // Users whose furthest step is this one, most recent first
+  stuck: StuckUser[];
+}
+
+export interface FunnelSegment {
+  segment: string;
+  // Users reaching each step, and that as a percent of the segment's first step
+  users: number[];
+  conversion: number[];
+}
+
+// JSON type of a prop value as sent by the app.
+export type ValueType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface EventSchema {
+  event: string;
+  count: number;
+  // Per prop: how many events carried it with each value type
+  props: Record<string, Partial<Record<ValueType, number>>>;
+}
+
+export type DriftStatus = 'new' | 'removed' | 'changed' | 'unchanged';
+
+export interface PropDrift {
+  prop: string;
+  status: DriftStatus;
+  types: ValueType[];
+  previousTypes: ValueType[];
+  count: number;
+}
+
+export interface EventDrift {
+  event: string;
+  status: DriftStatus;
+  count: number;
+  previousCount: number;
+  props: PropDrift[];
+}
+
+export interface AppSession {
+  user: string;
+  start: string;
+  end: string;
+  events: number;
+  // Opened by an app_launch rather than by activity after an inactivity gap
+  launched: boolean;
+}
+
+export interface HistogramBucket {
+  label: string;
+  count: number;
+}
+
+export interface PathNode {
+  name: string;
+  // Steps away from the anchor event, negative before it
+  step: number;
+}
+
+export interface PathGraph {
+  // Users with a path through the anchor
+  users: number;
+  nodes: PathNode[];
+  // Users moving from one node to the next, by index into nodes
+  links: { source: number; target: number; value: number }[];
+}
@@ -0,0 +1,12 @@
+// viewer: read dashboards. analyst: also save shared definitions. admin: also manage accounts.
+export type Role = 'viewer' | 'analyst' | 'admin';
+
+export const ROLES: Role[] = ['viewer', 'analyst', 'admin'];
+
+export function hasRole(role: Role, required: Role) {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
@@ -0,0 +1,45 @@
+import 'server-only';
+import { randomUUID } from 'node:crypto';
+import { readJson, serializeUpdates, writeJson } from './storage';
+import type { ConversionWindow, FunnelStepDefinition } from './metrics';
+
+const FUNNELS_FILE = 'funnels.json';
+
+export interface SavedFunnel {
+  id: string;
+  name: string;
+  steps: FunnelStepDefinition[];
+  window: ConversionWindow;
+  createdBy: string;
+  createdAt: string;
+}
+
+export async function listFunnels(): Promise<SavedFunnel[]> {
+  const funnels = await readJson<SavedFunnel[]>(FUNNELS_FILE, []);
+  return funnels.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function saveFunnel(input: Omit<SavedFunnel, 'id' | 'createdAt'>) {
+  return serializeUpdates(FUNNELS_FILE, async () => {
+    const funnels = await readJson<SavedFunnel[]>(FUNNELS_FILE, []);
+    const funnel: SavedFunnel = {
+      id: randomUUID(),
+      ...input,
+      name: input.name.trim(),
+      createdAt: new Date().toISOString(),
+    };
+    await writeJson(FUNNELS_FILE, [...funnels, funnel]);
+    return funnel;
+  });
+}
+
+// False when there was no funnel with this id.
+export function deleteFunnel(id: string) {
+  return serializeUpdates(FUNNELS_FILE, async () => {
+    const funnels = await readJson<SavedFunnel[]>(FUNNELS_FILE, []);
+    const remaining = funnels.filter(f => f.id !== id);
+    if (remaining.length === funnels.length) return false;
+    await writeJson(FUNNELS_FILE, remaining);
+    return true;
+  });
+}
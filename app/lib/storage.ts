@@ -0,0 +1,65 @@
+import 'server-only';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+
+// Dashboard-owned state (accounts, audit log, ...) is kept in plain files under DASHBOARD_DATA_DIR,
+// so it needs no service beyond the filesystem the app runs on.
+export function dataPath(file: string) {
+  return path.join(process.env.DASHBOARD_DATA_DIR || path.join(process.cwd(), 'data'), file);
+}
+
+export async function readJson<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(dataPath(file), 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+// Writes to a temporary file first so readers never see a half-written document.
+export async function writeJson(file: string, value: unknown) {
+  const target = dataPath(file);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const tmp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2));
+  await fs.rename(tmp, target);
+}
+
+const pendingUpdates = new Map<string, Promise<unknown>>();
+
+// Runs read-modify-write updates of one file one after another, so two requests changing it at the
+// same time cannot overwrite each other's changes. This only holds within a single server process.
+export function serializeUpdates<T>(file: string, update: () => Promise<T>): Promise<T> {
+  const previous = pendingUpdates.get(file) ?? Promise.resolve();
+  const next = previous.then(update, update);
+  pendingUpdates.set(file, next.catch(() => undefined));
+  return next;
+}
+
+// Logs are stored as JSON Lines: one record per line, appended to and read back in order.
+export async function appendLine(file: string, value: unknown) {
+  const target = dataPath(file);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.appendFile(target, JSON.stringify(value) + '\n');
+}
+
+// Replaces the whole log, for the rare log whose records can be corrected after the fact.
+export async function writeLines(file: string, values: unknown[]) {
+  const target = dataPath(file);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const tmp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, values.map(value => JSON.stringify(value) + '\n').join(''));
+  await fs.rename(tmp, target);
+}
+
+export async function readLines<T>(file: string): Promise<T[]> {
+  let content: string;
+  try {
+    content = await fs.readFile(dataPath(file), 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+  return content.split('\n').filter(Boolean).map(line => JSON.parse(line));
+}
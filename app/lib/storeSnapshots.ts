@@ -0,0 +1,38 @@
+import 'server-only';
+import { format } from 'date-fns';
+import { liveStoreCounts } from './catalogue';
+import { readLines, serializeUpdates, writeLines } from './storage';
+import type { StoreCount, StoreSnapshot } from './metrics';
+
+// Supabase only holds the current catalogue, so its size over time is kept here, one line per day.
+const SNAPSHOTS_FILE = 'store-snapshots.jsonl';
+
+// How old a snapshot may be before latestStoreCounts counts the stores again.
+const SNAPSHOT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Oldest first.
+export async function readStoreSnapshots(): Promise<StoreSnapshot[]> {
+  return readLines<StoreSnapshot>(SNAPSHOTS_FILE);
+}
+
+// Records today's counts, replacing any snapshot already taken today, so recording twice on the
+// same day (or from two requests at once) still leaves one line per day.
+export function recordStoreSnapshot(stores: StoreCount[]) {
+  return serializeUpdates(SNAPSHOTS_FILE, async () => {
+    const now = new Date();
+    const snapshot: StoreSnapshot = { day: format(now, 'yyyy-MM-dd'), at: now.toISOString(), stores };
+    const snapshots = await readStoreSnapshots();
+    await writeLines(SNAPSHOTS_FILE, [...snapshots.filter(s => s.day !== snapshot.day), snapshot]);
+    return snapshot;
+  });
+}
+
+// The newest snapshot while it is less than a day old; otherwise counts every store now and records
+// that as today's snapshot, so pages that poll pay for the per-store counts at most once a day.
+export async function latestStoreCounts(): Promise<StoreSnapshot> {
+  const latest = (await readStoreSnapshots()).at(-1);
+  if (latest && Date.now() - new Date(latest.at).getTime() < SNAPSHOT_MAX_AGE_MS) {
+    return latest;
+  }
+  return recordStoreSnapshot(await liveStoreCounts());
+}
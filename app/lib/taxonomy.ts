@@ -0,0 +1,143 @@
+// The event taxonomy: every event the app is expected to send, which feature it belongs to and
+// which props it carries. Overview, feature pages and the schema checks all read from here, so
+// adding an event to the app means adding it below.
+
+export type PropType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+export interface FeatureDefinition {
+  label: string;
+  description: string;
+}
+
+export interface EventDefinition {
+  feature: FeatureSlug;
+  description: string;
+  props?: Record<string, PropType>;
+}
+
+export const FEATURES = {
+  'browse': { label: 'Browse', description: 'Product browsing and discovery' },
+  'chat': { label: 'Chat', description: 'AI chat assistant interactions' },
+  'basket': { label: 'Basket', description: 'Shopping basket comparisons' },
+  'shopping-list': { label: 'Shopping List', description: 'List management and items' },
+  'settings': { label: 'Settings', description: 'App settings and preferences' },
+  'onboarding': { label: 'Onboarding', description: 'New user onboarding flow' },
+  'comparison': { label: 'Comparison', description: 'Price comparison features' },
+  'quick-actions': { label: 'Quick Actions', description: 'Quick action shortcuts' },
+  'demo': { label: 'Demo', description: 'Demo list usage' },
+  'app-launch': { label: 'App Launch', description: 'App startup and splash screen' },
+  'auth': { label: 'Authentication', description: 'Sign in and sign up flows' },
+  'savings': { label: 'Savings', description: 'Savings tracking features' },
+  'other': { label: 'Other', description: 'Miscellaneous events' },
+} satisfies Record<string, FeatureDefinition>;
+
+export type FeatureSlug = keyof typeof FEATURES;
+
+export const EVENTS: Record<string, EventDefinition> = {
+  // Browse
+  'browse_page_viewed': { feature: 'browse', description: 'Browse tab opened' },
+  'browse_lazy_load': { feature: 'browse', description: 'Next page of products loaded while scrolling' },
+  'browse_product_viewed': { feature: 'browse', description: 'Product detail opened from browse' },
+  'browse_product_added': { feature: 'browse', description: 'Product added to the list from browse' },
+
+  // Chat
+  'chat_page_viewed': { feature: 'chat', description: 'Chat tab opened' },
+  'message_sent': { feature: 'chat', description: 'User sent a chat message' },
+  'chat_cleared': { feature: 'chat', description: 'Chat history cleared' },
+
+  // Basket
+  'basket_viewed': { feature: 'basket', description: 'Basket screen opened' },
+  'basket_results_displayed': {
+    feature: 'basket',
+    description: 'Cheapest basket per store shown',
+    // store: name of the cheapest store; older app versions don't send it
+    props: { savings_cents: 'number', store: 'string' },
+  },
+
+  // Shopping list
+  'shopping_list_viewed': { feature: 'shopping-list', description: 'Shopping list opened' },
+  'item_added': { feature: 'shopping-list', description: 'Free-text item added to the list' },
+  'product_added_to_list': { feature: 'shopping-list', description: 'Specific product added to the list' },
+  'multiple_products_added': { feature: 'shopping-list', description: 'Several products added at once' },
+  'shopping_list_saved': {
+    feature: 'shopping-list',
+    description: 'Shopping list saved',
+    props: { savings_cents: 'number' },
+  },
+  'item_quantity_changed': { feature: 'shopping-list', description: 'Quantity of a list item changed' },
+
+  // Settings
+  'settings_page_viewed': { feature: 'settings', description: 'Settings opened' },
+  'language_selected': {
+    feature: 'settings',
+    description: 'App language changed',
+    props: { language: 'string' },
+  },
+  'personalization_page_viewed': { feature: 'settings', description: 'Personalization settings opened' },
+
+  // Onboarding
+  'onboarding_started': { feature: 'onboarding', description: 'First onboarding screen shown' },
+  'onboarding_list_input_viewed': { feature: 'onboarding', description: 'Onboarding list input step shown' },
+  'onboarding_processing_viewed': { feature: 'onboarding', description: 'Onboarding processing step shown' },
+  'onboarding_completed': { feature: 'onboarding', description: 'Onboarding finished' },
+
+  // Comparison
+  'comparison_started': { feature: 'comparison', description: 'Price comparison started' },
+  'comparison_results_viewed': { feature: 'comparison', description: 'Comparison results opened' },
+  'product_swapped': { feature: 'comparison', description: 'Product swapped for a cheaper alternative' },
+
+  // Quick actions
+  'quick_action_tapped': { feature: 'quick-actions', description: 'Quick action shortcut tapped' },
+
+  // Demo
+  'demo_list_selected': {
+    feature: 'demo',
+    description: 'Demo shopping list picked during onboarding',
+    props: { list_key: 'string' },
+  },
+
+  // App launch
+  'app_launch': {
+    feature: 'app-launch',
+    description: 'App opened',
+    props: { app_version: 'string' },
+  },
+  'splash_load_completed': { feature: 'app-launch', description: 'Splash screen finished loading' },
+
+  // Auth
+  'auth_anonymous_selected': {
+    feature: 'auth',
+    description: 'Continued without an account',
+    props: { is_new_user: 'boolean', is_returning_device: 'boolean' },
+  },
+  'auth_signin_started': { feature: 'auth', description: 'Sign-in started' },
+  'auth_signin_success': { feature: 'auth', description: 'Sign-in succeeded' },
+  'auth_signin_failed': { feature: 'auth', description: 'Sign-in failed' },
+  'auth_signup_started': { feature: 'auth', description: 'Sign-up started' },
+  'auth_signup_success': { feature: 'auth', description: 'Sign-up succeeded' },
+  'auth_signup_failed': { feature: 'auth', description: 'Sign-up failed' },
+
+  // Savings
+  'savings_page_viewed': { feature: 'savings', description: 'Savings overview opened' },
+  'savings_store_filtered': { feature: 'savings', description: 'Savings overview filtered by store' },
+
+  // Other
+  'receipt_scan_started': { feature: 'other', description: 'Receipt scan started' },
+};
+
+export function isFeature(slug: string): slug is FeatureSlug {
+  return Object.hasOwn(FEATURES, slug);
+}
+
+// Null for events no feature claims.
+export function featureOf(eventName: string): FeatureSlug | null {
+  return Object.hasOwn(EVENTS, eventName) ? EVENTS[eventName].feature : null;
+}
+
+export function eventsOf(feature: FeatureSlug) {
+  return Object.keys(EVENTS).filter(name => EVENTS[name].feature === feature);
+}
+
+export function isEvent(name: string) {
+  return Object.hasOwn(EVENTS, name);
+}
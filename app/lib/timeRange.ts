@@ -0,0 +1,94 @@
+import { addDays, isValid, parseISO, startOfDay, subDays, subMonths } from 'date-fns';
+
+export type TimeRange = '24h' | '7d' | '30d' | '3m' | '6m' | '9m' | '1y';
+
+export const TIME_RANGES: TimeRange[] = ['24h', '7d', '30d', '3m', '6m', '9m', '1y'];
+
+// What the range picker shows: a rolling preset, or absolute yyyy-MM-dd dates (both inclusive).
+export interface RangeSelection {
+  range: TimeRange | 'custom';
+  from: string;
+  to: string;
+  compare: boolean;
+}
+
+// The half-open interval [from, to) a query covers, as ISO timestamps.
+export interface DateWindow {
+  from: string;
+  to: string;
+}
+
+export const DEFAULT_SELECTION: RangeSelection = { range: '30d', from: '', to: '', compare: false };
+
+export function parseTimeRange(value: string | null): TimeRange {
+  return TIME_RANGES.includes(value as TimeRange) ? (value as TimeRange) : '30d';
+}
+
+export function getDateFilter(range: TimeRange) {
+  switch (range) {
+    case '24h': return subDays(new Date(), 1).toISOString();
+    case '7d': return subDays(new Date(), 7).toISOString();
+    case '30d': return subDays(new Date(), 30).toISOString();
+    case '3m': return subMonths(new Date(), 3).toISOString();
+    case '6m': return subMonths(new Date(), 6).toISOString();
+    case '9m': return subMonths(new Date(), 9).toISOString();
+    case '1y': return subMonths(new Date(), 12).toISOString();
+  }
+}
+
+function parseDay(value: string | null) {
+  if (!value) return null;
+  const date = parseISO(value);
+  return isValid(date) ? startOfDay(date) : null;
+}
+
+// Reads ?from=&to= (absolute days, swapped when reversed, as parseSelection does) or falls back to
+// ?range= (rolling, ending now).
+export function parseDateWindow(params: URLSearchParams): DateWindow {
+  const from = parseDay(params.get('from'));
+  const to = parseDay(params.get('to'));
+  if (from && to) {
+    const [first, last] = from <= to ? [from, to] : [to, from];
+    return { from: first.toISOString(), to: addDays(last, 1).toISOString() };
+  }
+  return { from: getDateFilter(parseTimeRange(params.get('range'))), to: new Date().toISOString() };
+}
+
+// The window of the same length that ends where this one starts.
+export function previousWindow(period: DateWindow): DateWindow {
+  const length = new Date(period.to).getTime() - new Date(period.from).getTime();
+  return { from: new Date(new Date(period.from).getTime() - length).toISOString(), to: period.from };
+}
+
+// The last calendar day a window covers, as yyyy-MM-dd in UTC like the received_at prefixes it is
+// compared with.
+export function lastDay(period: DateWindow) {
+  return new Date(new Date(period.to).getTime() - 1).toISOString().slice(0, 10);
+}
+
+// The window the server reads for a selection, for lining up charts with it.
+export function selectionWindow(selection: RangeSelection): DateWindow {
+  return parseDateWindow(new URLSearchParams(selectionParams(selection)));
+}
+
+export function selectionParams(selection: RangeSelection): Record<string, string> {
+  const params: Record<string, string> = selection.range === 'custom' && selection.from && selection.to
+    ? { from: selection.from, to: selection.to }
+    : { range: selection.range === 'custom' ? DEFAULT_SELECTION.range : selection.range };
+  if (selection.compare) params.compare = '1';
+  return params;
+}
+
+// Inverse of selectionParams, for restoring a view from its URL. A reversed from/to is swapped,
+// so the picker shows the window the server reads.
+export function parseSelection(params: URLSearchParams): RangeSelection {
+  const compare = params.get('compare') === '1';
+  const from = params.get('from');
+  const to = params.get('to');
+  const fromDay = parseDay(from);
+  const toDay = parseDay(to);
+  if (from && to && fromDay && toDay) {
+    return fromDay <= toDay ? { range: 'custom', from, to, compare } : { range: 'custom', from: to, to: from, compare };
+  }
+  return { ...DEFAULT_SELECTION, range: parseTimeRange(params.get('range')), compare };
+}
@@ -0,0 +1,23 @@
+import { useEffect } from 'react';
+
+export type SearchParams = Record<string, string | string[] | undefined>;
+
+// A page's searchParams prop as URLSearchParams, keeping the first value of repeated keys.
+export function toSearchParams(params: SearchParams) {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first !== undefined) query.set(key, first);
+  });
+  return query;
+}
+
+// Mirrors a page's filters into its query string, so a reload or a shared link restores the same view.
+export function useQuerySync(params: Record<string, string>) {
+  const query = new URLSearchParams(params).toString();
+
+  useEffect(() => {
+    if (query === window.location.search.replace(/^\?/, '')) return;
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+  }, [query]);
+}
@@ -1,10 +1,7 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { supabase } from './lib/supabase';
+import { use, useEffect, useState } from 'react';
 import {
-  LineChart,
-  Line,
   BarChart,
   Bar,
   PieChart,
@@ -19,75 +16,39 @@ import {
   AreaChart,
   Area,
 } from 'recharts';
-import { format, subDays, subMonths } from 'date-fns';
+import { format } from 'date-fns';
 import Link from 'next/link';
-
-interface DailyStats {
-  date: string;
-  unique_users: number;
-  total_events: number;
-}
-
-interface EventBreakdown {
-  event_name: string;
-  count: number;
-}
-
-interface SessionFunnel {
-  state: string;
-  count: number;
-}
-
-interface FeatureAdoption {
-  feature: string;
-  users: number;
-  events: number;
-  adoption_rate: number;
-}
-
-interface PlatformData {
-  platform: string;
-  count: number;
-}
-
-interface ResponseTypeData {
-  type: string;
-  count: number;
-}
-
-interface StoreHealth {
-  name: string;
-  products: number;
-  promos: number;
-}
+import AccountMenu from './components/AccountMenu';
+import PartialDataNotice from './components/PartialDataNotice';
+import StatCard from './components/StatCard';
+import TimeRangePicker from './components/TimeRangePicker';
+import { alignPrevious, fetchMetrics } from './lib/api';
+import { SAVINGS_DEFINITIONS } from './lib/metrics';
+import { parseSelection, selectionParams, selectionWindow } from './lib/timeRange';
+import type {
+  DailyStats,
+  EventBreakdown,
+  SessionFunnel,
+  FeatureAdoption,
+  PlatformData,
+  ResponseTypeData,
+  StoreHealth,
+  CatalogueSummary,
+  OverviewMetrics,
+  WithPrevious,
+} from './lib/api';
+import type { FetchMeta } from './lib/fetchAll';
+import type { RangeSelection } from './lib/timeRange';
+import { toSearchParams, useQuerySync } from './lib/urlState';
+import type { SearchParams } from './lib/urlState';
+
+type DailyPoint = DailyStats & { previous?: DailyStats };
 
 // Darker, muted color palette
 const COLORS = ['#2563EB', '#059669', '#D97706', '#DC2626', '#7C3AED', '#DB2777', '#0891B2', '#16A34A', '#EA580C', '#0D9488'];
 
-const EVENT_TO_FEATURE: Record<string, string> = {
-  'browse_page_viewed': 'Browse',
-  'browse_lazy_load': 'Browse',
-  'chat_page_viewed': 'Chat',
-  'message_sent': 'Chat',
-  'basket_viewed': 'Basket',
-  'basket_results_displayed': 'Basket',
-  'shopping_list_viewed': 'Shopping List',
-  'item_added': 'Shopping List',
-  'product_added_to_list': 'Shopping List',
-  'multiple_products_added': 'Shopping List',
-  'settings_page_viewed': 'Settings',
-  'language_selected': 'Settings',
-  'onboarding_started': 'Onboarding',
-  'onboarding_completed': 'Onboarding',
-  'comparison_started': 'Comparison',
-  'product_swapped': 'Comparison',
-  'quick_action_tapped': 'Quick Actions',
-  'demo_list_selected': 'Demo',
-  'app_launch': 'App Launch',
-  'splash_load_completed': 'App Launch',
-};
-
-export default function Dashboard() {
+export default function Dashboard({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const query = toSearchParams(use(searchParams));
   const [dailyStats, setDailyStats] = useState<DailyStats[]>([]);
   const [eventBreakdown, setEventBreakdown] = useState<EventBreakdown[]>([]);
   const [sessionFunnel, setSessionFunnel] = useState<SessionFunnel[]>([]);
@@ -95,276 +56,71 @@ export default function Dashboard() {
   const [platformData, setPlatformData] = useState<PlatformData[]>([]);
   const [responseTypes, setResponseTypes] = useState<ResponseTypeData[]>([]);
   const [storeHealth, setStoreHealth] = useState<StoreHealth[]>([]);
+  const [catalogue, setCatalogue] = useState<CatalogueSummary | null>(null);
   const [onboardingRate, setOnboardingRate] = useState(0);
   const [todayStats, setTodayStats] = useState({ users: 0, events: 0, sessions: 0, messages: 0 });
-  const [totalUsers, setTotalUsers] = useState(0);
   const [newUsers, setNewUsers] = useState(0);
   const [returningUsers, setReturningUsers] = useState(0);
   const [avgProcessingMs, setAvgProcessingMs] = useState(0);
   const [totalSavings, setTotalSavings] = useState(0);
   const [basketsGenerated, setBasketsGenerated] = useState(0);
   const [listStats, setListStats] = useState<{action: string; count: number; users: number}[]>([]);
+  const [unclaimedEvents, setUnclaimedEvents] = useState<OverviewMetrics['unclaimedEvents']>([]);
+  const [meta, setMeta] = useState<FetchMeta | null>(null);
   const [loading, setLoading] = useState(true);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
-  const [timeRange, setTimeRange] = useState<'24h' | '7d' | '30d' | '3m' | '6m' | '9m' | '1y'>('30d');
+  const [selection, setSelection] = useState<RangeSelection>(() => parseSelection(query));
+  const [previous, setPrevious] = useState<OverviewMetrics | undefined>();
+  const rangeQuery = new URLSearchParams(selectionParams(selection)).toString();
 
-  const getDateFilter = (range: typeof timeRange) => {
-    switch (range) {
-      case '24h': return subDays(new Date(), 1).toISOString();
-      case '7d': return subDays(new Date(), 7).toISOString();
-      case '30d': return subDays(new Date(), 30).toISOString();
-      case '3m': return subMonths(new Date(), 3).toISOString();
-      case '6m': return subMonths(new Date(), 6).toISOString();
-      case '9m': return subMonths(new Date(), 9).toISOString();
-      case '1y': return subMonths(new Date(), 12).toISOString();
-    }
-  };
+  useQuerySync(selectionParams(selection));
 
-  const fetchData = async () => {
+  // Aborted when the selection changes, so an older response cannot overwrite a newer one
+  const fetchData = async (signal: AbortSignal) => {
     try {
       setLoading(true);
-      const dateFilter = getDateFilter(timeRange);
-      const today = format(new Date(), 'yyyy-MM-dd');
-
-      const { data: events, error: eventsError } = await supabase
-        .from('analytics_events')
-        .select('received_at, firebase_uid, event_name, platform, props')
-        .gte('received_at', dateFilter)
-        .order('received_at', { ascending: false });
-
-      const { data: sessions, error: sessionsError } = await supabase
-        .from('chat_sessions')
-        .select('created_at, user_id, state')
-        .gte('created_at', dateFilter);
-
-      const { data: messages, error: messagesError } = await supabase
-        .from('chat_messages')
-        .select('created_at, role, response_type, processing_ms, scenario')
-        .gte('created_at', dateFilter);
-
-      // Fetch live store data instead of stale daily_observability snapshot
-      const { data: stores } = await supabase
-        .from('stores')
-        .select('id, store_name')
-        .eq('is_active', true);
-
-      // Get live promotion counts per store
-      const { data: promoCounts } = await supabase
-        .from('promotions')
-        .select('store_id')
-        .eq('is_active', true);
-
-      // Get live product counts per store
-      const { data: productCounts } = await supabase
-        .from('store_offerings')
-        .select('store_id');
-
-      // Count TRULY new users using is_new_user flag from auth_anonymous_selected events
-      // This excludes returning device users who just got a new Firebase UID
-      const { data: authEvents } = await supabase
-        .from('analytics_events')
-        .select('firebase_uid, props')
-        .eq('event_name', 'auth_anonymous_selected')
-        .gte('received_at', dateFilter);
-
-      // Count users where is_new_user = true (truly new devices)
-      const trulyNewUsers = new Set<string>();
-      const returningDeviceUsers = new Set<string>();
-
-      authEvents?.forEach((e) => {
-        if (e.props?.is_new_user === true) {
-          trulyNewUsers.add(e.firebase_uid);
-        } else if (e.props?.is_returning_device === true) {
-          returningDeviceUsers.add(e.firebase_uid);
-        }
-      });
-
-      setNewUsers(trulyNewUsers.size);
-      setReturningUsers(returningDeviceUsers.size);
-
-      const allUsers = new Set(events?.map((e) => e.firebase_uid) || []);
-      setTotalUsers(allUsers.size);
-
-      const dailyMap = new Map<string, { users: Set<string>; events: number }>();
-      events?.forEach((e) => {
-        const date = e.received_at.split('T')[0];
-        if (!dailyMap.has(date)) {
-          dailyMap.set(date, { users: new Set(), events: 0 });
-        }
-        const day = dailyMap.get(date)!;
-        day.users.add(e.firebase_uid);
-        day.events++;
-      });
-
-      const dailyStatsArray = Array.from(dailyMap.entries())
-        .map(([date, data]) => ({
-          date: format(new Date(date), 'MMM dd'),
-          unique_users: data.users.size,
-          total_events: data.events,
-        }))
-        .reverse()
-        .slice(-14);
-
-      setDailyStats(dailyStatsArray);
-
-      const eventMap = new Map<string, number>();
-      events?.forEach((e) => {
-        eventMap.set(e.event_name, (eventMap.get(e.event_name) || 0) + 1);
-      });
-
-      const eventArray = Array.from(eventMap.entries())
-        .map(([name, count]) => ({ event_name: name, count }))
-        .sort((a, b) => b.count - a.count)
-        .slice(0, 10);
-
-      setEventBreakdown(eventArray);
-
-      const stateMap = new Map<string, number>();
-      sessions?.forEach((s) => {
-        stateMap.set(s.state, (stateMap.get(s.state) || 0) + 1);
-      });
-
-      const funnelArray = Array.from(stateMap.entries())
-        .map(([state, count]) => ({ state, count }))
-        .sort((a, b) => b.count - a.count);
-
-      setSessionFunnel(funnelArray);
-
-      const featureMap = new Map<string, { users: Set<string>; events: number }>();
-      events?.forEach((e) => {
-        const feature = EVENT_TO_FEATURE[e.event_name] || 'Other';
-        if (!featureMap.has(feature)) {
-          featureMap.set(feature, { users: new Set(), events: 0 });
-        }
-        const f = featureMap.get(feature)!;
-        f.users.add(e.firebase_uid);
-        f.events++;
-      });
-
-      const featureArray = Array.from(featureMap.entries())
-        .map(([feature, data]) => ({
-          feature,
-          users: data.users.size,
-          events: data.events,
-          adoption_rate: Math.round((data.users.size / allUsers.size) * 100),
-        }))
-        .sort((a, b) => b.users - a.users);
-
-      setFeatureAdoption(featureArray);
-
-      const platformMap = new Map<string, number>();
-      events?.forEach((e) => {
-        const p = e.platform || 'unknown';
-        platformMap.set(p, (platformMap.get(p) || 0) + 1);
-      });
-      setPlatformData(
-        Array.from(platformMap.entries())
-          .map(([platform, count]) => ({ platform, count }))
-          .sort((a, b) => b.count - a.count)
-      );
-
-      const responseMap = new Map<string, number>();
-      messages?.filter(m => m.role === 'assistant' && m.response_type).forEach((m) => {
-        responseMap.set(m.response_type, (responseMap.get(m.response_type) || 0) + 1);
-      });
-      setResponseTypes(
-        Array.from(responseMap.entries())
-          .map(([type, count]) => ({ type, count }))
-          .sort((a, b) => b.count - a.count)
-      );
-
-      const processingTimes = messages?.filter(m => m.processing_ms).map(m => m.processing_ms) || [];
-      if (processingTimes.length > 0) {
-        setAvgProcessingMs(Math.round(processingTimes.reduce((a, b) => a + b, 0) / processingTimes.length));
-      }
-
-      let savings = 0;
-      let baskets = 0;
-      events?.forEach((e) => {
-        if (e.props?.savings_cents) {
-          savings += e.props.savings_cents;
-        }
-        if (e.event_name === 'basket_results_displayed') {
-          baskets++;
-        }
-      });
-      setTotalSavings(savings);
-      setBasketsGenerated(baskets);
-
-      // Calculate list activity stats
-      const listActions = [
-        { key: 'shopping_list_viewed', label: 'Lists Viewed' },
-        { key: 'product_added_to_list', label: 'Products Added' },
-        { key: 'multiple_products_added', label: 'Bulk Adds' },
-        { key: 'shopping_list_saved', label: 'Lists Saved' },
-        { key: 'item_added', label: 'Items Added' },
-      ];
-      const listStatsData = listActions.map(action => {
-        const actionEvents = events?.filter(e => e.event_name === action.key) || [];
-        const uniqueUsers = new Set(actionEvents.map(e => e.firebase_uid));
-        return {
-          action: action.label,
-          count: actionEvents.length,
-          users: uniqueUsers.size,
-        };
-      }).filter(s => s.count > 0);
-      setListStats(listStatsData);
-
-      // Calculate live store health from promotions and offerings data
-      if (stores && promoCounts && productCounts) {
-        const promoMap = new Map<number, number>();
-        promoCounts.forEach((p) => {
-          promoMap.set(p.store_id, (promoMap.get(p.store_id) || 0) + 1);
-        });
-
-        const productMap = new Map<number, number>();
-        productCounts.forEach((p) => {
-          productMap.set(p.store_id, (productMap.get(p.store_id) || 0) + 1);
-        });
-
-        const storeHealthData: StoreHealth[] = stores.map((s) => ({
-          name: s.store_name,
-          products: productMap.get(s.id) || 0,
-          promos: promoMap.get(s.id) || 0,
-        }));
-
-        setStoreHealth(storeHealthData.sort((a, b) => b.products - a.products).slice(0, 10));
-      }
-
-      // Calculate onboarding rate by unique users, not event count
-      const usersWhoStarted = new Set<string>();
-      const usersWhoCompleted = new Set<string>();
-      events?.forEach((e) => {
-        if (e.event_name === 'onboarding_started') usersWhoStarted.add(e.firebase_uid);
-        if (e.event_name === 'onboarding_completed') usersWhoCompleted.add(e.firebase_uid);
-      });
-      setOnboardingRate(usersWhoStarted.size > 0 ? Math.round((usersWhoCompleted.size / usersWhoStarted.size) * 100) : 0);
-
-      const todayEvents = events?.filter((e) => e.received_at.startsWith(today)) || [];
-      const todayUsers = new Set(todayEvents.map((e) => e.firebase_uid));
-      const todaySessions = sessions?.filter((s) => s.created_at.startsWith(today)) || [];
-      const todayMessages = messages?.filter((m) => m.created_at.startsWith(today)) || [];
-
-      setTodayStats({
-        users: todayUsers.size,
-        events: todayEvents.length,
-        sessions: todaySessions.length,
-        messages: todayMessages.length,
-      });
+      const data = await fetchMetrics<WithPrevious<OverviewMetrics>>('overview', selectionParams(selection), signal);
+
+      setDailyStats(data.dailyStats);
+      setEventBreakdown(data.eventBreakdown);
+      setSessionFunnel(data.sessionFunnel);
+      setFeatureAdoption(data.featureAdoption);
+      setPlatformData(data.platformData);
+      setResponseTypes(data.responseTypes);
+      setStoreHealth(data.storeHealth);
+      setCatalogue(data.catalogue);
+      setOnboardingRate(data.onboardingRate);
+      setTodayStats(data.todayStats);
+      setNewUsers(data.newUsers);
+      setReturningUsers(data.returningUsers);
+      setAvgProcessingMs(data.avgProcessingMs);
+      setTotalSavings(data.totalSavings);
+      setBasketsGenerated(data.basketsGenerated);
+      setListStats(data.listStats);
+      setUnclaimedEvents(data.unclaimedEvents);
+      setMeta(data.meta);
+      setPrevious(data.previous);
 
       setLastUpdated(new Date());
     } catch (error) {
+      if (signal.aborted) return;
       console.error('Error fetching data:', error);
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
 
   useEffect(() => {
-    fetchData();
-    const interval = setInterval(fetchData, 5 * 60 * 1000);
-    return () => clearInterval(interval);
-  }, [timeRange]);
+    const controller = new AbortController();
+    fetchData(controller.signal);
+    const interval = setInterval(() => fetchData(controller.signal), 5 * 60 * 1000);
+    return () => {
+      clearInterval(interval);
+      controller.abort();
+    };
+  }, [selection]);
+
+  const dailyChart = alignPrevious(dailyStats, previous?.dailyStats, selectionWindow(selection));
 
   if (loading) {
     return (
@@ -381,61 +137,57 @@ export default function Dashboard() {
         <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-3 sm:py-4 flex items-center justify-between">
           <h1 className="text-lg sm:text-xl font-semibold">Spaartje</h1>
           <div className="flex items-center gap-3 sm:gap-6">
-            <Link href="/" className="text-xs sm:text-sm font-medium text-blue-700">Overview</Link>
-            <Link href="/users" className="text-xs sm:text-sm font-medium text-gray-500 hover:text-gray-900 transition">Users</Link>
-            <Link href="/onboarding" className="text-xs sm:text-sm font-medium text-gray-500 hover:text-gray-900 transition">Onboarding</Link>
+            <Link href={`/?${rangeQuery}`} className="text-xs sm:text-sm font-medium text-blue-700">Overview</Link>
+            <Link href={`/users?${rangeQuery}`} className="text-xs sm:text-sm font-medium text-gray-500 hover:text-gray-900 transition">Users</Link>
+            <Link href={`/sessions?${rangeQuery}`} className="text-xs sm:text-sm font-medium text-gray-500 hover:text-gray-900 transition">Sessions</Link>
+            <Link href={`/chat?${rangeQuery}`} className="text-xs sm:text-sm font-medium text-gray-500 hover:text-gray-900 transition">Chat</Link>
+            <Link href={`/onboarding?${rangeQuery}`} className="text-xs sm:text-sm font-medium text-gray-500 hover:text-gray-900 transition">Onboarding</Link>
+            <Link href={`/funnels?${rangeQuery}`} className="text-xs sm:text-sm font-medium text-gray-500 hover:text-gray-900 transition">Funnels</Link>
+            <Link href={`/savings?${rangeQuery}`} className="text-xs sm:text-sm font-medium text-gray-500 hover:text-gray-900 transition">Savings</Link>
+            <Link href={`/latency?${rangeQuery}`} className="text-xs sm:text-sm font-medium text-gray-500 hover:text-gray-900 transition">Latency</Link>
+            <Link href={`/stores?${rangeQuery}`} className="text-xs sm:text-sm font-medium text-gray-500 hover:text-gray-900 transition">Stores</Link>
+            <Link href={`/paths?${rangeQuery}`} className="text-xs sm:text-sm font-medium text-gray-500 hover:text-gray-900 transition">Paths</Link>
+            <Link href={`/schema?${rangeQuery}`} className="text-xs sm:text-sm font-medium text-gray-500 hover:text-gray-900 transition">Schema</Link>
             <span className="text-[10px] sm:text-xs text-gray-400 hidden sm:inline">
               {lastUpdated ? format(lastUpdated, 'HH:mm') : '-'}
             </span>
+            <AccountMenu />
           </div>
         </div>
       </nav>
 
       <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-4 sm:py-8">
-        {/* Time Range Selector */}
-        <div className="flex flex-wrap items-center gap-2 mb-4 sm:mb-6">
-          <span className="text-sm text-gray-500 font-medium">Time Range:</span>
-          <div className="flex flex-wrap gap-1 bg-gray-100 p-1 rounded-lg">
-            {[
-              { value: '24h', label: '24h' },
-              { value: '7d', label: '7d' },
-              { value: '30d', label: '30d' },
-              { value: '3m', label: '3m' },
-              { value: '6m', label: '6m' },
-              { value: '9m', label: '9m' },
-              { value: '1y', label: '1y' },
-            ].map((option) => (
-              <button
-                key={option.value}
-                onClick={() => setTimeRange(option.value as typeof timeRange)}
-                className={`px-2 sm:px-3 py-1 sm:py-1.5 text-xs sm:text-sm font-medium rounded-md transition ${
-                  timeRange === option.value
-                    ? 'bg-white text-gray-900 shadow-sm'
-                    : 'text-gray-500 hover:text-gray-700'
-                }`}
-              >
-                {option.label}
-              </button>
-            ))}
+        <TimeRangePicker value={selection} onChange={setSelection} loading={loading} />
+
+        <PartialDataNotice meta={meta} />
+
+        {unclaimedEvents.length > 0 && (
+          <div className="bg-amber-50 border border-amber-200 text-amber-800 rounded-xl p-3 sm:p-4 mb-4 sm:mb-6 text-xs sm:text-sm">
+            <div className="font-medium">
+              {unclaimedEvents.length} event {unclaimedEvents.length === 1 ? 'name is' : 'names are'} not in the taxonomy (app/lib/taxonomy.ts):
+            </div>
+            <div className="opacity-80 mt-1 font-mono">
+              {unclaimedEvents.map((e) => `${e.event_name} (${e.count.toLocaleString()})`).join(', ')}
+            </div>
           </div>
-          {loading && <span className="text-xs text-gray-400 ml-2">Loading...</span>}
-        </div>
+        )}
 
         {/* Stats Row 1 */}
         <div className="grid grid-cols-2 md:grid-cols-5 gap-2 sm:gap-4 mb-2 sm:mb-4">
-          <StatCard label="Today's Users" value={todayStats.users} color="text-blue-700" />
-          <StatCard label="Today's Events" value={todayStats.events} color="text-emerald-700" />
-          <StatCard label="New Users" value={newUsers} color="text-violet-700" subtitle="truly new devices" />
-          <StatCard label="Returning" value={returningUsers} color="text-cyan-700" subtitle="same device, new UID" />
-          <StatCard label="Onboarding" value={`${onboardingRate}%`} color="text-amber-700" />
+          <StatCard label="Today's Users" value={todayStats.users} color="text-blue-700" comparison={{ current: todayStats.users, previous: previous?.todayStats.users }} />
+          <StatCard label="Today's Events" value={todayStats.events} color="text-emerald-700" comparison={{ current: todayStats.events, previous: previous?.todayStats.events }} />
+          <StatCard label="New Users" value={newUsers} color="text-violet-700" subtitle="truly new devices" comparison={{ current: newUsers, previous: previous?.newUsers }} />
+          <StatCard label="Returning" value={returningUsers} color="text-cyan-700" subtitle="same device, new UID" comparison={{ current: returningUsers, previous: previous?.returningUsers }} />
+          <StatCard label="Onboarding" value={`${onboardingRate}%`} color="text-amber-700" comparison={{ current: onboardingRate, previous: previous?.onboardingRate, points: true }} />
         </div>
 
         {/* Stats Row 2 */}
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 sm:gap-4 mb-4 sm:mb-8">
-          <StatCard label="Avg Response" value={`${avgProcessingMs}ms`} color="text-cyan-700" />
-          <StatCard label="Baskets" value={basketsGenerated} color="text-pink-700" />
-          <StatCard label="Savings" value={`€${(totalSavings / 100).toFixed(0)}`} color="text-teal-700" />
-          <StatCard label="Messages" value={todayStats.messages} color="text-orange-700" />
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-2 sm:gap-4 mb-4 sm:mb-8">
+          <StatCard label="Avg Response" value={`${avgProcessingMs}ms`} color="text-cyan-700" comparison={{ current: avgProcessingMs, previous: previous?.avgProcessingMs, lowerIsBetter: true }} />
+          <StatCard label="Baskets" value={basketsGenerated} color="text-pink-700" comparison={{ current: basketsGenerated, previous: previous?.basketsGenerated }} />
+          <StatCard label="Savings" value={`€${(totalSavings / 100).toFixed(0)}`} color="text-teal-700" subtitle={SAVINGS_DEFINITIONS.shown.label} hint={SAVINGS_DEFINITIONS.shown.description} comparison={{ current: totalSavings, previous: previous?.totalSavings }} />
+          <StatCard label="Sessions" value={todayStats.sessions} color="text-indigo-700" subtitle="app sessions today" comparison={{ current: todayStats.sessions, previous: previous?.todayStats.sessions }} />
+          <StatCard label="Messages" value={todayStats.messages} color="text-orange-700" comparison={{ current: todayStats.messages, previous: previous?.todayStats.messages }} />
         </div>
 
         {/* Charts */}
@@ -443,12 +195,13 @@ export default function Dashboard() {
           <Card title="Daily Active Users">
             <div className="h-48 sm:h-64">
               <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={dailyStats} margin={{ top: 5, right: 5, bottom: 5, left: 0 }}>
+                <AreaChart data={dailyChart} margin={{ top: 5, right: 5, bottom: 5, left: 0 }}>
                   <CartesianGrid strokeDasharray="3 3" stroke="#E5E5EA" />
                   <XAxis dataKey="date" stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} axisLine={{ stroke: '#D1D5DB' }} />
                   <YAxis stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} axisLine={{ stroke: '#D1D5DB' }} tickFormatter={(v) => v.toLocaleString()} />
-                  <Tooltip contentStyle={{ backgroundColor: '#fff', border: '1px solid #E5E5EA', borderRadius: 12, fontWeight: 500 }} formatter={(value) => [Number(value).toLocaleString(), 'Users']} />
+                  <Tooltip contentStyle={{ backgroundColor: '#fff', border: '1px solid #E5E5EA', borderRadius: 12, fontWeight: 500 }} formatter={(value, name) => [Number(value).toLocaleString(), name]} />
                   <Area type="monotone" dataKey="unique_users" stroke="#2563EB" fill="#2563EB" fillOpacity={0.15} strokeWidth={2} name="Users" />
+                  {previous && <Area type="monotone" dataKey={(d: DailyPoint) => d.previous?.unique_users} stroke="#9CA3AF" fill="none" strokeDasharray="4 4" strokeWidth={2} name="Previous period" />}
                 </AreaChart>
               </ResponsiveContainer>
             </div>
@@ -457,12 +210,13 @@ export default function Dashboard() {
           <Card title="Daily Events">
             <div className="h-48 sm:h-64">
               <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={dailyStats} margin={{ top: 5, right: 5, bottom: 5, left: 0 }}>
+                <AreaChart data={dailyChart} margin={{ top: 5, right: 5, bottom: 5, left: 0 }}>
                   <CartesianGrid strokeDasharray="3 3" stroke="#E5E5EA" />
                   <XAxis dataKey="date" stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} axisLine={{ stroke: '#D1D5DB' }} />
                   <YAxis stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} axisLine={{ stroke: '#D1D5DB' }} tickFormatter={(v) => v.toLocaleString()} />
-                  <Tooltip contentStyle={{ backgroundColor: '#fff', border: '1px solid #E5E5EA', borderRadius: 12, fontWeight: 500 }} formatter={(value) => [Number(value).toLocaleString(), 'Events']} />
+                  <Tooltip contentStyle={{ backgroundColor: '#fff', border: '1px solid #E5E5EA', borderRadius: 12, fontWeight: 500 }} formatter={(value, name) => [Number(value).toLocaleString(), name]} />
                   <Area type="monotone" dataKey="total_events" stroke="#059669" fill="#059669" fillOpacity={0.15} strokeWidth={2} name="Events" />
+                  {previous && <Area type="monotone" dataKey={(d: DailyPoint) => d.previous?.total_events} stroke="#9CA3AF" fill="none" strokeDasharray="4 4" strokeWidth={2} name="Previous period" />}
                 </AreaChart>
               </ResponsiveContainer>
             </div>
@@ -552,6 +306,12 @@ export default function Dashboard() {
                 </BarChart>
               </ResponsiveContainer>
             </div>
+            {catalogue && (
+              <p className="text-xs text-gray-400 mt-2">
+                {catalogue.products.toLocaleString()} products across all stores
+                {catalogue.updatedAt ? ` · last updated ${format(new Date(catalogue.updatedAt), 'MMM dd, HH:mm')}` : ''}
+              </p>
+            )}
           </Card>
 
           <Card title="Chat Sessions">
@@ -585,24 +345,21 @@ export default function Dashboard() {
                   </tr>
                 </thead>
                 <tbody>
-                  {featureAdoption.map((f, i) => {
-                    const slug = f.feature.toLowerCase().replace(/ /g, '-');
-                    return (
-                      <tr key={f.feature} className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer" onClick={() => window.location.href = `/feature/${slug}`}>
-                        <td className="py-3 flex items-center gap-2">
-                          <span className="w-2 h-2 rounded-full" style={{ backgroundColor: COLORS[i % COLORS.length] }} />
-                          <span className="text-blue-700 hover:underline">{f.feature}</span>
-                        </td>
-                        <td className="text-right py-3 text-gray-600">{f.users}</td>
-                        <td className="text-right py-3 text-gray-600">{f.events.toLocaleString()}</td>
-                        <td className="text-right py-3">
-                          <span className="px-2 py-1 rounded-full text-xs font-medium" style={{ backgroundColor: COLORS[i % COLORS.length] + '20', color: COLORS[i % COLORS.length] }}>
-                            {f.adoption_rate}%
-                          </span>
-                        </td>
-                      </tr>
-                    );
-                  })}
+                  {featureAdoption.map((f, i) => (
+                    <tr key={f.feature} className="border-b border-gray-100 hover:bg-gray-50 cursor-pointer" onClick={() => window.location.href = `/feature/${f.slug}?${rangeQuery}`}>
+                      <td className="py-3 flex items-center gap-2">
+                        <span className="w-2 h-2 rounded-full" style={{ backgroundColor: COLORS[i % COLORS.length] }} />
+                        <span className="text-blue-700 hover:underline">{f.feature}</span>
+                      </td>
+                      <td className="text-right py-3 text-gray-600">{f.users}</td>
+                      <td className="text-right py-3 text-gray-600">{f.events.toLocaleString()}</td>
+                      <td className="text-right py-3">
+                        <span className="px-2 py-1 rounded-full text-xs font-medium" style={{ backgroundColor: COLORS[i % COLORS.length] + '20', color: COLORS[i % COLORS.length] }}>
+                          {f.adoption_rate}%
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
                 </tbody>
               </table>
             </div>
@@ -632,6 +389,9 @@ export default function Dashboard() {
                 </tbody>
               </table>
             </div>
+            <Link href={`/stores?${rangeQuery}`} className="inline-block text-xs sm:text-sm text-blue-700 hover:underline mt-3">
+              All stores and trends
+            </Link>
           </Card>
 
           <Card title="List Activity">
@@ -669,16 +429,6 @@ export default function Dashboard() {
   );
 }
 
-function StatCard({ label, value, color, subtitle }: { label: string; value: string | number; color: string; subtitle?: string }) {
-  return (
-    <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-5 shadow-sm">
-      <p className="text-gray-600 text-[10px] sm:text-xs font-medium mb-0.5 sm:mb-1">{label}</p>
-      <p className={`text-xl sm:text-2xl md:text-3xl font-semibold ${color}`}>{value}</p>
-      {subtitle && <p className="text-[10px] sm:text-xs text-gray-400 mt-0.5">{subtitle}</p>}
-    </div>
-  );
-}
-
 function Card({ title, children }: { title: string; children: React.ReactNode }) {
   return (
     <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm">
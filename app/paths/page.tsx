@@ -0,0 +1,220 @@
+'use client';
+
+import { use, useEffect, useState } from 'react';
+import { Sankey, Tooltip, ResponsiveContainer } from 'recharts';
+import type { SankeyNodeProps } from 'recharts';
+import Link from 'next/link';
+import PartialDataNotice from '../components/PartialDataNotice';
+import TimeRangePicker from '../components/TimeRangePicker';
+import { PATH_GROUPINGS, fetchMetrics } from '../lib/api';
+import { CHURN_ANCHOR, CHURN_DAYS, MAX_PATH_NODES, MAX_PATH_STEPS, OTHER_STEP, PATH_DIRECTIONS, parsePathSteps } from '../lib/metrics';
+import { EVENTS, FEATURES, eventsOf } from '../lib/taxonomy';
+import { parseSelection, selectionParams } from '../lib/timeRange';
+import type { PathGrouping, PathMetrics } from '../lib/api';
+import type { PathDirection } from '../lib/metrics';
+import type { FeatureSlug } from '../lib/taxonomy';
+import type { RangeSelection } from '../lib/timeRange';
+import { toSearchParams, useQuerySync } from '../lib/urlState';
+import type { SearchParams } from '../lib/urlState';
+
+const DIRECTION_LABELS: Record<PathDirection, string> = { after: 'After', before: 'Before' };
+
+const GROUPING_LABELS: Record<PathGrouping, string> = { feature: 'Features', event: 'Raw events' };
+
+const NODE_COLORS = ['#2563EB', '#059669', '#D97706', '#7C3AED', '#DB2777', '#0891B2', '#DC2626', '#16A34A'];
+
+// Same name, same color, whichever step it shows up in
+function nodeColor(name: string) {
+  if (!Object.hasOwn(EVENTS, name) && !Object.values(FEATURES).some(f => f.label === name)) return '#9CA3AF';
+  const hash = [...name].reduce((sum, char) => sum + char.charCodeAt(0), 0);
+  return NODE_COLORS[hash % NODE_COLORS.length];
+}
+
+export default function PathsPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const query = toSearchParams(use(searchParams));
+  const [anchor, setAnchor] = useState(() => {
+    const event = query.get('event');
+    return event && (event === CHURN_ANCHOR || Object.hasOwn(EVENTS, event)) ? event : 'basket_results_displayed';
+  });
+  const [direction, setDirection] = useState<PathDirection>(() => (query.get('direction') === 'before' ? 'before' : 'after'));
+  const [steps, setSteps] = useState(() => parsePathSteps(query.get('steps')));
+  const [group, setGroup] = useState<PathGrouping>(() => (query.get('group') === 'event' ? 'event' : 'feature'));
+  const [selection, setSelection] = useState<RangeSelection>(() => parseSelection(query));
+  const [paths, setPaths] = useState<PathMetrics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const rangeQuery = new URLSearchParams(selectionParams(selection)).toString();
+  const churn = anchor === CHURN_ANCHOR;
+
+  useQuerySync({ ...selectionParams(selection), event: anchor, direction, steps: String(steps), group });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+        const data = await fetchMetrics<PathMetrics>('paths', {
+          ...selectionParams(selection),
+          event: anchor,
+          direction,
+          steps: String(steps),
+          group,
+        }, controller.signal);
+        setPaths(data);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching data:', error);
+        setPaths(null);
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    fetchData();
+    return () => controller.abort();
+  }, [selection, anchor, direction, steps, group]);
+
+  const graph = paths?.graph;
+  const lastColumn = graph ? new Set(graph.nodes.map(node => node.step)).size - 1 : 0;
+
+  return (
+    <div className="min-h-screen bg-[#F5F5F7] text-gray-900">
+      {/* Navigation */}
+      <nav className="bg-white/80 backdrop-blur-xl border-b border-gray-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-3 sm:py-4 flex items-center gap-3">
+          <Link href={`/?${rangeQuery}`} className="text-gray-500 hover:text-gray-900">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </Link>
+          <h1 className="text-lg sm:text-xl font-semibold">Paths</h1>
+        </div>
+      </nav>
+
+      <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-4 sm:py-8">
+        <TimeRangePicker value={selection} onChange={setSelection} loading={loading} />
+
+        <PartialDataNotice meta={paths?.meta ?? null} />
+
+        {/* Controls */}
+        <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm mb-3 sm:mb-6 flex flex-col lg:flex-row lg:flex-wrap lg:items-center gap-3">
+          <div className="flex gap-1 bg-gray-100 p-1 rounded-lg self-start">
+            {PATH_DIRECTIONS.map(value => (
+              <button
+                key={value}
+                onClick={() => setDirection(value)}
+                disabled={churn}
+                className={`px-3 py-1.5 text-xs sm:text-sm font-medium rounded-md transition disabled:opacity-50 ${
+                  (churn ? 'before' : direction) === value
+                    ? 'bg-white text-gray-900 shadow-sm'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {DIRECTION_LABELS[value]}
+              </button>
+            ))}
+          </div>
+          <select
+            value={anchor}
+            onChange={e => setAnchor(e.target.value)}
+            className="px-3 py-1.5 text-sm rounded-lg bg-gray-100 text-gray-900"
+          >
+            <option value={CHURN_ANCHOR}>Churn (last event before {CHURN_DAYS}+ days away)</option>
+            {(Object.keys(FEATURES) as FeatureSlug[]).map(feature => (
+              <optgroup key={feature} label={FEATURES[feature].label}>
+                {eventsOf(feature).map(event => (
+                  <option key={event} value={event}>{event}</option>
+                ))}
+              </optgroup>
+            ))}
+          </select>
+          <div className="flex items-center gap-2">
+            <span className="text-xs sm:text-sm text-gray-500">Steps</span>
+            <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+              {Array.from({ length: MAX_PATH_STEPS }, (_, i) => i + 1).map(value => (
+                <button
+                  key={value}
+                  onClick={() => setSteps(value)}
+                  className={`px-3 py-1.5 text-xs sm:text-sm font-medium rounded-md transition ${
+                    steps === value
+                      ? 'bg-white text-gray-900 shadow-sm'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {value}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex gap-1 bg-gray-100 p-1 rounded-lg self-start lg:ml-auto">
+            {PATH_GROUPINGS.map(value => (
+              <button
+                key={value}
+                onClick={() => setGroup(value)}
+                className={`px-3 py-1.5 text-xs sm:text-sm font-medium rounded-md transition ${
+                  group === value
+                    ? 'bg-white text-gray-900 shadow-sm'
+                    : 'text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {GROUPING_LABELS[value]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Sankey */}
+        <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm">
+          <div className="flex items-baseline justify-between gap-3 mb-2 sm:mb-4">
+            <h2 className="text-base sm:text-lg font-semibold text-gray-900">
+              {churn ? 'Before churning' : `${DIRECTION_LABELS[direction]} ${anchor}`}
+            </h2>
+            {graph && <span className="text-xs sm:text-sm text-gray-500">{graph.users.toLocaleString()} users</span>}
+          </div>
+          <p className="text-xs text-gray-400 mb-4">
+            One path per user, from their {churn ? 'last event' : 'first occurrence in the period'}. Repeats of a step are
+            collapsed, and only the {MAX_PATH_NODES} busiest names per step are shown; the rest are grouped as {OTHER_STEP}.
+          </p>
+          {graph && graph.links.length > 0 ? (
+            <div className="h-[28rem] sm:h-[32rem]">
+              <ResponsiveContainer width="100%" height="100%">
+                <Sankey
+                  data={graph}
+                  align={churn || direction === 'before' ? 'justify' : 'left'}
+                  nodePadding={24}
+                  nodeWidth={10}
+                  margin={{ top: 10, right: 10, bottom: 10, left: 10 }}
+                  link={{ stroke: '#93C5FD', strokeOpacity: 0.35 }}
+                  node={(props: SankeyNodeProps) => <PathNodeShape {...props} lastColumn={lastColumn} />}
+                >
+                  <Tooltip contentStyle={{ backgroundColor: '#fff', border: '1px solid #E5E5EA', borderRadius: 12, fontWeight: 500 }} />
+                </Sankey>
+              </ResponsiveContainer>
+            </div>
+          ) : (
+            <p className="text-gray-400 text-center py-8">{loading ? 'Loading...' : 'No users reached this event in the period'}</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function PathNodeShape({ x, y, width, height, payload, lastColumn }: SankeyNodeProps & { lastColumn: number }) {
+  const alignEnd = payload.depth >= lastColumn && lastColumn > 0;
+  return (
+    <g>
+      <rect x={x} y={y} width={width} height={height} fill={nodeColor(payload.name)} rx={2} />
+      <text
+        x={alignEnd ? x - 6 : x + width + 6}
+        y={y + height / 2}
+        textAnchor={alignEnd ? 'end' : 'start'}
+        dominantBaseline="middle"
+        fontSize={11}
+        fontWeight={500}
+        fill="#374151"
+      >
+        {payload.name} ({Number(payload.value).toLocaleString()})
+      </text>
+    </g>
+  );
+}
@@ -0,0 +1,275 @@
+'use client';
+
+import { use, useEffect, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Cell,
+} from 'recharts';
+import Link from 'next/link';
+import Histogram from '../components/Histogram';
+import PartialDataNotice from '../components/PartialDataNotice';
+import StatCard from '../components/StatCard';
+import TimeRangePicker from '../components/TimeRangePicker';
+import UserLink from '../components/UserLink';
+import { alignPrevious, fetchMetrics } from '../lib/api';
+import { DEFAULT_AHA_CENTS, SAVINGS_DEFINITIONS, formatEuros, parseAhaThreshold } from '../lib/metrics';
+import { parseSelection, selectionParams, selectionWindow } from '../lib/timeRange';
+import type { SavingsMetrics, WithPrevious } from '../lib/api';
+import type { RangeSelection } from '../lib/timeRange';
+import { toSearchParams, useQuerySync } from '../lib/urlState';
+import type { SearchParams } from '../lib/urlState';
+
+type DailySavings = SavingsMetrics['dailyData'][number];
+type DailyPoint = DailySavings & { previous?: DailySavings };
+
+const TOOLTIP_STYLE = { backgroundColor: '#fff', border: '1px solid #E5E5EA', borderRadius: 12, fontWeight: 500 };
+
+export default function SavingsPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const query = toSearchParams(use(searchParams));
+  const [aha, setAha] = useState(() => parseAhaThreshold(query.get('aha')));
+  // Edited in euros, applied on blur or Enter
+  const [ahaDraft, setAhaDraft] = useState(() => String(aha / 100));
+  const [selection, setSelection] = useState<RangeSelection>(() => parseSelection(query));
+  const [savings, setSavings] = useState<WithPrevious<SavingsMetrics> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const rangeQuery = new URLSearchParams(selectionParams(selection)).toString();
+  const ahaParams: Record<string, string> = aha === DEFAULT_AHA_CENTS ? {} : { aha: String(aha) };
+
+  useQuerySync({ ...selectionParams(selection), ...ahaParams });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+        const data = await fetchMetrics<WithPrevious<SavingsMetrics>>('savings', {
+          ...selectionParams(selection),
+          aha: String(aha),
+        }, controller.signal);
+        setSavings(data);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching data:', error);
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    fetchData();
+    return () => controller.abort();
+  }, [selection, aha]);
+
+  const applyAha = (cents: number) => {
+    setAha(cents);
+    setAhaDraft(String(cents / 100));
+  };
+
+  const commitDraft = () => {
+    const cents = Math.round(Number(ahaDraft) * 100);
+    applyAha(ahaDraft.trim() !== '' && Number.isFinite(cents) ? parseAhaThreshold(String(cents)) : aha);
+  };
+
+  const stats = savings?.stats;
+  const previous = savings?.previous?.stats;
+
+  return (
+    <div className="min-h-screen bg-[#F5F5F7] text-gray-900">
+      {/* Navigation */}
+      <nav className="bg-white/80 backdrop-blur-xl border-b border-gray-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-3 sm:py-4 flex items-center gap-3">
+          <Link href={`/?${rangeQuery}`} className="text-gray-500 hover:text-gray-900">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </Link>
+          <h1 className="text-lg sm:text-xl font-semibold">Savings</h1>
+        </div>
+      </nav>
+
+      <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-4 sm:py-8">
+        <TimeRangePicker value={selection} onChange={setSelection} loading={loading} />
+
+        <PartialDataNotice meta={savings?.meta ?? null} />
+
+        <div className="flex flex-wrap items-center gap-2 sm:gap-3 mb-4 sm:mb-6">
+          <label htmlFor="aha" className="text-xs sm:text-sm text-gray-500">Aha moment at</label>
+          <div className="flex items-center bg-gray-100 rounded-lg px-3 py-1.5">
+            <span className="text-xs sm:text-sm text-gray-500">€</span>
+            <input
+              id="aha"
+              type="number"
+              min={0}
+              step={0.5}
+              value={ahaDraft}
+              onChange={e => setAhaDraft(e.target.value)}
+              onBlur={commitDraft}
+              onKeyDown={e => e.key === 'Enter' && commitDraft()}
+              className="w-16 bg-transparent text-xs sm:text-sm font-medium text-gray-900 focus:outline-none"
+            />
+          </div>
+          <span className="text-xs text-gray-400">savings in a single basket.</span>
+          {aha !== DEFAULT_AHA_CENTS && (
+            <button onClick={() => applyAha(DEFAULT_AHA_CENTS)} className="text-xs text-gray-500 hover:text-gray-900 transition">
+              Reset to {formatEuros(DEFAULT_AHA_CENTS)}
+            </button>
+          )}
+          <Link href={`/users?${new URLSearchParams({ ...selectionParams(selection), ...ahaParams })}`} className="text-xs sm:text-sm text-blue-700 hover:underline sm:ml-auto">
+            Users page with this threshold
+          </Link>
+        </div>
+
+        {stats && (
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-2 sm:gap-4 mb-4 sm:mb-8">
+            <StatCard label="Baskets" value={stats.baskets.toLocaleString()} color="text-blue-700" subtitle={`${stats.basketUsers.toLocaleString()} users`} comparison={{ current: stats.baskets, previous: previous?.baskets }} />
+            <StatCard label="Total" value={`€${(stats.totalSavings / 100).toFixed(0)}`} color="text-emerald-700" subtitle={SAVINGS_DEFINITIONS.shown.label} hint={SAVINGS_DEFINITIONS.shown.description} comparison={{ current: stats.totalSavings, previous: previous?.totalSavings }} />
+            <StatCard label="Avg" value={`€${(stats.avgSavings / 100).toFixed(2)}`} color="text-teal-700" subtitle={SAVINGS_DEFINITIONS.per_basket.label} hint={SAVINGS_DEFINITIONS.per_basket.description} comparison={{ current: stats.avgSavings, previous: previous?.avgSavings }} />
+            <StatCard label="Median" value={`€${(stats.medianSavings / 100).toFixed(2)}`} color="text-cyan-700" subtitle="per unique basket" hint="Median savings_cents over basket results shown, retries removed." comparison={{ current: stats.medianSavings, previous: previous?.medianSavings }} />
+            <StatCard label={`Aha! (${formatEuros(aha)}+)`} value={`${stats.ahaRate}%`} color="text-violet-700" subtitle={`${stats.ahaUsers.toLocaleString()} users`} comparison={{ current: stats.ahaRate, previous: previous?.ahaRate, points: true }} />
+            <StatCard label="Lifetime" value={`€${(stats.avgLifetimeSavings / 100).toFixed(2)}`} color="text-amber-700" subtitle="savings shown, avg per user" hint={`${SAVINGS_DEFINITIONS.shown.description} Summed over each user's baskets up to the end of the range.`} comparison={{ current: stats.avgLifetimeSavings, previous: previous?.avgLifetimeSavings }} />
+            <StatCard label="Saved Lists" value={`€${(stats.savedListSavings / 100).toFixed(0)}`} color="text-pink-700" subtitle={`${SAVINGS_DEFINITIONS.saved_lists.label}, ${stats.savedLists.toLocaleString()} lists`} hint={SAVINGS_DEFINITIONS.saved_lists.description} comparison={{ current: stats.savedListSavings, previous: previous?.savedListSavings }} />
+          </div>
+        )}
+
+        {savings && (
+          <>
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-6 mb-3 sm:mb-6">
+              <Card title="Savings per Basket">
+                <Histogram data={savings.distribution} color="#059669" name="Baskets" />
+                <div className="flex flex-wrap gap-2 mt-3">
+                  {savings.percentiles.map(p => (
+                    <span key={p.label} className="px-2 py-1 rounded-md bg-gray-50 text-xs">
+                      <span className="text-gray-500">{p.label}</span>{' '}
+                      <span className="font-semibold text-gray-900">€{(p.cents / 100).toFixed(2)}</span>
+                    </span>
+                  ))}
+                </div>
+              </Card>
+
+              <Card title="Users Reaching Each Threshold">
+                <div className="h-48 sm:h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={savings.ahaCurve} margin={{ top: 5, right: 5, bottom: 5, left: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#E5E5EA" />
+                      <XAxis dataKey="threshold" tickFormatter={formatEuros} stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} />
+                      <YAxis stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} unit="%" domain={[0, 100]} />
+                      <Tooltip
+                        contentStyle={TOOLTIP_STYLE}
+                        labelFormatter={(value) => `${formatEuros(Number(value))}+ in one basket`}
+                        formatter={(value) => [`${value}%`, 'Basket users']}
+                      />
+                      <Bar dataKey="rate" radius={[4, 4, 0, 0]} onClick={(entry) => applyAha(Number((entry as { threshold?: number }).threshold))} cursor="pointer">
+                        {savings.ahaCurve.map(point => (
+                          <Cell key={point.threshold} fill={point.threshold === aha ? '#7C3AED' : '#C4B5FD'} />
+                        ))}
+                      </Bar>
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+                <p className="text-xs text-gray-400 mt-2">Click a bar to use it as the aha threshold.</p>
+              </Card>
+
+              <Card title="Lifetime Savings per User">
+                <Histogram data={savings.lifetimeDistribution} color="#D97706" name="Users" />
+              </Card>
+
+              <Card title="Average Savings per Basket">
+                <div className="h-48 sm:h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={alignPrevious(savings.dailyData, savings.previous?.dailyData, selectionWindow(selection))} margin={{ top: 5, right: 5, bottom: 5, left: 0 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="#E5E5EA" />
+                      <XAxis dataKey="date" stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} />
+                      <YAxis stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} tickFormatter={formatEuros} />
+                      <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value) => `€${(Number(value) / 100).toFixed(2)}`} />
+                      <Line type="monotone" dataKey="avgSavings" stroke="#0D9488" strokeWidth={2} dot={false} name="Avg savings" />
+                      {savings.previous && <Line type="monotone" dataKey={(d: DailyPoint) => d.previous?.avgSavings} stroke="#9CA3AF" strokeDasharray="4 4" strokeWidth={2} dot={false} name="Previous period" />}
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+              </Card>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-6">
+              <Card title="By Store">
+                {savings.byStore.length > 0 ? (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-gray-500 border-b border-gray-200">
+                          <th className="text-left py-3 font-medium">Store</th>
+                          <th className="text-right py-3 font-medium">Baskets</th>
+                          <th className="text-right py-3 font-medium">Users</th>
+                          <th className="text-right py-3 font-medium">Avg</th>
+                          <th className="text-right py-3 font-medium">Median</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {savings.byStore.map(s => (
+                          <tr key={s.store} className="border-b border-gray-100">
+                            <td className="py-3 font-medium">{s.store}</td>
+                            <td className="py-3 text-right">{s.baskets.toLocaleString()}</td>
+                            <td className="py-3 text-right">{s.users.toLocaleString()}</td>
+                            <td className="py-3 text-right">€{(s.avgSavings / 100).toFixed(2)}</td>
+                            <td className="py-3 text-right">€{(s.medianSavings / 100).toFixed(2)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <p className="text-xs text-gray-400 mt-2">{stats?.storeCoverage}% of baskets in this range name a store.</p>
+                  </div>
+                ) : (
+                  <p className="text-gray-400 text-sm">
+                    No basket_results_displayed events in this range carry a <span className="font-mono">store</span> prop yet.
+                  </p>
+                )}
+              </Card>
+
+              <Card title="Top Savers">
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-gray-500 border-b border-gray-200">
+                        <th className="text-left py-3 font-medium">User</th>
+                        <th className="text-right py-3 font-medium">Baskets</th>
+                        <th className="text-right py-3 font-medium">Lifetime</th>
+                        <th className="text-right py-3 font-medium">Best</th>
+                        <th className="text-right py-3 font-medium">Since</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {savings.topUsers.map(u => (
+                        <tr key={u.user} className="border-b border-gray-100">
+                          <td className="py-3"><UserLink uid={u.user} query={rangeQuery} /></td>
+                          <td className="py-3 text-right">{u.baskets}</td>
+                          <td className="py-3 text-right font-medium">€{(u.lifetimeSavings / 100).toFixed(2)}</td>
+                          <td className="py-3 text-right">€{(u.bestBasket / 100).toFixed(2)}</td>
+                          <td className="py-3 text-right text-gray-500">{u.firstBasket}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </Card>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Card({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm">
+      <h2 className="text-base sm:text-lg font-semibold mb-2 sm:mb-4 text-gray-900">{title}</h2>
+      {children}
+    </div>
+  );
+}
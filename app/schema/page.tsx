@@ -0,0 +1,188 @@
+'use client';
+
+import { use, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import Link from 'next/link';
+import PartialDataNotice from '../components/PartialDataNotice';
+import StatCard from '../components/StatCard';
+import TimeRangePicker from '../components/TimeRangePicker';
+import { fetchMetrics } from '../lib/api';
+import { parseSelection, selectionParams } from '../lib/timeRange';
+import type { SchemaEvent, SchemaMetrics } from '../lib/api';
+import type { FetchMeta } from '../lib/fetchAll';
+import type { DriftStatus } from '../lib/metrics';
+import type { RangeSelection } from '../lib/timeRange';
+import { toSearchParams, useQuerySync } from '../lib/urlState';
+import type { SearchParams } from '../lib/urlState';
+
+const STATUS_STYLES: Record<DriftStatus, string> = {
+  new: 'bg-emerald-50 text-emerald-700',
+  removed: 'bg-gray-100 text-gray-500',
+  changed: 'bg-amber-50 text-amber-700',
+  unchanged: 'bg-gray-50 text-gray-400',
+};
+
+export default function SchemaPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const query = toSearchParams(use(searchParams));
+  const [events, setEvents] = useState<SchemaEvent[]>([]);
+  const [summary, setSummary] = useState<SchemaMetrics['summary'] | null>(null);
+  const [previousPeriod, setPreviousPeriod] = useState<SchemaMetrics['previousPeriod'] | null>(null);
+  const [meta, setMeta] = useState<FetchMeta | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [selection, setSelection] = useState<RangeSelection>(() => ({ ...parseSelection(query), compare: false }));
+  const [driftOnly, setDriftOnly] = useState(query.get('drift') !== '0');
+  const rangeQuery = new URLSearchParams(selectionParams(selection)).toString();
+
+  useQuerySync({ ...selectionParams(selection), ...(driftOnly ? {} : { drift: '0' }) });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+        const data = await fetchMetrics<SchemaMetrics>('schema', selectionParams(selection), controller.signal);
+        setEvents(data.events);
+        setSummary(data.summary);
+        setPreviousPeriod(data.previousPeriod);
+        setMeta(data.meta);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching data:', error);
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    fetchData();
+    return () => controller.abort();
+  }, [selection]);
+
+  const visibleEvents = driftOnly
+    ? events.filter(e => e.status !== 'unchanged' || !e.feature || e.props.some(p => p.mismatch))
+    : events;
+
+  return (
+    <div className="min-h-screen bg-[#F5F5F7] text-gray-900">
+      {/* Navigation */}
+      <nav className="bg-white/80 backdrop-blur-xl border-b border-gray-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-3 sm:py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Link href={`/?${rangeQuery}`} className="text-gray-500 hover:text-gray-900">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <h1 className="text-lg sm:text-xl font-semibold">Event Schema</h1>
+          </div>
+          {previousPeriod && (
+            <span className="text-[10px] sm:text-xs text-gray-400">
+              vs {format(new Date(previousPeriod.from), 'MMM dd')} – {format(new Date(new Date(previousPeriod.to).getTime() - 1), 'MMM dd')}
+            </span>
+          )}
+        </div>
+      </nav>
+
+      <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-4 sm:py-8">
+        <TimeRangePicker value={selection} onChange={setSelection} loading={loading} compare={false} />
+
+        <PartialDataNotice meta={meta} />
+
+        {summary && (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2 sm:gap-4 mb-4 sm:mb-8">
+            <StatCard label="New Events" value={summary.newEvents} color="text-emerald-700" subtitle="not seen before" />
+            <StatCard label="Removed Events" value={summary.removedEvents} color="text-gray-600" subtitle="no longer sent" />
+            <StatCard label="Changed Props" value={summary.changedProps} color="text-amber-700" subtitle="type differs from before" />
+            <StatCard label="Type Mismatches" value={summary.mismatches} color="text-red-600" subtitle="vs. taxonomy" />
+            <StatCard label="Unclaimed" value={summary.unclaimed} color="text-violet-700" subtitle="not in taxonomy" />
+          </div>
+        )}
+
+        <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+            <h2 className="text-base sm:text-lg font-semibold text-gray-900">Inferred Schema</h2>
+            <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+              {[
+                { value: true, label: 'Drift only' },
+                { value: false, label: 'All events' },
+              ].map((option) => (
+                <button
+                  key={option.label}
+                  onClick={() => setDriftOnly(option.value)}
+                  className={`px-3 py-1.5 text-xs sm:text-sm font-medium rounded-md transition ${
+                    driftOnly === option.value
+                      ? 'bg-white text-gray-900 shadow-sm'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-500 border-b border-gray-200">
+                  <th className="text-left py-3 font-medium">Event / Prop</th>
+                  <th className="text-left py-3 font-medium">Feature</th>
+                  <th className="text-left py-3 font-medium">Type</th>
+                  <th className="text-right py-3 font-medium">Count</th>
+                  <th className="text-right py-3 font-medium">Before</th>
+                  <th className="text-right py-3 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleEvents.length > 0 ? visibleEvents.map((e) => (
+                  <EventRows key={e.event} event={e} />
+                )) : (
+                  <tr>
+                    <td colSpan={6} className="py-4 text-center text-gray-400">
+                      {loading ? 'Loading...' : 'No schema drift in this period'}
+                    </td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function EventRows({ event }: { event: SchemaEvent }) {
+  return (
+    <>
+      <tr className="border-b border-gray-100 bg-gray-50/50">
+        <td className="py-3 font-medium font-mono text-xs sm:text-sm">{event.event}</td>
+        <td className="py-3">
+          {event.feature ?? <span className="px-2 py-1 rounded-full text-xs font-medium bg-violet-50 text-violet-700">unclaimed</span>}
+        </td>
+        <td className="py-3" />
+        <td className="text-right py-3 text-gray-600">{event.count.toLocaleString()}</td>
+        <td className="text-right py-3 text-gray-400">{event.previousCount.toLocaleString()}</td>
+        <td className="text-right py-3">
+          <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[event.status]}`}>{event.status}</span>
+        </td>
+      </tr>
+      {event.props.map((p) => (
+        <tr key={p.prop} className="border-b border-gray-100">
+          <td className="py-2 pl-4 font-mono text-xs text-gray-600">{p.prop}</td>
+          <td className="py-2 text-xs text-gray-400">{p.expected && `expects ${p.expected}`}</td>
+          <td className={`py-2 text-xs font-mono ${p.mismatch ? 'text-red-600 font-medium' : 'text-gray-600'}`}>
+            {p.status === 'changed' && <span className="text-gray-400 line-through mr-1">{p.previousTypes.join(' | ')}</span>}
+            {(p.status === 'removed' ? p.previousTypes : p.types).join(' | ')}
+          </td>
+          <td className="text-right py-2 text-xs text-gray-600">{p.count.toLocaleString()}</td>
+          <td className="py-2" />
+          <td className="text-right py-2">
+            {p.mismatch && <span className="px-2 py-1 rounded-full text-xs font-medium bg-red-50 text-red-600 mr-1">mismatch</span>}
+            {p.status !== 'unchanged' && (
+              <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[p.status]}`}>{p.status}</span>
+            )}
+          </td>
+        </tr>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,161 @@
+'use client';
+
+import { use, useEffect, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from 'recharts';
+import Link from 'next/link';
+import Histogram from '../components/Histogram';
+import PartialDataNotice from '../components/PartialDataNotice';
+import StatCard from '../components/StatCard';
+import TimeRangePicker from '../components/TimeRangePicker';
+import { alignPrevious, fetchMetrics } from '../lib/api';
+import { SESSION_GAPS, formatDuration, parseSessionGap } from '../lib/metrics';
+import { parseSelection, selectionParams, selectionWindow } from '../lib/timeRange';
+import type { DailySessions, SessionMetrics, WithPrevious } from '../lib/api';
+import type { RangeSelection } from '../lib/timeRange';
+import { toSearchParams, useQuerySync } from '../lib/urlState';
+import type { SearchParams } from '../lib/urlState';
+
+type DailyPoint = DailySessions & { previous?: DailySessions };
+
+const TOOLTIP_STYLE = { backgroundColor: '#fff', border: '1px solid #E5E5EA', borderRadius: 12, fontWeight: 500 };
+
+export default function SessionsPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const query = toSearchParams(use(searchParams));
+  const [gap, setGap] = useState(() => parseSessionGap(query.get('gap')));
+  const [selection, setSelection] = useState<RangeSelection>(() => parseSelection(query));
+  const [metrics, setMetrics] = useState<WithPrevious<SessionMetrics> | null>(null);
+  const [loading, setLoading] = useState(true);
+  const rangeQuery = new URLSearchParams(selectionParams(selection)).toString();
+
+  useQuerySync({ ...selectionParams(selection), gap: String(gap) });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+        const data = await fetchMetrics<WithPrevious<SessionMetrics>>('sessions', {
+          ...selectionParams(selection),
+          gap: String(gap),
+        }, controller.signal);
+        setMetrics(data);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching data:', error);
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    fetchData();
+    return () => controller.abort();
+  }, [selection, gap]);
+
+  const stats = metrics?.stats;
+  const previous = metrics?.previous?.stats;
+
+  return (
+    <div className="min-h-screen bg-[#F5F5F7] text-gray-900">
+      {/* Navigation */}
+      <nav className="bg-white/80 backdrop-blur-xl border-b border-gray-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-3 sm:py-4 flex items-center gap-3">
+          <Link href={`/?${rangeQuery}`} className="text-gray-500 hover:text-gray-900">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </Link>
+          <h1 className="text-lg sm:text-xl font-semibold">App Sessions</h1>
+        </div>
+      </nav>
+
+      <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-4 sm:py-8">
+        <TimeRangePicker value={selection} onChange={setSelection} loading={loading} />
+
+        <PartialDataNotice meta={metrics?.meta ?? null} />
+
+        <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3 mb-4 sm:mb-6">
+          <div className="flex items-center gap-2">
+            <span className="text-xs sm:text-sm text-gray-500">New session after</span>
+            <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+              {SESSION_GAPS.map(minutes => (
+                <button
+                  key={minutes}
+                  onClick={() => setGap(minutes)}
+                  className={`px-3 py-1.5 text-xs sm:text-sm font-medium rounded-md transition ${
+                    gap === minutes
+                      ? 'bg-white text-gray-900 shadow-sm'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {minutes}m
+                </button>
+              ))}
+            </div>
+          </div>
+          <p className="text-xs text-gray-400">
+            of inactivity, or at every app_launch.
+          </p>
+        </div>
+
+        {stats && (
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-2 sm:gap-4 mb-4 sm:mb-8">
+            <StatCard label="Sessions" value={stats.sessions.toLocaleString()} color="text-blue-700" comparison={{ current: stats.sessions, previous: previous?.sessions }} />
+            <StatCard label="Per User" value={stats.sessionsPerUser} color="text-emerald-700" subtitle={`${stats.users.toLocaleString()} users`} comparison={{ current: stats.sessionsPerUser, previous: previous?.sessionsPerUser }} />
+            <StatCard label="Per DAU" value={stats.sessionsPerDau} color="text-violet-700" subtitle="sessions per active day" comparison={{ current: stats.sessionsPerDau, previous: previous?.sessionsPerDau }} />
+            <StatCard label="Median Length" value={formatDuration(stats.medianLengthMs)} color="text-amber-700" comparison={{ current: stats.medianLengthMs, previous: previous?.medianLengthMs }} />
+            <StatCard label="Events/Session" value={stats.avgEvents} color="text-pink-700" comparison={{ current: stats.avgEvents, previous: previous?.avgEvents }} />
+            <StatCard label="From Launch" value={`${stats.launchedRate}%`} color="text-cyan-700" subtitle="opened by app_launch" comparison={{ current: stats.launchedRate, previous: previous?.launchedRate, points: true }} />
+          </div>
+        )}
+
+        {metrics && (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-6">
+            <Card title="Sessions per DAU">
+              <div className="h-48 sm:h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={alignPrevious(metrics.dailyData, metrics.previous?.dailyData, selectionWindow(selection))} margin={{ top: 5, right: 5, bottom: 5, left: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#E5E5EA" />
+                    <XAxis dataKey="date" stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} />
+                    <YAxis stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} />
+                    <Tooltip contentStyle={TOOLTIP_STYLE} />
+                    <Line type="monotone" dataKey="perDau" stroke="#7C3AED" strokeWidth={2} dot={false} name="Sessions per DAU" />
+                    {metrics.previous && <Line type="monotone" dataKey={(d: DailyPoint) => d.previous?.perDau} stroke="#9CA3AF" strokeDasharray="4 4" strokeWidth={2} dot={false} name="Previous period" />}
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            </Card>
+
+            <Card title="Session Length">
+              <Histogram data={metrics.lengthDistribution} color="#D97706" name="Sessions" />
+            </Card>
+
+            <Card title="Events per Session">
+              <Histogram data={metrics.eventsDistribution} color="#DB2777" name="Sessions" />
+            </Card>
+
+            <Card title="Sessions per User">
+              <Histogram data={metrics.perUserDistribution} color="#059669" name="Users" />
+            </Card>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function Card({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm">
+      <h2 className="text-base sm:text-lg font-semibold mb-2 sm:mb-4 text-gray-900">{title}</h2>
+      {children}
+    </div>
+  );
+}
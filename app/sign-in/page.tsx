@@ -0,0 +1,90 @@
+'use client';
+
+import { use, useState } from 'react';
+import { toSearchParams } from '../lib/urlState';
+import type { SearchParams } from '../lib/urlState';
+
+export default function SignInPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const next = toSearchParams(use(searchParams)).get('next');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const signIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSubmitting(true);
+      setError(null);
+      const response = await fetch('/api/auth/sign-in', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password }),
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        setError(body?.error ?? 'Failed to sign in');
+        return;
+      }
+      window.location.href = sameOriginPath(next);
+    } catch (error) {
+      console.error('Error signing in:', error);
+      setError('Failed to sign in');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-[#F5F5F7] flex items-center justify-center">
+      <form onSubmit={signIn} className="bg-white rounded-2xl p-6 sm:p-8 shadow-sm w-full max-w-sm">
+        <h1 className="text-2xl font-bold text-gray-900 mb-1">Spaartje</h1>
+        <p className="text-gray-500 text-sm mb-6">Sign in to view the dashboard.</p>
+
+        <label className="block text-xs font-medium text-gray-600 mb-1" htmlFor="email">Email</label>
+        <input
+          id="email"
+          type="email"
+          autoComplete="email"
+          required
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          className="w-full px-3 py-2 mb-4 border border-gray-200 rounded-lg text-sm text-gray-900"
+        />
+
+        <label className="block text-xs font-medium text-gray-600 mb-1" htmlFor="password">Password</label>
+        <input
+          id="password"
+          type="password"
+          autoComplete="current-password"
+          required
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="w-full px-3 py-2 mb-4 border border-gray-200 rounded-lg text-sm text-gray-900"
+        />
+
+        {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full py-2 rounded-lg bg-blue-700 text-white text-sm font-medium hover:bg-blue-800 transition disabled:opacity-50"
+        >
+          {submitting ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+// Only follow paths on this site. Resolving against the origin catches //host and /\host, which
+// browsers send to another site.
+function sameOriginPath(next: string | null) {
+  if (!next) return '/';
+  try {
+    const url = new URL(next, window.location.origin);
+    return url.origin === window.location.origin ? url.pathname + url.search + url.hash : '/';
+  } catch {
+    return '/';
+  }
+}
@@ -0,0 +1,420 @@
+'use client';
+
+import { use, useEffect, useState } from 'react';
+import {
+  BarChart,
+  Bar,
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from 'recharts';
+import { format } from 'date-fns';
+import Link from 'next/link';
+import PartialDataNotice from '../components/PartialDataNotice';
+import StatCard from '../components/StatCard';
+import TimeRangePicker from '../components/TimeRangePicker';
+import { fetchMetrics } from '../lib/api';
+import { DROP_SHARE, EXPIRY_HORIZONS, MIN_DROP_BASE } from '../lib/metrics';
+import { hasRole } from '../lib/roles';
+import { parseSelection, selectionParams } from '../lib/timeRange';
+import type { CataloguePoint, PromotionMetrics, StoreMetrics } from '../lib/api';
+import type { Session } from '../lib/auth';
+import type { RangeSelection } from '../lib/timeRange';
+import { toSearchParams, useQuerySync } from '../lib/urlState';
+import type { SearchParams } from '../lib/urlState';
+
+const TOOLTIP_STYLE = { backgroundColor: '#fff', border: '1px solid #E5E5EA', borderRadius: 12, fontWeight: 500 };
+
+export default function StoresPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const query = toSearchParams(use(searchParams));
+  const [store, setStore] = useState(() => Number(query.get('store')) || null);
+  const [selection, setSelection] = useState<RangeSelection>(() => parseSelection(query));
+  const [catalogue, setCatalogue] = useState<StoreMetrics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [promotions, setPromotions] = useState<PromotionMetrics | null>(null);
+  const [session, setSession] = useState<Session | null>(null);
+  const [recording, setRecording] = useState(false);
+  const [recordError, setRecordError] = useState<string | null>(null);
+  const [recordedAt, setRecordedAt] = useState<string | null>(null);
+  const canRecord = session !== null && hasRole(session.role, 'analyst');
+  const rangeQuery = new URLSearchParams(selectionParams(selection)).toString();
+
+  useQuerySync({ ...selectionParams(selection), ...(store ? { store: String(store) } : {}) });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+        const data = await fetchMetrics<StoreMetrics>('stores', selectionParams(selection), controller.signal);
+        setCatalogue(data);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching data:', error);
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    fetchData();
+    return () => controller.abort();
+  }, [selection, recordedAt]);
+
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then((response) => (response.ok ? response.json() : null))
+      .then(setSession)
+      .catch((error) => console.error('Error fetching session:', error));
+  }, []);
+
+  const recordCounts = async () => {
+    setRecording(true);
+    setRecordError(null);
+    try {
+      const response = await fetch('/api/metrics/stores', { method: 'POST' });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        setRecordError(data?.error ?? `Request failed: ${response.status}`);
+        return;
+      }
+      setRecordedAt(data.at);
+    } catch (error) {
+      console.error('Error recording store counts:', error);
+      setRecordError('Failed to record store counts');
+    } finally {
+      setRecording(false);
+    }
+  };
+
+  // Expiry and arrivals are counted from now, so they ignore the page's time range
+  useEffect(() => {
+    const fetchPromotions = async () => {
+      try {
+        const data = await fetchMetrics<PromotionMetrics>('promotions');
+        setPromotions(data);
+      } catch (error) {
+        console.error('Error fetching promotions:', error);
+      }
+    };
+
+    fetchPromotions();
+  }, []);
+
+  const active = catalogue?.stores.filter(s => s.active) ?? [];
+  const selected = catalogue?.stores.find(s => s.id === store);
+
+  return (
+    <div className="min-h-screen bg-[#F5F5F7] text-gray-900">
+      {/* Navigation */}
+      <nav className="bg-white/80 backdrop-blur-xl border-b border-gray-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-3 sm:py-4 flex items-center gap-3">
+          <Link href={`/?${rangeQuery}`} className="text-gray-500 hover:text-gray-900">
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </Link>
+          <h1 className="text-lg sm:text-xl font-semibold">Stores</h1>
+        </div>
+      </nav>
+
+      <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-4 sm:py-8">
+        <TimeRangePicker value={selection} onChange={setSelection} loading={loading} />
+
+        {catalogue && (
+          <>
+            <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2 mb-4 sm:mb-6">
+              <p className="text-xs text-gray-400">
+                Counts are recorded once a day with Record counts; recording again the same day replaces that day
+                {catalogue.trackedSince ? `; tracked since ${catalogue.trackedSince}` : ''}.
+                A drop is a fall of {Math.round(DROP_SHARE * 100)}% or more between two recordings, for stores with at least {MIN_DROP_BASE} rows.
+                {recordError && <span className="block text-red-600 mt-1">{recordError}</span>}
+              </p>
+              {canRecord && (
+                <button
+                  onClick={recordCounts}
+                  disabled={recording}
+                  className="px-3 py-1.5 text-xs sm:text-sm font-medium rounded-lg bg-blue-600 text-white hover:bg-blue-700 transition disabled:opacity-50 self-start shrink-0"
+                >
+                  {recording ? 'Recording…' : 'Record counts'}
+                </button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2 sm:gap-4 mb-4 sm:mb-8">
+              <StatCard label="Active Stores" value={active.length} color="text-blue-700" subtitle={`of ${catalogue.stores.length}`} />
+              <StatCard label="Products" value={active.reduce((sum, s) => sum + s.products, 0).toLocaleString()} color="text-emerald-700" subtitle={catalogue.catalogue.updatedAt ? `updated ${format(new Date(catalogue.catalogue.updatedAt), 'MMM dd HH:mm')}` : 'store offerings'} />
+              <StatCard label="Promotions" value={active.reduce((sum, s) => sum + s.promos, 0).toLocaleString()} color="text-violet-700" subtitle="active" />
+              <StatCard label="Drops" value={catalogue.drops.length} color={catalogue.drops.length > 0 ? 'text-red-600' : 'text-gray-900'} subtitle={`over ${catalogue.snapshots} recordings`} />
+              <StatCard label="Empty Stores" value={catalogue.empty.length} color={catalogue.empty.length > 0 ? 'text-red-600' : 'text-gray-900'} subtitle="active, no offerings" />
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-6 mb-3 sm:mb-6">
+              <Card title="Catalogue Over Time">
+                {catalogue.totals.length > 1 ? (
+                  <CatalogueChart data={catalogue.totals} />
+                ) : (
+                  <p className="text-gray-400 text-sm">Needs recordings from at least two days</p>
+                )}
+              </Card>
+
+              <Card title={selected ? selected.name : 'Store History'}>
+                {selected && selected.history.length > 1 ? (
+                  <CatalogueChart data={selected.history} />
+                ) : (
+                  <p className="text-gray-400 text-sm">
+                    {selected ? 'Needs recordings from at least two days' : 'Pick a store in the table below'}
+                  </p>
+                )}
+              </Card>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-6 mb-3 sm:mb-6">
+              <Card title="Sharp Drops">
+                {catalogue.drops.length > 0 ? (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-gray-500 border-b border-gray-200">
+                          <th className="text-left py-3 font-medium">Day</th>
+                          <th className="text-left py-3 font-medium">Store</th>
+                          <th className="text-left py-3 font-medium">Count</th>
+                          <th className="text-right py-3 font-medium">Before</th>
+                          <th className="text-right py-3 font-medium">After</th>
+                          <th className="text-right py-3 font-medium">Change</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {catalogue.drops.map(d => (
+                          <tr key={`${d.storeId}-${d.metric}-${d.day}`} className="border-b border-gray-100">
+                            <td className="py-3 text-gray-500">{d.day}</td>
+                            <td className="py-3">
+                              <button onClick={() => setStore(d.storeId)} className="font-medium hover:text-blue-700 transition">{d.store}</button>
+                            </td>
+                            <td className="py-3 text-gray-600">{d.metric === 'products' ? 'Products' : 'Promotions'}</td>
+                            <td className="py-3 text-right">{d.before.toLocaleString()}</td>
+                            <td className="py-3 text-right">{d.after.toLocaleString()}</td>
+                            <td className="py-3 text-right font-medium text-red-600">{d.change}%</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <p className="text-gray-400 text-sm">No sharp drops in this range</p>
+                )}
+              </Card>
+
+              <Card title="Active Stores Without Offerings">
+                {catalogue.empty.length > 0 ? (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-gray-500 border-b border-gray-200">
+                          <th className="text-left py-3 font-medium">Store</th>
+                          <th className="text-right py-3 font-medium">Promotions</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {catalogue.empty.map(s => (
+                          <tr key={s.id} className="border-b border-gray-100">
+                            <td className="py-3 font-medium">{s.name}</td>
+                            <td className="py-3 text-right text-gray-600">{s.promos.toLocaleString()}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <p className="text-gray-400 text-sm">Every active store has offerings</p>
+                )}
+              </Card>
+            </div>
+
+            {promotions && <PromotionFreshness promotions={promotions} onSelect={setStore} />}
+
+            <Card title="All Stores">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-gray-500 border-b border-gray-200">
+                      <th className="text-left py-3 font-medium">Store</th>
+                      <th className="text-right py-3 font-medium">Products</th>
+                      <th className="text-right py-3 font-medium">Since Start</th>
+                      <th className="text-right py-3 font-medium">Promotions</th>
+                      <th className="text-right py-3 font-medium">Since Start</th>
+                      <th className="text-right py-3 font-medium">Drops</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {catalogue.stores.map(s => (
+                      <tr key={s.id} className={`border-b border-gray-100 ${s.id === store ? 'bg-blue-50' : ''}`}>
+                        <td className="py-3">
+                          <button onClick={() => setStore(s.id)} className={`font-medium hover:text-blue-700 transition ${s.active ? '' : 'text-gray-400'}`}>
+                            {s.name}
+                          </button>
+                          {!s.active && <span className="ml-2 text-xs text-gray-400">inactive</span>}
+                        </td>
+                        <td className="py-3 text-right">{s.products.toLocaleString()}</td>
+                        <td className="py-3 text-right"><Change now={s.products} start={s.startProducts} /></td>
+                        <td className="py-3 text-right">{s.promos.toLocaleString()}</td>
+                        <td className="py-3 text-right"><Change now={s.promos} start={s.startPromos} /></td>
+                        <td className={`py-3 text-right ${s.drops > 0 ? 'font-medium text-red-600' : 'text-gray-400'}`}>{s.drops}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function PromotionFreshness({ promotions, onSelect }: { promotions: PromotionMetrics; onSelect: (store: number) => void }) {
+  const { totals, weeks } = promotions;
+  const quiet = promotions.stores.filter(s => s.quietSince !== null);
+  const current = weeks.length - 1;
+
+  return (
+    <>
+      <h2 className="text-lg font-semibold mb-3 text-gray-700">Promotion Freshness</h2>
+      <PartialDataNotice meta={promotions.meta} />
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2 sm:gap-4 mb-3 sm:mb-6">
+        {EXPIRY_HORIZONS.map((days, i) => (
+          <StatCard key={days} label={`Expiring ${days}d`} value={totals.expiring[i].toLocaleString()} color="text-amber-700" subtitle={`of ${totals.active.toLocaleString()} active`} />
+        ))}
+        <StatCard label="Stale" value={totals.stale.toLocaleString()} color={totals.stale > 0 ? 'text-red-600' : 'text-gray-900'} subtitle="active past end date" />
+        <StatCard label="Overdue Refresh" value={quiet.length} color={quiet.length > 0 ? 'text-red-600' : 'text-gray-900'} subtitle="no new promos in 7 days" />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-6 mb-3 sm:mb-6">
+        <Card title="New Promotions per Week">
+          <div className="h-48 sm:h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={weeks.map((week, i) => ({ week, count: totals.arrivals[i] }))} margin={{ top: 5, right: 5, bottom: 5, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#E5E5EA" />
+                <XAxis dataKey="week" stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} />
+                <YAxis stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} allowDecimals={false} />
+                <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value) => [Number(value).toLocaleString(), 'Promotions']} />
+                <Bar dataKey="count" fill="#7C3AED" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-xs text-gray-400 mt-2">Weeks start on Monday; the last bar is the current week so far.</p>
+        </Card>
+
+        <Card title="Overdue Refreshes">
+          {quiet.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-500 border-b border-gray-200">
+                    <th className="text-left py-3 font-medium">Store</th>
+                    <th className="text-left py-3 font-medium">Last Arrival</th>
+                    <th className="text-right py-3 font-medium">Expiring 3d</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {quiet.map(s => (
+                    <tr key={s.storeId} className="border-b border-gray-100">
+                      <td className="py-3">
+                        <button onClick={() => onSelect(s.storeId)} className="font-medium hover:text-blue-700 transition">{s.store}</button>
+                      </td>
+                      <td className="py-3 text-red-600">{s.quietSince}</td>
+                      <td className="py-3 text-right">{s.expiring[1].toLocaleString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-gray-400 text-sm">Every store that gets weekly promotions got them in the last 7 days</p>
+          )}
+        </Card>
+      </div>
+
+      <div className="mb-3 sm:mb-6">
+        <Card title="Promotions by Store">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-500 border-b border-gray-200">
+                  <th className="text-left py-3 font-medium">Store</th>
+                  <th className="text-right py-3 font-medium">Active</th>
+                  {EXPIRY_HORIZONS.map(days => (
+                    <th key={days} className="text-right py-3 font-medium">Expiring {days}d</th>
+                  ))}
+                  <th className="text-right py-3 font-medium">Stale</th>
+                  <th className="text-right py-3 font-medium">This Week</th>
+                  <th className="text-right py-3 font-medium">Last Week</th>
+                </tr>
+              </thead>
+              <tbody>
+                {promotions.stores.map(s => (
+                  <tr key={s.storeId} className="border-b border-gray-100">
+                    <td className="py-3">
+                      <button onClick={() => onSelect(s.storeId)} className="font-medium hover:text-blue-700 transition">{s.store}</button>
+                    </td>
+                    <td className="py-3 text-right">{s.active.toLocaleString()}</td>
+                    {s.expiring.map((count, i) => (
+                      <td key={EXPIRY_HORIZONS[i]} className={`py-3 text-right ${count > 0 ? 'text-amber-700' : 'text-gray-400'}`}>{count.toLocaleString()}</td>
+                    ))}
+                    <td className={`py-3 text-right ${s.stale > 0 ? 'font-medium text-red-600' : 'text-gray-400'}`}>{s.stale.toLocaleString()}</td>
+                    <td className={`py-3 text-right ${s.quietSince ? 'text-red-600' : ''}`}>{s.arrivals[current].toLocaleString()}</td>
+                    <td className="py-3 text-right text-gray-600">{s.arrivals[current - 1].toLocaleString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      </div>
+    </>
+  );
+}
+
+function CatalogueChart({ data }: { data: CataloguePoint[] }) {
+  return (
+    <div className="h-48 sm:h-64">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data} margin={{ top: 5, right: 5, bottom: 5, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#E5E5EA" />
+          <XAxis dataKey="date" stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} />
+          <YAxis yAxisId="products" stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} />
+          <YAxis yAxisId="promos" orientation="right" stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} />
+          <Tooltip contentStyle={TOOLTIP_STYLE} />
+          <Legend wrapperStyle={{ fontSize: 12 }} />
+          <Line yAxisId="products" type="monotone" dataKey="products" stroke="#059669" strokeWidth={2} dot={false} name="Products" />
+          <Line yAxisId="promos" type="monotone" dataKey="promos" stroke="#7C3AED" strokeWidth={2} dot={false} name="Promotions" />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+function Change({ now, start }: { now: number; start: number | null }) {
+  if (start === null) return <span className="text-gray-400">–</span>;
+  const diff = now - start;
+  if (diff === 0) return <span className="text-gray-400">0</span>;
+  return (
+    <span className={diff > 0 ? 'text-emerald-700' : 'text-red-600'}>
+      {diff > 0 ? '+' : ''}{diff.toLocaleString()}
+    </span>
+  );
+}
+
+function Card({ title, children }: { title: string; children: React.ReactNode }) {
+  return (
+    <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm">
+      <h2 className="text-base sm:text-lg font-semibold mb-2 sm:mb-4 text-gray-900">{title}</h2>
+      {children}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { use, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import { format } from 'date-fns';
+import Link from 'next/link';
+import PartialDataNotice from '../../components/PartialDataNotice';
+import StatCard from '../../components/StatCard';
+import { fetchMetrics } from '../../lib/api';
+import { SAVINGS_DEFINITIONS } from '../../lib/metrics';
+import type { TimelineEntry, TimelineKind, UserMetrics } from '../../lib/api';
+import { parseSelection, selectionParams } from '../../lib/timeRange';
+import { toSearchParams, useQuerySync } from '../../lib/urlState';
+import type { SearchParams } from '../../lib/urlState';
+
+type TimelineFilter = 'all' | 'event' | 'chat';
+
+const KIND_STYLES: Record<TimelineKind, { label: string; className: string }> = {
+  event: { label: 'event', className: 'bg-blue-50 text-blue-700' },
+  chat_session: { label: 'session', className: 'bg-violet-50 text-violet-700' },
+  chat_message: { label: 'chat', className: 'bg-pink-50 text-pink-700' },
+};
+
+function formatProp(value: unknown) {
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
+export default function UserPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const params = useParams();
+  const uid = decodeURIComponent(params.uid as string);
+  const query = toSearchParams(use(searchParams));
+  // The range is only carried back to the pages this one was opened from
+  const range = selectionParams(parseSelection(query));
+  const rangeQuery = new URLSearchParams(range).toString();
+
+  const [user, setUser] = useState<UserMetrics | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<TimelineFilter>(() => {
+    const show = query.get('show');
+    return show === 'event' || show === 'chat' ? show : 'all';
+  });
+
+  useQuerySync({ ...range, ...(filter === 'all' ? {} : { show: filter }) });
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const fetchData = async () => {
+      try {
+        setLoading(true);
+        setUser(await fetchMetrics<UserMetrics>(`user/${encodeURIComponent(uid)}`, {}, controller.signal));
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching data:', error);
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    fetchData();
+    return () => controller.abort();
+  }, [uid]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-[#F5F5F7] flex items-center justify-center">
+        <div className="text-gray-500 text-lg font-medium">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="min-h-screen bg-[#F5F5F7] flex items-center justify-center">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Could not load this user</h1>
+          <Link href={`/?${rangeQuery}`} className="text-blue-700 hover:underline">Back to Dashboard</Link>
+        </div>
+      </div>
+    );
+  }
+
+  const visible = user.timeline.filter(entry =>
+    filter === 'all' || (filter === 'event' ? entry.kind === 'event' : entry.kind !== 'event'));
+
+  // Consecutive entries grouped under their calendar day
+  const days: { day: string; entries: TimelineEntry[] }[] = [];
+  visible.forEach(entry => {
+    const day = format(new Date(entry.at), 'EEE MMM dd, yyyy');
+    if (days[days.length - 1]?.day !== day) days.push({ day, entries: [] });
+    days[days.length - 1].entries.push(entry);
+  });
+
+  const { stats } = user;
+
+  return (
+    <div className="min-h-screen bg-[#F5F5F7] text-gray-900">
+      {/* Navigation */}
+      <nav className="bg-white/80 backdrop-blur-xl border-b border-gray-200 sticky top-0 z-50">
+        <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-3 sm:py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3 min-w-0">
+            <Link href={`/?${rangeQuery}`} className="text-gray-500 hover:text-gray-900">
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <h1 className="text-lg sm:text-xl font-semibold">User</h1>
+            <span className="font-mono text-xs sm:text-sm text-gray-500 truncate">{user.uid}</span>
+          </div>
+          <div className="flex gap-1">
+            {user.platforms.map(platform => (
+              <span key={platform} className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-600">{platform}</span>
+            ))}
+          </div>
+        </div>
+      </nav>
+
+      <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-4 sm:py-8">
+        <PartialDataNotice meta={user.meta} />
+
+        {/* Stats */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2 sm:gap-4 mb-2 sm:mb-4">
+          <StatCard label="First Seen" value={stats.firstSeen ? format(new Date(stats.firstSeen), 'MMM dd') : '-'} color="text-gray-900" subtitle={stats.firstSeen ? format(new Date(stats.firstSeen), 'yyyy HH:mm') : undefined} />
+          <StatCard label="Last Seen" value={stats.lastSeen ? format(new Date(stats.lastSeen), 'MMM dd') : '-'} color="text-gray-900" subtitle={stats.lastSeen ? format(new Date(stats.lastSeen), 'yyyy HH:mm') : undefined} />
+          <StatCard label="Events" value={stats.events.toLocaleString()} color="text-blue-700" subtitle={`${stats.activeDays} active days`} />
+          <StatCard label="Chat" value={stats.chatSessions} color="text-violet-700" subtitle={`${stats.chatMessages} messages`} />
+        </div>
+        <div className="grid grid-cols-2 gap-2 sm:gap-4 mb-4 sm:mb-8">
+          <StatCard label="Baskets" value={stats.baskets} color="text-amber-700" subtitle="results shown" />
+          <StatCard label="Total Savings" value={`€${(stats.totalSavings / 100).toFixed(2)}`} color="text-emerald-700" subtitle={SAVINGS_DEFINITIONS.shown.label} hint={SAVINGS_DEFINITIONS.shown.description} />
+        </div>
+
+        {/* Timeline */}
+        <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+            <h2 className="text-base sm:text-lg font-semibold text-gray-900">Timeline</h2>
+            <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+              {([
+                { value: 'all', label: 'All' },
+                { value: 'event', label: 'Events' },
+                { value: 'chat', label: 'Chat' },
+              ] as const).map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => setFilter(option.value)}
+                  className={`px-3 py-1.5 text-xs sm:text-sm font-medium rounded-md transition ${
+                    filter === option.value
+                      ? 'bg-white text-gray-900 shadow-sm'
+                      : 'text-gray-500 hover:text-gray-700'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {days.length > 0 ? (
+            <div className="space-y-6">
+              {days.map(({ day, entries }) => (
+                <div key={day}>
+                  <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">{day}</h3>
+                  <div className="border-l-2 border-gray-100 pl-3 sm:pl-4 space-y-2">
+                    {entries.map((entry, i) => (
+                      <div key={`${entry.at}-${i}`} className="flex flex-col sm:flex-row sm:items-start gap-1 sm:gap-3 text-sm">
+                        <span className="font-mono text-xs text-gray-400 sm:w-16 shrink-0 pt-0.5">{format(new Date(entry.at), 'HH:mm:ss')}</span>
+                        <span className={`px-1.5 py-0.5 rounded text-[10px] font-medium self-start shrink-0 ${KIND_STYLES[entry.kind].className}`}>
+                          {KIND_STYLES[entry.kind].label}
+                        </span>
+                        <div className="min-w-0">
+                          <span className="font-medium">{entry.name.replace(/_/g, ' ')}</span>
+                          {entry.detail && <span className="text-gray-500 text-xs"> · {entry.detail}</span>}
+                          {entry.props && Object.keys(entry.props).length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {Object.entries(entry.props).map(([key, value]) => (
+                                <span key={key} className="px-1.5 py-0.5 rounded bg-gray-50 font-mono text-[10px] sm:text-xs text-gray-600 break-all">
+                                  {key}={formatProp(value)}
+                                </span>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-gray-400 text-center py-8">Nothing recorded for this user</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,6 @@
 'use client';
 
-import { useEffect, useState } from 'react';
-import { supabase } from '../lib/supabase';
+import { use, useEffect, useState } from 'react';
 import {
   AreaChart,
   Area,
@@ -15,48 +14,87 @@ import {
   Tooltip,
   ResponsiveContainer,
   Cell,
+  Legend,
 } from 'recharts';
-import { format, subDays, subMonths, startOfWeek, differenceInDays } from 'date-fns';
+import { format } from 'date-fns';
 import Link from 'next/link';
+import BreakdownPicker from '../components/BreakdownPicker';
+import PartialDataNotice from '../components/PartialDataNotice';
+import StatCard from '../components/StatCard';
+import TimeRangePicker from '../components/TimeRangePicker';
+import { alignPrevious, fetchMetrics } from '../lib/api';
+import { COHORT_ANCHORS, DEFAULT_AHA_CENTS, GRANULARITIES, MAX_COHORT_PERIODS, RETENTION_MODES, SAVINGS_DEFINITIONS, formatEuros, parseBreakdown } from '../lib/metrics';
+import type { CohortAnchor, Granularity, RetentionMode } from '../lib/metrics';
+import { parseSelection, selectionParams, selectionWindow } from '../lib/timeRange';
+import type {
+  DailyUsers,
+  WeeklyUsers,
+  UserSegment,
+  LatencyData,
+  UsersMetrics,
+  LatencyMetrics,
+  CohortData,
+  CohortMetrics,
+  RetentionMetrics,
+  WithPrevious,
+} from '../lib/api';
+import type { FetchMeta } from '../lib/fetchAll';
+import type { RangeSelection } from '../lib/timeRange';
+import { toSearchParams, useQuerySync } from '../lib/urlState';
+import type { SearchParams } from '../lib/urlState';
+
+type DailyPoint = DailyUsers & { previous?: DailyUsers };
+
+const GRANULARITY_LABELS: Record<Granularity, { label: string; short: string }> = {
+  day: { label: 'Daily', short: 'D' },
+  week: { label: 'Weekly', short: 'W' },
+  month: { label: 'Monthly', short: 'M' },
+};
+
+const ANCHOR_LABELS: Record<CohortAnchor, string> = {
+  first_event: 'First event',
+  new_user: 'New user',
+};
+
+const RETENTION_MODE_LABELS: Record<RetentionMode, { label: string; description: string }> = {
+  classic: { label: 'Classic', description: 'Active again exactly N days after first use.' },
+  rolling: { label: 'Rolling', description: 'Active again N or more days after first use.' },
+};
 
 const COLORS = ['#2563EB', '#059669', '#D97706', '#DC2626', '#7C3AED', '#DB2777', '#0891B2', '#16A34A'];
 
-interface DailyUsers {
-  date: string;
-  dau: number;
-  events: number;
-}
-
-interface WeeklyUsers {
-  week: string;
-  wau: number;
-  baskets: number;
-  basketsPerUser: number;
-}
-
-interface RetentionData {
-  cohort: string;
-  users: number;
-  w1: number;
-  w2: number;
-  w4: number;
-}
-
-interface UserSegment {
-  segment: string;
-  users: number;
-  avgEvents: number;
-  avgSavings: number;
-}
-
-export default function UsersPage() {
+export default function UsersPage({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  const query = toSearchParams(use(searchParams));
   const [dailyUsers, setDailyUsers] = useState<DailyUsers[]>([]);
   const [weeklyUsers, setWeeklyUsers] = useState<WeeklyUsers[]>([]);
-  const [retentionData, setRetentionData] = useState<RetentionData[]>([]);
   const [userSegments, setUserSegments] = useState<UserSegment[]>([]);
-  const [latencyData, setLatencyData] = useState<{type: string; count: number; avg: number; p50: number; p95: number}[]>([]);
-  const [latencyTimeRange, setLatencyTimeRange] = useState<'24h' | '7d' | '30d' | 'all'>('30d');
+  const [latencyData, setLatencyData] = useState<LatencyData[]>([]);
   const [latencyLoading, setLatencyLoading] = useState(false);
+  const [cohorts, setCohorts] = useState<CohortData[]>([]);
+  const [cohortGranularity, setCohortGranularity] = useState<Granularity>(() => {
+    const granularity = query.get('cohort') as Granularity;
+    return GRANULARITIES.includes(granularity) ? granularity : 'week';
+  });
+  const [cohortAnchor, setCohortAnchor] = useState<CohortAnchor>(() => {
+    const anchor = query.get('anchor') as CohortAnchor;
+    return COHORT_ANCHORS.includes(anchor) ? anchor : 'first_event';
+  });
+  const [cohortPeriods, setCohortPeriods] = useState(() => {
+    const periods = Number(query.get('periods'));
+    return periods >= 1 && periods <= MAX_COHORT_PERIODS ? Math.round(periods) : MAX_COHORT_PERIODS;
+  });
+  const [cohortLoading, setCohortLoading] = useState(false);
+  const [retention, setRetention] = useState<RetentionMetrics | null>(null);
+  const [retentionMode, setRetentionMode] = useState<RetentionMode>(() => {
+    const mode = query.get('curve') as RetentionMode;
+    return RETENTION_MODES.includes(mode) ? mode : 'classic';
+  });
+  // 'cohort' or a breakdown dimension; a half-typed prop name falls back to cohorts in the route
+  const [retentionBy, setRetentionBy] = useState(() => {
+    const overlay = query.get('overlay');
+    return overlay && parseBreakdown(overlay) ? overlay : 'cohort';
+  });
+  const [retentionLoading, setRetentionLoading] = useState(false);
   const [stats, setStats] = useState({
     dau: 0,
     wau: 0,
@@ -73,394 +111,138 @@ export default function UsersPage() {
     onboardingCompletionRate: 0,
     firstBasketRate: 0,
     ahaEventRate: 0,
+    ahaThreshold: DEFAULT_AHA_CENTS,
   });
+  // Tuned on the savings page and carried over in the URL
+  const [aha] = useState(() => query.get('aha'));
   const [acquisitionMetrics, setAcquisitionMetrics] = useState({
     trulyNewUsers: 0,
     returningDeviceUsers: 0,
     newUserConversionRate: 0, // % of new users who generate a basket
   });
+  const [meta, setMeta] = useState<FetchMeta | null>(null);
   const [loading, setLoading] = useState(true);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
-  const [timeRange, setTimeRange] = useState<'24h' | '7d' | '30d' | '3m' | '6m' | '9m' | '1y'>('30d');
-
-  const getDateFilter = (range: typeof timeRange) => {
-    switch (range) {
-      case '24h': return subDays(new Date(), 1).toISOString();
-      case '7d': return subDays(new Date(), 7).toISOString();
-      case '30d': return subDays(new Date(), 30).toISOString();
-      case '3m': return subMonths(new Date(), 3).toISOString();
-      case '6m': return subMonths(new Date(), 6).toISOString();
-      case '9m': return subMonths(new Date(), 9).toISOString();
-      case '1y': return subMonths(new Date(), 12).toISOString();
-    }
-  };
+  const [selection, setSelection] = useState<RangeSelection>(() => parseSelection(query));
+  const [previous, setPrevious] = useState<UsersMetrics | undefined>();
+  const rangeQuery = new URLSearchParams(selectionParams(selection)).toString();
+
+  useQuerySync({
+    ...selectionParams(selection),
+    cohort: cohortGranularity,
+    anchor: cohortAnchor,
+    periods: String(cohortPeriods),
+    curve: retentionMode,
+    overlay: retentionBy,
+    ...(aha ? { aha } : {}),
+  });
 
   useEffect(() => {
+    const controller = new AbortController();
     const fetchData = async () => {
-      setLoading(true);
-      const dateFilter = getDateFilter(timeRange);
-      const sevenDaysAgo = subDays(new Date(), 7).toISOString();
-      const today = format(new Date(), 'yyyy-MM-dd');
-
-      // Fetch all events
-      const { data: events } = await supabase
-        .from('analytics_events')
-        .select('received_at, firebase_uid, event_name, props')
-        .gte('received_at', dateFilter)
-        .order('received_at', { ascending: true });
-
-      // Fetch chat messages for processing times
-      const { data: messages } = await supabase
-        .from('chat_messages')
-        .select('processing_ms, response_type')
-        .not('processing_ms', 'is', null)
-        .not('response_type', 'is', null)
-        .order('created_at', { ascending: false })
-        .limit(500);
-
-      if (!events) {
-        setLoading(false);
-        return;
+      try {
+        setLoading(true);
+        const data = await fetchMetrics<WithPrevious<UsersMetrics>>('users', {
+          ...selectionParams(selection),
+          ...(aha ? { aha } : {}),
+        }, controller.signal);
+
+        setDailyUsers(data.dailyUsers);
+        setWeeklyUsers(data.weeklyUsers);
+        setUserSegments(data.userSegments);
+        setActivationMetrics(data.activationMetrics);
+        setAcquisitionMetrics(data.acquisitionMetrics);
+        setStats(data.stats);
+        setMeta(data.meta);
+        setPrevious(data.previous);
+
+        setLastUpdated(new Date());
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching data:', error);
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
       }
-
-      // === DAU / WAU / MAU ===
-      const todayUsers = new Set(events.filter(e => e.received_at.startsWith(today)).map(e => e.firebase_uid));
-      const weekUsers = new Set(events.filter(e => e.received_at >= sevenDaysAgo).map(e => e.firebase_uid));
-      const monthUsers = new Set(events.map(e => e.firebase_uid));
-
-      const dau = todayUsers.size;
-      const wau = weekUsers.size;
-      const mau = monthUsers.size;
-      const dauWauRatio = wau > 0 ? Math.round((dau / wau) * 100) : 0;
-
-      // === Daily Users Chart ===
-      const dailyMap = new Map<string, { users: Set<string>; events: number }>();
-      events.forEach(e => {
-        const date = e.received_at.split('T')[0];
-        if (!dailyMap.has(date)) {
-          dailyMap.set(date, { users: new Set(), events: 0 });
-        }
-        const day = dailyMap.get(date)!;
-        day.users.add(e.firebase_uid);
-        day.events++;
-      });
-
-      const daily = Array.from(dailyMap.entries())
-        .map(([date, data]) => ({
-          date: format(new Date(date), 'MMM dd'),
-          dau: data.users.size,
-          events: data.events,
-        }))
-        .slice(-14);
-      setDailyUsers(daily);
-
-      // === Weekly Users Chart ===
-      const weeklyMap = new Map<string, { users: Set<string>; baskets: number }>();
-      events.forEach(e => {
-        const weekStart = format(startOfWeek(new Date(e.received_at), { weekStartsOn: 1 }), 'MMM dd');
-        if (!weeklyMap.has(weekStart)) {
-          weeklyMap.set(weekStart, { users: new Set(), baskets: 0 });
-        }
-        const week = weeklyMap.get(weekStart)!;
-        week.users.add(e.firebase_uid);
-        if (e.event_name === 'basket_results_displayed') {
-          week.baskets++;
-        }
-      });
-
-      const weekly = Array.from(weeklyMap.entries())
-        .map(([week, data]) => ({
-          week,
-          wau: data.users.size,
-          baskets: data.baskets,
-          basketsPerUser: data.users.size > 0 ? Math.round((data.baskets / data.users.size) * 10) / 10 : 0,
-        }))
-        .slice(-6);
-      setWeeklyUsers(weekly);
-
-      // === Baskets & Savings ===
-      const basketEvents = events.filter(e => e.event_name === 'basket_results_displayed');
-      const totalBaskets = basketEvents.length;
-      const avgBasketsPerUser = mau > 0 ? Math.round((totalBaskets / mau) * 10) / 10 : 0;
-
-      let totalSavings = 0;
-      let basketsWithSavings = 0;
-      basketEvents.forEach(e => {
-        if (e.props?.savings_cents) {
-          totalSavings += e.props.savings_cents;
-          basketsWithSavings++;
-        }
-      });
-      const avgSavingsPerBasket = basketsWithSavings > 0 ? Math.round(totalSavings / basketsWithSavings) : 0;
-
-      // === Action Rate (swaps, store selections) ===
-      const actionEvents = events.filter(e =>
-        e.event_name === 'product_swapped' ||
-        e.event_name === 'comparison_started' ||
-        e.event_name === 'shopping_list_saved'
-      );
-      const basketsWithAction = new Set(actionEvents.map(e => e.firebase_uid)).size;
-      const basketUsers = new Set(basketEvents.map(e => e.firebase_uid)).size;
-      const actionRate = basketUsers > 0 ? Math.round((basketsWithAction / basketUsers) * 100) : 0;
-
-      // === Retention (W1) ===
-      // Users from 2 weeks ago who came back last week
-      const twoWeeksAgo = subDays(new Date(), 14).toISOString();
-      const oneWeekAgo = subDays(new Date(), 7).toISOString();
-
-      const usersWeek1 = new Set(
-        events.filter(e => e.received_at >= twoWeeksAgo && e.received_at < oneWeekAgo)
-          .map(e => e.firebase_uid)
-      );
-      const usersWeek2 = new Set(
-        events.filter(e => e.received_at >= oneWeekAgo)
-          .map(e => e.firebase_uid)
-      );
-      const retained = [...usersWeek1].filter(u => usersWeek2.has(u)).length;
-      const w1Retention = usersWeek1.size > 0 ? Math.round((retained / usersWeek1.size) * 100) : 0;
-
-      // === Cohort Retention ===
-      const cohorts: RetentionData[] = [];
-      for (let weeksAgo = 4; weeksAgo >= 1; weeksAgo--) {
-        const cohortStart = subDays(new Date(), weeksAgo * 7);
-        const cohortEnd = subDays(new Date(), (weeksAgo - 1) * 7);
-
-        const cohortUsers = new Set(
-          events.filter(e => {
-            const date = new Date(e.received_at);
-            return date >= cohortStart && date < cohortEnd;
-          }).map(e => e.firebase_uid)
-        );
-
-        if (cohortUsers.size === 0) continue;
-
-        // Check retention for each subsequent week
-        const checkRetention = (weeksLater: number) => {
-          if (weeksAgo - weeksLater < 0) return 0;
-          const checkStart = subDays(new Date(), (weeksAgo - weeksLater) * 7);
-          const checkEnd = subDays(new Date(), Math.max(0, (weeksAgo - weeksLater - 1) * 7));
-
-          const returnedUsers = events.filter(e => {
-            const date = new Date(e.received_at);
-            return date >= checkStart && date < checkEnd && cohortUsers.has(e.firebase_uid);
-          });
-
-          return new Set(returnedUsers.map(e => e.firebase_uid)).size;
-        };
-
-        cohorts.push({
-          cohort: format(cohortStart, 'MMM dd'),
-          users: cohortUsers.size,
-          w1: cohortUsers.size > 0 ? Math.round((checkRetention(1) / cohortUsers.size) * 100) : 0,
-          w2: cohortUsers.size > 0 ? Math.round((checkRetention(2) / cohortUsers.size) * 100) : 0,
-          w4: cohortUsers.size > 0 ? Math.round((checkRetention(4) / cohortUsers.size) * 100) : 0,
-        });
-      }
-      setRetentionData(cohorts);
-
-      // === User Segments by Activity Level ===
-      const userActivity = new Map<string, { events: number; savings: number }>();
-      events.forEach(e => {
-        if (!userActivity.has(e.firebase_uid)) {
-          userActivity.set(e.firebase_uid, { events: 0, savings: 0 });
-        }
-        const user = userActivity.get(e.firebase_uid)!;
-        user.events++;
-        if (e.props?.savings_cents) {
-          user.savings += e.props.savings_cents;
-        }
-      });
-
-      const segments: UserSegment[] = [
-        { segment: 'Power (50+ events)', users: 0, avgEvents: 0, avgSavings: 0 },
-        { segment: 'Active (20-49)', users: 0, avgEvents: 0, avgSavings: 0 },
-        { segment: 'Casual (5-19)', users: 0, avgEvents: 0, avgSavings: 0 },
-        { segment: 'New (1-4)', users: 0, avgEvents: 0, avgSavings: 0 },
-      ];
-
-      userActivity.forEach((data) => {
-        let segment: number;
-        if (data.events >= 50) segment = 0;
-        else if (data.events >= 20) segment = 1;
-        else if (data.events >= 5) segment = 2;
-        else segment = 3;
-
-        segments[segment].users++;
-        segments[segment].avgEvents += data.events;
-        segments[segment].avgSavings += data.savings;
-      });
-
-      segments.forEach(s => {
-        if (s.users > 0) {
-          s.avgEvents = Math.round(s.avgEvents / s.users);
-          s.avgSavings = Math.round(s.avgSavings / s.users);
-        }
-      });
-      setUserSegments(segments);
-
-      // === Activation Metrics ===
-      const onboardingStarted = new Set(events.filter(e => e.event_name === 'onboarding_started').map(e => e.firebase_uid)).size;
-      const onboardingCompleted = new Set(events.filter(e => e.event_name === 'onboarding_completed').map(e => e.firebase_uid)).size;
-      const onboardingCompletionRate = onboardingStarted > 0 ? Math.round((onboardingCompleted / onboardingStarted) * 100) : 0;
-
-      const firstBasketUsers = new Set(events.filter(e => e.event_name === 'basket_results_displayed').map(e => e.firebase_uid)).size;
-      const firstBasketRate = mau > 0 ? Math.round((firstBasketUsers / mau) * 100) : 0;
-
-      // "Aha" event: basket with >= €3 savings
-      const ahaUsers = new Set(
-        events.filter(e => e.event_name === 'basket_results_displayed' && e.props?.savings_cents >= 300)
-          .map(e => e.firebase_uid)
-      ).size;
-      const ahaEventRate = firstBasketUsers > 0 ? Math.round((ahaUsers / firstBasketUsers) * 100) : 0;
-
-      setActivationMetrics({
-        onboardingCompletionRate,
-        firstBasketRate,
-        ahaEventRate,
-      });
-
-      // === Acquisition Metrics (True New vs Returning) ===
-      const trulyNewUsers = new Set<string>();
-      const returningDeviceUsers = new Set<string>();
-
-      events.filter(e => e.event_name === 'auth_anonymous_selected').forEach(e => {
-        if (e.props?.is_new_user === true) {
-          trulyNewUsers.add(e.firebase_uid);
-        } else if (e.props?.is_returning_device === true) {
-          returningDeviceUsers.add(e.firebase_uid);
-        }
-      });
-
-      // New user conversion: % of truly new users who generate a basket
-      const newUsersWithBasket = events.filter(e =>
-        e.event_name === 'basket_results_displayed' &&
-        trulyNewUsers.has(e.firebase_uid)
-      );
-      const newUserConversionRate = trulyNewUsers.size > 0
-        ? Math.round((new Set(newUsersWithBasket.map(e => e.firebase_uid)).size / trulyNewUsers.size) * 100)
-        : 0;
-
-      setAcquisitionMetrics({
-        trulyNewUsers: trulyNewUsers.size,
-        returningDeviceUsers: returningDeviceUsers.size,
-        newUserConversionRate,
-      });
-
-      // === Performance ===
-      const processingTimes = messages?.filter(m => m.processing_ms).map(m => m.processing_ms) || [];
-      const avgProcessingMs = processingTimes.length > 0
-        ? Math.round(processingTimes.reduce((a, b) => a + b, 0) / processingTimes.length)
-        : 0;
-
-      // Basket success rate (baskets shown / baskets attempted)
-      const basketAttempts = events.filter(e => e.event_name === 'comparison_started').length;
-      const basketSuccesses = events.filter(e => e.event_name === 'basket_results_displayed').length;
-      const basketSuccessRate = basketAttempts > 0 ? Math.round((basketSuccesses / basketAttempts) * 100) : 0;
-
-      // === Latency per Response Type ===
-      const latencyMap = new Map<string, number[]>();
-      if (messages && messages.length > 0) {
-        messages.forEach(m => {
-          if (m.processing_ms && m.response_type) {
-            if (!latencyMap.has(m.response_type)) {
-              latencyMap.set(m.response_type, []);
-            }
-            latencyMap.get(m.response_type)!.push(m.processing_ms);
-          }
-        });
-      }
-
-      const latencies = Array.from(latencyMap.entries()).map(([type, times]) => {
-        const sorted = [...times].sort((a, b) => a - b);
-        const p50Index = Math.floor(sorted.length * 0.5);
-        const p95Index = Math.min(Math.floor(sorted.length * 0.95), sorted.length - 1);
-        return {
-          type: type.replace(/_/g, ' '),
-          count: times.length,
-          avg: Math.round(times.reduce((a, b) => a + b, 0) / times.length),
-          p50: sorted[p50Index] || 0,
-          p95: sorted[p95Index] || 0,
-        };
-      }).sort((a, b) => b.count - a.count);
-      setLatencyData(latencies);
-
-      setStats({
-        dau,
-        wau,
-        mau,
-        dauWauRatio,
-        avgBasketsPerUser,
-        avgSavingsPerBasket,
-        actionRate,
-        w1Retention,
-        avgProcessingMs,
-        basketSuccessRate,
-      });
-
-      setLastUpdated(new Date());
-      setLoading(false);
     };
 
     fetchData();
-  }, [timeRange]);
+    return () => controller.abort();
+  }, [selection, aha]);
 
   // Fetch latency data when time range changes
   useEffect(() => {
+    const controller = new AbortController();
     const fetchLatency = async () => {
-      setLatencyLoading(true);
-
-      let dateFilter: string | null = null;
-      if (latencyTimeRange === '24h') {
-        dateFilter = subDays(new Date(), 1).toISOString();
-      } else if (latencyTimeRange === '7d') {
-        dateFilter = subDays(new Date(), 7).toISOString();
-      } else if (latencyTimeRange === '30d') {
-        dateFilter = subDays(new Date(), 30).toISOString();
+      try {
+        setLatencyLoading(true);
+        const data = await fetchMetrics<LatencyMetrics>('latency', selectionParams(selection), controller.signal);
+        setLatencyData(data.latencyData);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching latency:', error);
+      } finally {
+        if (!controller.signal.aborted) setLatencyLoading(false);
       }
+    };
 
-      let query = supabase
-        .from('chat_messages')
-        .select('processing_ms, response_type')
-        .not('processing_ms', 'is', null)
-        .not('response_type', 'is', null);
+    fetchLatency();
+    return () => controller.abort();
+  }, [selection]);
 
-      if (dateFilter) {
-        query = query.gte('created_at', dateFilter);
+  // Cohorts are anchored on each user's first period, so they ignore the page's time range
+  useEffect(() => {
+    const controller = new AbortController();
+    const fetchCohorts = async () => {
+      try {
+        setCohortLoading(true);
+        const data = await fetchMetrics<CohortMetrics>('cohorts', {
+          granularity: cohortGranularity,
+          anchor: cohortAnchor,
+          periods: String(cohortPeriods),
+        }, controller.signal);
+        setCohorts(data.cohorts);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching cohorts:', error);
+      } finally {
+        if (!controller.signal.aborted) setCohortLoading(false);
       }
+    };
 
-      const { data: messages } = await query.order('created_at', { ascending: false }).limit(1000);
-
-      const latencyMap = new Map<string, number[]>();
-      if (messages && messages.length > 0) {
-        messages.forEach(m => {
-          if (m.processing_ms && m.response_type) {
-            if (!latencyMap.has(m.response_type)) {
-              latencyMap.set(m.response_type, []);
-            }
-            latencyMap.get(m.response_type)!.push(m.processing_ms);
-          }
-        });
-      }
+    fetchCohorts();
+    return () => controller.abort();
+  }, [cohortGranularity, cohortAnchor, cohortPeriods]);
 
-      const latencies = Array.from(latencyMap.entries()).map(([type, times]) => {
-        const sorted = [...times].sort((a, b) => a - b);
-        const p50Index = Math.floor(sorted.length * 0.5);
-        const p95Index = Math.min(Math.floor(sorted.length * 0.95), sorted.length - 1);
-        return {
-          type: type.replace(/_/g, ' '),
-          count: times.length,
-          avg: Math.round(times.reduce((a, b) => a + b, 0) / times.length),
-          p50: sorted[p50Index] || 0,
-          p95: sorted[p95Index] || 0,
-        };
-      }).sort((a, b) => b.count - a.count);
-
-      setLatencyData(latencies);
-      setLatencyLoading(false);
+  // Curves follow the users who first showed up in the selected range
+  useEffect(() => {
+    const controller = new AbortController();
+    const fetchRetention = async () => {
+      try {
+        setRetentionLoading(true);
+        const data = await fetchMetrics<RetentionMetrics>('retention', {
+          ...selectionParams(selection),
+          mode: retentionMode,
+          by: retentionBy,
+        }, controller.signal);
+        setRetention(data);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Error fetching retention:', error);
+      } finally {
+        if (!controller.signal.aborted) setRetentionLoading(false);
+      }
     };
 
-    fetchLatency();
-  }, [latencyTimeRange]);
+    fetchRetention();
+    return () => controller.abort();
+  }, [selection, retentionMode, retentionBy]);
+
+  // One row per curve day, one key per series
+  const retentionChart = retention?.days.map((day, i) => Object.fromEntries([
+    ['day', `D${day}`],
+    ...[retention.overall, ...retention.series].map(series => [series.name, series.points[i].rate]),
+  ])) ?? [];
+  const d7Retention = retention?.overall.points.find(p => p.day === 7)?.rate ?? null;
 
   if (loading) {
     return (
@@ -476,7 +258,7 @@ export default function UsersPage() {
       <nav className="bg-white/80 backdrop-blur-xl border-b border-gray-200 sticky top-0 z-50">
         <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-3 sm:py-4 flex items-center justify-between">
           <div className="flex items-center gap-3">
-            <Link href="/" className="text-gray-500 hover:text-gray-900">
+            <Link href={`/?${rangeQuery}`} className="text-gray-500 hover:text-gray-900">
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
               </svg>
@@ -490,96 +272,58 @@ export default function UsersPage() {
       </nav>
 
       <div className="max-w-7xl mx-auto px-3 sm:px-4 md:px-8 py-4 sm:py-8">
-        {/* Time Range Selector */}
-        <div className="flex flex-wrap gap-1 bg-gray-100 p-1 rounded-lg mb-6 w-fit">
-          {[
-            { value: '24h', label: '24h' },
-            { value: '7d', label: '7d' },
-            { value: '30d', label: '30d' },
-            { value: '3m', label: '3m' },
-            { value: '6m', label: '6m' },
-            { value: '9m', label: '9m' },
-            { value: '1y', label: '1y' },
-          ].map((option) => (
-            <button
-              key={option.value}
-              onClick={() => setTimeRange(option.value as typeof timeRange)}
-              className={`px-3 py-1.5 text-xs sm:text-sm font-medium rounded-md transition ${
-                timeRange === option.value
-                  ? 'bg-white text-gray-900 shadow-sm'
-                  : 'text-gray-500 hover:text-gray-700'
-              }`}
-            >
-              {option.label}
-            </button>
-          ))}
-        </div>
+        <TimeRangePicker value={selection} onChange={setSelection} />
+
+        <PartialDataNotice meta={meta} />
 
         {/* North Star Metrics */}
         <h2 className="text-lg font-semibold mb-3 text-gray-700">North Star</h2>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-2 sm:gap-4 mb-6">
-          <StatCard label="DAU" value={stats.dau} color="text-blue-700" />
-          <StatCard label="WAU" value={stats.wau} color="text-emerald-700" />
-          <StatCard label="MAU (30d)" value={stats.mau} color="text-violet-700" />
-          <StatCard label="DAU/WAU" value={`${stats.dauWauRatio}%`} color="text-amber-700" subtitle="Stickiness" />
+          <StatCard label="DAU" value={stats.dau} color="text-blue-700" comparison={{ current: stats.dau, previous: previous?.stats.dau }} />
+          <StatCard label="WAU" value={stats.wau} color="text-emerald-700" comparison={{ current: stats.wau, previous: previous?.stats.wau }} />
+          <StatCard label="MAU (30d)" value={stats.mau} color="text-violet-700" comparison={{ current: stats.mau, previous: previous?.stats.mau }} />
+          <StatCard label="DAU/WAU" value={`${stats.dauWauRatio}%`} color="text-amber-700" subtitle="Stickiness" comparison={{ current: stats.dauWauRatio, previous: previous?.stats.dauWauRatio, points: true }} />
         </div>
 
         {/* Engagement Metrics */}
         <h2 className="text-lg font-semibold mb-3 text-gray-700">Engagement</h2>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-2 sm:gap-4 mb-6">
-          <StatCard label="Baskets/User" value={stats.avgBasketsPerUser} color="text-blue-700" />
-          <StatCard label="Avg Savings" value={`€${(stats.avgSavingsPerBasket / 100).toFixed(2)}`} color="text-emerald-700" subtitle="per basket" />
-          <StatCard label="Action Rate" value={`${stats.actionRate}%`} color="text-violet-700" subtitle="swaps/saves" />
-          <StatCard label="W1 Retention" value={`${stats.w1Retention}%`} color="text-amber-700" />
+          <StatCard label="Baskets/User" value={stats.avgBasketsPerUser} color="text-blue-700" comparison={{ current: stats.avgBasketsPerUser, previous: previous?.stats.avgBasketsPerUser }} />
+          <StatCard label="Avg Savings" value={`€${(stats.avgSavingsPerBasket / 100).toFixed(2)}`} color="text-emerald-700" subtitle={SAVINGS_DEFINITIONS.per_basket.label} hint={SAVINGS_DEFINITIONS.per_basket.description} comparison={{ current: stats.avgSavingsPerBasket, previous: previous?.stats.avgSavingsPerBasket }} />
+          <StatCard label="Action Rate" value={`${stats.actionRate}%`} color="text-violet-700" subtitle="swaps/saves" comparison={{ current: stats.actionRate, previous: previous?.stats.actionRate, points: true }} />
+          <StatCard label="W1 Retention" value={`${stats.w1Retention}%`} color="text-amber-700" comparison={{ current: stats.w1Retention, previous: previous?.stats.w1Retention, points: true }} />
         </div>
 
         {/* Activation Metrics */}
         <h2 className="text-lg font-semibold mb-3 text-gray-700">Activation</h2>
         <div className="grid grid-cols-3 gap-2 sm:gap-4 mb-6">
-          <StatCard label="Onboarding" value={`${activationMetrics.onboardingCompletionRate}%`} color="text-blue-700" subtitle="completion" />
-          <StatCard label="First Basket" value={`${activationMetrics.firstBasketRate}%`} color="text-emerald-700" subtitle="of users" />
-          <StatCard label="Aha! (€3+)" value={`${activationMetrics.ahaEventRate}%`} color="text-violet-700" subtitle="found savings" />
+          <StatCard label="Onboarding" value={`${activationMetrics.onboardingCompletionRate}%`} color="text-blue-700" subtitle="completion" comparison={{ current: activationMetrics.onboardingCompletionRate, previous: previous?.activationMetrics.onboardingCompletionRate, points: true }} />
+          <StatCard label="First Basket" value={`${activationMetrics.firstBasketRate}%`} color="text-emerald-700" subtitle="of users" comparison={{ current: activationMetrics.firstBasketRate, previous: previous?.activationMetrics.firstBasketRate, points: true }} />
+          <StatCard label={`Aha! (${formatEuros(activationMetrics.ahaThreshold)}+)`} value={`${activationMetrics.ahaEventRate}%`} color="text-violet-700" subtitle="found savings" comparison={{ current: activationMetrics.ahaEventRate, previous: previous?.activationMetrics.ahaEventRate, points: true }} />
         </div>
 
         {/* Acquisition Metrics */}
         <h2 className="text-lg font-semibold mb-3 text-gray-700">Acquisition (True New vs Returning)</h2>
         <div className="grid grid-cols-3 gap-2 sm:gap-4 mb-6">
-          <StatCard label="Truly New" value={acquisitionMetrics.trulyNewUsers} color="text-emerald-700" subtitle="new devices" />
-          <StatCard label="Returning Device" value={acquisitionMetrics.returningDeviceUsers} color="text-amber-700" subtitle="same device, new UID" />
-          <StatCard label="New→Basket" value={`${acquisitionMetrics.newUserConversionRate}%`} color="text-blue-700" subtitle="conversion rate" />
+          <StatCard label="Truly New" value={acquisitionMetrics.trulyNewUsers} color="text-emerald-700" subtitle="new devices" comparison={{ current: acquisitionMetrics.trulyNewUsers, previous: previous?.acquisitionMetrics.trulyNewUsers }} />
+          <StatCard label="Returning Device" value={acquisitionMetrics.returningDeviceUsers} color="text-amber-700" subtitle="same device, new UID" comparison={{ current: acquisitionMetrics.returningDeviceUsers, previous: previous?.acquisitionMetrics.returningDeviceUsers }} />
+          <StatCard label="New→Basket" value={`${acquisitionMetrics.newUserConversionRate}%`} color="text-blue-700" subtitle="conversion rate" comparison={{ current: acquisitionMetrics.newUserConversionRate, previous: previous?.acquisitionMetrics.newUserConversionRate, points: true }} />
         </div>
 
         {/* Performance */}
         <h2 className="text-lg font-semibold mb-3 text-gray-700">Performance</h2>
         <div className="grid grid-cols-2 gap-2 sm:gap-4 mb-4">
-          <StatCard label="Avg Response" value={`${stats.avgProcessingMs}ms`} color="text-cyan-700" />
-          <StatCard label="Basket Success" value={`${stats.basketSuccessRate}%`} color="text-pink-700" subtitle="results shown" />
+          <StatCard label="Avg Response" value={`${stats.avgProcessingMs}ms`} color="text-cyan-700" comparison={{ current: stats.avgProcessingMs, previous: previous?.stats.avgProcessingMs, lowerIsBetter: true }} />
+          <StatCard label="Basket Success" value={`${stats.basketSuccessRate}%`} color="text-pink-700" subtitle="results shown" comparison={{ current: stats.basketSuccessRate, previous: previous?.stats.basketSuccessRate, points: true }} />
         </div>
 
         {/* Latency by Response Type */}
         <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm">
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
             <h2 className="text-base sm:text-lg font-semibold text-gray-900">Latency by Response Type</h2>
-            <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
-              {[
-                { value: '24h', label: '24h' },
-                { value: '7d', label: '7 days' },
-                { value: '30d', label: '30 days' },
-                { value: 'all', label: 'All time' },
-              ].map((option) => (
-                <button
-                  key={option.value}
-                  onClick={() => setLatencyTimeRange(option.value as typeof latencyTimeRange)}
-                  className={`px-3 py-1.5 text-xs sm:text-sm font-medium rounded-md transition ${
-                    latencyTimeRange === option.value
-                      ? 'bg-white text-gray-900 shadow-sm'
-                      : 'text-gray-500 hover:text-gray-700'
-                  }`}
-                >
-                  {option.label}
-                </button>
-              ))}
-            </div>
+            <Link href={`/latency?${rangeQuery}`} className="text-xs sm:text-sm text-blue-700 hover:underline">
+              Latency SLO
+            </Link>
           </div>
           <div className="overflow-x-auto">
             {latencyLoading ? (
@@ -593,6 +337,7 @@ export default function UsersPage() {
                     <th className="text-right py-3 font-medium">Average</th>
                     <th className="text-right py-3 font-medium">Median</th>
                     <th className="text-right py-3 font-medium">Slowest 5%</th>
+                    <th className="text-right py-3 font-medium">Slowest 1%</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -618,6 +363,11 @@ export default function UsersPage() {
                           {l.p95}ms
                         </span>
                       </td>
+                      <td className="text-right py-3">
+                        <span className={`${l.p99 < 2000 ? 'text-emerald-700' : l.p99 < 5000 ? 'text-amber-700' : 'text-red-600'}`}>
+                          {l.p99}ms
+                        </span>
+                      </td>
                     </tr>
                   ))}
                 </tbody>
@@ -635,12 +385,13 @@ export default function UsersPage() {
           <Card title="Daily Active Users (DAU)">
             <div className="h-48 sm:h-64">
               <ResponsiveContainer width="100%" height="100%">
-                <AreaChart data={dailyUsers} margin={{ top: 5, right: 5, bottom: 5, left: 0 }}>
+                <AreaChart data={alignPrevious(dailyUsers, previous?.dailyUsers, selectionWindow(selection))} margin={{ top: 5, right: 5, bottom: 5, left: 0 }}>
                   <CartesianGrid strokeDasharray="3 3" stroke="#E5E5EA" />
                   <XAxis dataKey="date" stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} />
                   <YAxis stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} />
                   <Tooltip contentStyle={{ backgroundColor: '#fff', border: '1px solid #E5E5EA', borderRadius: 12, fontWeight: 500 }} />
                   <Area type="monotone" dataKey="dau" stroke="#2563EB" fill="#2563EB" fillOpacity={0.15} strokeWidth={2} name="Users" />
+                  {previous && <Area type="monotone" dataKey={(d: DailyPoint) => d.previous?.dau} stroke="#9CA3AF" fill="none" strokeDasharray="4 4" strokeWidth={2} name="Previous period" />}
                 </AreaChart>
               </ResponsiveContainer>
             </div>
@@ -693,47 +444,180 @@ export default function UsersPage() {
           </Card>
         </div>
 
-        {/* Tables */}
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-6">
-          <Card title="Cohort Retention">
-            <div className="overflow-x-auto">
+        {/* Cohort Retention */}
+        <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm mb-3 sm:mb-6">
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3 mb-4">
+            <h2 className="text-base sm:text-lg font-semibold text-gray-900">Cohort Retention</h2>
+            <div className="flex flex-wrap gap-2">
+              <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+                {GRANULARITIES.map(granularity => (
+                  <button
+                    key={granularity}
+                    onClick={() => setCohortGranularity(granularity)}
+                    className={`px-3 py-1.5 text-xs sm:text-sm font-medium rounded-md transition ${
+                      cohortGranularity === granularity
+                        ? 'bg-white text-gray-900 shadow-sm'
+                        : 'text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    {GRANULARITY_LABELS[granularity].label}
+                  </button>
+                ))}
+              </div>
+              <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+                {COHORT_ANCHORS.map(anchor => (
+                  <button
+                    key={anchor}
+                    onClick={() => setCohortAnchor(anchor)}
+                    className={`px-3 py-1.5 text-xs sm:text-sm font-medium rounded-md transition ${
+                      cohortAnchor === anchor
+                        ? 'bg-white text-gray-900 shadow-sm'
+                        : 'text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    {ANCHOR_LABELS[anchor]}
+                  </button>
+                ))}
+              </div>
+              <select
+                value={cohortPeriods}
+                onChange={e => setCohortPeriods(Number(e.target.value))}
+                className="px-3 py-1.5 text-xs sm:text-sm font-medium rounded-lg bg-gray-100 text-gray-700"
+              >
+                {Array.from({ length: MAX_COHORT_PERIODS - 1 }, (_, i) => i + 2).map(n => (
+                  <option key={n} value={n}>{n} periods</option>
+                ))}
+              </select>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            {cohortLoading ? (
+              <p className="text-gray-400 text-center py-8">Loading...</p>
+            ) : cohorts.some(c => c.users > 0) ? (
               <table className="w-full text-sm">
                 <thead>
                   <tr className="text-gray-500 border-b border-gray-200">
                     <th className="text-left py-3 font-medium">Cohort</th>
-                    <th className="text-right py-3 font-medium">Users</th>
-                    <th className="text-right py-3 font-medium">W1</th>
-                    <th className="text-right py-3 font-medium">W2</th>
-                    <th className="text-right py-3 font-medium">W4</th>
+                    <th className="text-right py-3 pr-3 font-medium">Users</th>
+                    {cohorts.map((_, offset) => (
+                      <th key={offset} className="text-center py-3 font-medium">
+                        {GRANULARITY_LABELS[cohortGranularity].short}{offset}
+                      </th>
+                    ))}
                   </tr>
                 </thead>
                 <tbody>
-                  {retentionData.map((r, i) => (
-                    <tr key={r.cohort} className="border-b border-gray-100">
-                      <td className="py-3 font-medium">{r.cohort}</td>
-                      <td className="text-right py-3 text-gray-600">{r.users}</td>
-                      <td className="text-right py-3">
-                        <span className={`px-2 py-1 rounded text-xs font-medium ${r.w1 >= 30 ? 'bg-emerald-100 text-emerald-700' : r.w1 >= 15 ? 'bg-amber-100 text-amber-700' : 'bg-red-100 text-red-700'}`}>
-                          {r.w1}%
-                        </span>
-                      </td>
-                      <td className="text-right py-3">
-                        <span className={`px-2 py-1 rounded text-xs font-medium ${r.w2 >= 20 ? 'bg-emerald-100 text-emerald-700' : r.w2 >= 10 ? 'bg-amber-100 text-amber-700' : 'bg-red-100 text-red-700'}`}>
-                          {r.w2}%
-                        </span>
-                      </td>
-                      <td className="text-right py-3">
-                        <span className={`px-2 py-1 rounded text-xs font-medium ${r.w4 >= 10 ? 'bg-emerald-100 text-emerald-700' : r.w4 >= 5 ? 'bg-amber-100 text-amber-700' : 'bg-red-100 text-red-700'}`}>
-                          {r.w4}%
-                        </span>
-                      </td>
+                  {cohorts.map(c => (
+                    <tr key={c.cohort} className="border-b border-gray-100">
+                      <td className="py-2 font-medium whitespace-nowrap">{c.cohort}</td>
+                      <td className="text-right py-2 pr-3 text-gray-600">{c.users}</td>
+                      {c.retention.map((value, offset) => (
+                        <td key={offset} className="p-0.5">
+                          {value !== null && c.users > 0 && (
+                            <div
+                              className={`rounded text-center text-xs font-medium py-1.5 ${value >= 50 ? 'text-white' : 'text-gray-900'}`}
+                              style={{ backgroundColor: `rgba(37, 99, 235, ${Math.max(value, 4) / 100})` }}
+                            >
+                              {value}%
+                            </div>
+                          )}
+                        </td>
+                      ))}
                     </tr>
                   ))}
                 </tbody>
               </table>
+            ) : (
+              <p className="text-gray-400 text-center py-8">No cohorts in this window</p>
+            )}
+          </div>
+        </div>
+
+        {/* Retention Curves */}
+        <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm mb-3 sm:mb-6">
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3 mb-4">
+            <div>
+              <h2 className="text-base sm:text-lg font-semibold text-gray-900">Retention Curves</h2>
+              <p className="text-xs text-gray-500">
+                Users first seen in this range. {RETENTION_MODE_LABELS[retentionMode].description}
+              </p>
             </div>
-          </Card>
+            <div className="flex flex-wrap gap-2">
+              <div className="flex gap-1 bg-gray-100 p-1 rounded-lg">
+                {RETENTION_MODES.map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setRetentionMode(mode)}
+                    className={`px-3 py-1.5 text-xs sm:text-sm font-medium rounded-md transition ${
+                      retentionMode === mode
+                        ? 'bg-white text-gray-900 shadow-sm'
+                        : 'text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    {RETENTION_MODE_LABELS[mode].label}
+                  </button>
+                ))}
+              </div>
+              <BreakdownPicker
+                value={retentionBy}
+                onChange={setRetentionBy}
+                extra={[{ value: 'cohort', label: 'Signup week' }]}
+              />
+            </div>
+          </div>
+          {retentionLoading && !retention ? (
+            <p className="text-gray-400 text-center py-8">Loading...</p>
+          ) : retention && retention.overall.users > 0 ? (
+            <>
+              <div className="h-64 sm:h-80">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={retentionChart} margin={{ top: 5, right: 5, bottom: 5, left: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#E5E5EA" />
+                    <XAxis dataKey="day" stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} />
+                    <YAxis stroke="#374151" fontSize={11} fontWeight={500} tickLine={false} unit="%" domain={[0, 100]} />
+                    <Tooltip contentStyle={{ backgroundColor: '#fff', border: '1px solid #E5E5EA', borderRadius: 12, fontWeight: 500 }} formatter={(value) => `${value}%`} />
+                    <Legend wrapperStyle={{ fontSize: 12 }} />
+                    {retention.series.map((series, i) => (
+                      <Line
+                        key={series.name}
+                        type="monotone"
+                        dataKey={series.name}
+                        name={`${series.name} (${series.users})`}
+                        stroke={COLORS[i % COLORS.length]}
+                        strokeWidth={2}
+                        dot={{ r: 3 }}
+                        connectNulls
+                      />
+                    ))}
+                    <Line
+                      type="monotone"
+                      dataKey={retention.overall.name}
+                      name={`${retention.overall.name} (${retention.overall.users})`}
+                      stroke="#111827"
+                      strokeWidth={3}
+                      strokeDasharray="6 4"
+                      dot={{ r: 4 }}
+                      connectNulls
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 sm:gap-4 mt-4">
+                {retention.overall.points.map(point => (
+                  <div key={point.day} className="text-center">
+                    <div className="text-lg sm:text-xl font-bold text-gray-900">{point.rate === null ? '–' : `${point.rate}%`}</div>
+                    <div className="text-xs text-gray-500">D{point.day} · {point.retained}/{point.eligible} users</div>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-gray-400 text-center py-8">No new users in this range</p>
+          )}
+        </div>
 
+        {/* Tables */}
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-3 sm:gap-6">
           <Card title="User Segments Detail">
             <div className="overflow-x-auto">
               <table className="w-full text-sm">
@@ -742,7 +626,7 @@ export default function UsersPage() {
                     <th className="text-left py-3 font-medium">Segment</th>
                     <th className="text-right py-3 font-medium">Users</th>
                     <th className="text-right py-3 font-medium">Avg Events</th>
-                    <th className="text-right py-3 font-medium">Avg Savings</th>
+                    <th className="text-right py-3 font-medium" title={SAVINGS_DEFINITIONS.shown.description}>Avg Savings Shown</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -776,12 +660,14 @@ export default function UsersPage() {
                 description="How often users return. Higher = more habit-forming."
               />
               <PMFIndicator
-                label="W1 Retention"
-                value={stats.w1Retention}
+                label={`W1 Retention (D7, ${RETENTION_MODE_LABELS[retentionMode].label.toLowerCase()})`}
+                value={d7Retention ?? 0}
                 target={25}
                 unit="%"
-                good={stats.w1Retention >= 25}
-                description="Users who return in week 2 after first use."
+                good={d7Retention !== null && d7Retention >= 25}
+                description={d7Retention === null
+                  ? 'No new users in this range are 7 days old yet.'
+                  : `New users ${retentionMode === 'classic' ? 'active exactly 7 days' : 'active 7 or more days'} after first use.`}
               />
               <PMFIndicator
                 label="Action Rate"
@@ -797,7 +683,7 @@ export default function UsersPage() {
                 target={40}
                 unit="%"
                 good={activationMetrics.ahaEventRate >= 40}
-                description="Users who found €3+ savings (the aha moment)."
+                description={`Users who found ${formatEuros(activationMetrics.ahaThreshold)}+ savings (the aha moment).`}
               />
             </div>
           </Card>
@@ -807,16 +693,6 @@ export default function UsersPage() {
   );
 }
 
-function StatCard({ label, value, color, subtitle }: { label: string; value: string | number; color: string; subtitle?: string }) {
-  return (
-    <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-5 shadow-sm">
-      <p className="text-gray-600 text-[10px] sm:text-xs font-medium mb-0.5 sm:mb-1">{label}</p>
-      <p className={`text-xl sm:text-2xl md:text-3xl font-semibold ${color}`}>{value}</p>
-      {subtitle && <p className="text-[10px] sm:text-xs text-gray-400 mt-0.5">{subtitle}</p>}
-    </div>
-  );
-}
-
 function Card({ title, children }: { title: string; children: React.ReactNode }) {
   return (
     <div className="bg-white rounded-xl sm:rounded-2xl p-3 sm:p-6 shadow-sm">
@@ -1,49 +1,99 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { EMAIL_HEADER, ROLE_HEADER, SESSION_COOKIE, readSession } from './app/lib/auth';
+import { auditKind, recordAudit } from './app/lib/audit';
+import { hasRole } from './app/lib/roles';
+import type { Session } from './app/lib/auth';
+import type { Role } from './app/lib/roles';
 
-const SECRET_KEY = process.env.DASHBOARD_SECRET_KEY || 'spaartje2024';
+const PUBLIC_PATHS = ['/sign-in', '/api/auth/sign-in'];
 
-export function middleware(request: NextRequest) {
+// Requests that say nothing about what a person looked at
+const UNAUDITED_PATHS = ['/api/auth/session'];
+
+// Minimum role per path; everything else is open to any signed-in account.
+function requiredRole(pathname: string, method: string): Role {
+  if (pathname.startsWith('/admin') || pathname.startsWith('/api/accounts') || pathname.startsWith('/api/audit')) return 'admin';
+  if (pathname.startsWith('/api') && !pathname.startsWith('/api/auth') && method !== 'GET') return 'analyst';
+  return 'viewer';
+}
+
+async function audit(request: NextRequest, session: Session) {
   const { pathname, searchParams } = request.nextUrl;
+  const isPrefetch = request.headers.has('next-router-prefetch') || request.headers.get('purpose') === 'prefetch';
+  if (isPrefetch || UNAUDITED_PATHS.includes(pathname)) return;
+
+  const params = Object.fromEntries(searchParams);
+  delete params._rsc;
+
+  try {
+    await recordAudit({
+      email: session.email,
+      role: session.role,
+      kind: auditKind(pathname, request.method),
+      method: request.method,
+      path: pathname,
+      params,
+    });
+  } catch (error) {
+    // A full disk should not lock everyone out of the dashboard
+    console.error('Error writing audit log:', error);
+  }
+}
 
-  // Skip for static files and api routes
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  const isApi = pathname.startsWith('/api');
+
+  // Skip for static files
   if (
     pathname.startsWith('/_next') ||
-    pathname.startsWith('/api') ||
-    pathname.includes('.')
+    (!isApi && pathname.includes('.'))
   ) {
     return NextResponse.next();
   }
 
-  // Check for key in URL or cookie
-  const urlKey = searchParams.get('key');
-  const cookieKey = request.cookies.get('dashboard_key')?.value;
-
-  if (urlKey === SECRET_KEY) {
-    // Valid key in URL - set cookie and redirect to clean URL
-    const response = NextResponse.redirect(new URL(pathname, request.url));
-    response.cookies.set('dashboard_key', SECRET_KEY, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 60 * 60 * 24 * 30, // 30 days
-    });
-    return response;
+  if (PUBLIC_PATHS.includes(pathname)) {
+    return NextResponse.next();
   }
 
-  if (cookieKey === SECRET_KEY) {
-    // Valid key in cookie
-    return NextResponse.next();
+  let session: Session | null;
+  try {
+    session = await readSession(request.cookies.get(SESSION_COOKIE)?.value);
+  } catch (error) {
+    console.error('Error checking session:', error);
+    return NextResponse.json({ error: 'Authentication is not configured' }, { status: 500 });
+  }
+
+  if (!session) {
+    // API routes answer with a status instead of redirecting
+    if (isApi) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const signIn = new URL('/sign-in', request.url);
+    signIn.searchParams.set('next', pathname + search);
+    return NextResponse.redirect(signIn);
   }
 
-  // No valid key - show access denied
-  if (pathname !== '/access-denied') {
-    return NextResponse.redirect(new URL('/access-denied', request.url));
+  await audit(request, session);
+
+  if (!hasRole(session.role, requiredRole(pathname, request.method))) {
+    if (isApi) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+    return NextResponse.redirect(new URL('/', request.url));
   }
 
-  return NextResponse.next();
+  // Route handlers read the signed-in account from these instead of re-checking the cookie
+  const headers = new Headers(request.headers);
+  headers.set(EMAIL_HEADER, session.email);
+  headers.set(ROLE_HEADER, session.role);
+  return NextResponse.next({ request: { headers } });
 }
 
 export const config = {
+  // Sessions are checked against the account store on disk
+  runtime: 'nodejs',
   matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
 };
@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The old shared-key landing page is now the sign-in page
+  async redirects() {
+    return [{ source: "/access-denied", destination: "/sign-in", permanent: true }];
+  },
 };
 
 export default nextConfig;
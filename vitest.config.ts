@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    include: ['app/**/*.test.ts'],
+    // Day and week boundaries in date-fns follow the local zone; pin it so fixtures mean the same everywhere
+    env: { TZ: 'UTC' },
+  },
+});